@@ -0,0 +1,115 @@
+import { getConfig } from './config.js';
+import type {
+	ActivityAudience,
+	ActivityOptions,
+	JsonLdContext,
+	SchemaSeller,
+	SchemaItem,
+	ActivityStreamsActor,
+	ActivityStreamsItem
+} from './types.js';
+
+export const ACTIVITYSTREAMS_CONTEXT = 'https://www.w3.org/ns/activitystreams';
+
+export const AS_PUBLIC = 'https://www.w3.org/ns/activitystreams#Public';
+
+export const SCHEMA_ORG_TERMS: Record<string, unknown> = {
+	schema: 'https://schema.org/',
+	Offer: 'schema:Offer',
+	DonateAction: 'schema:DonateAction',
+	ReserveAction: 'schema:ReserveAction',
+	Product: 'schema:Product',
+	Service: 'schema:Service',
+	CreativeWork: 'schema:CreativeWork',
+	PropertyValue: 'schema:PropertyValue',
+	value: 'schema:value',
+	price: 'schema:price',
+	priceCurrency: 'schema:priceCurrency',
+	priceSpecification: 'schema:priceSpecification',
+	priceValidUntil: 'schema:priceValidUntil',
+	availability: { '@id': 'schema:availability', '@type': '@id' },
+	availabilityStarts: 'schema:availabilityStarts',
+	availabilityEnds: 'schema:availabilityEnds',
+	acceptedPaymentMethod: 'schema:acceptedPaymentMethod',
+	seller: 'schema:seller',
+	recipient: 'schema:recipient',
+	itemOffered: 'schema:itemOffered',
+	email: 'schema:email',
+	sameAs: { '@id': 'schema:sameAs', '@type': '@id' }
+};
+
+export const FEDERATION_CONTEXT: JsonLdContext = [ACTIVITYSTREAMS_CONTEXT, SCHEMA_ORG_TERMS];
+
+
+
+
+export function resolveActivityOptions(
+	options: ActivityOptions = {}
+): ActivityOptions & { published: string } {
+	const defaults = getConfig().federation ?? {};
+	const published = new Date(options.published ?? Date.now());
+	if (Number.isNaN(published.getTime())) {
+		throw new Error(`Invalid published date: ${String(options.published)}`);
+	}
+	return {
+		...defaults,
+		...options,
+		published: published.toISOString()
+	};
+}
+
+
+
+
+export function resolveAudience(
+	audience: ActivityOptions['audience'] = 'public',
+	followers: string
+): Required<ActivityAudience> {
+	switch (audience) {
+		case 'public':
+			return { to: [AS_PUBLIC], cc: [followers] };
+		case 'unlisted':
+			return { to: [followers], cc: [AS_PUBLIC] };
+		case 'followers':
+			return { to: [followers], cc: [] };
+		default:
+			if (!Array.isArray(audience?.to)) {
+				throw new Error('Activity audience requires a "to" list');
+			}
+			return { to: [...audience.to], cc: [...(audience.cc ?? [])] };
+	}
+}
+
+
+
+
+export function toActivityId(objectId: string, activity: string, timestamp?: string): string {
+	const suffix = timestamp
+		? `${activity.toLowerCase()}-${new Date(timestamp).getTime()}`
+		: activity.toLowerCase();
+	return objectId.includes('#') ? `${objectId}-${suffix}` : `${objectId}#${suffix}`;
+}
+
+
+
+
+export function toActivityStreamsActor(seller: SchemaSeller): ActivityStreamsActor {
+	const actor: ActivityStreamsActor = { type: seller['@type'], name: seller.name };
+	if (seller['@id']) actor.id = seller['@id'];
+	if (seller.url) actor.url = seller.url;
+	if (seller.logo || seller.image) actor.icon = seller.logo || seller.image;
+	if (seller.email) actor.email = seller.email;
+	if (seller.sameAs?.length) actor.sameAs = [...seller.sameAs];
+	return actor;
+}
+
+
+
+
+export function toActivityStreamsItem(item: SchemaItem): ActivityStreamsItem {
+	const result: ActivityStreamsItem = { type: item['@type'], name: item.name };
+	if (item.description) result.summary = item.description;
+	if (item.url) result.url = item.url;
+	if (item.image) result.image = item.image;
+	return result;
+}
@@ -0,0 +1,67 @@
+import { getMinorUnits } from './currencies.js';
+import { divideHalfUp, formatUnits, Money } from './money.js';
+import type { ExchangeRateProvider } from './types.js';
+
+const RATE_SCALE = 18;
+
+
+
+
+function trimDecimal(value: string): string {
+	return value.includes('.') ? value.replace(/0+$/, '').replace(/\.$/, '') : value;
+}
+
+
+
+
+export function createExchangeRateTable(
+	base: string,
+	rates: Record<string, number | string>
+): ExchangeRateProvider {
+	const table = new Map<string, Money>([[base.toUpperCase(), Money.parse(1, base)]]);
+	for (const [code, rate] of Object.entries(rates)) {
+		const parsed = Money.parse(rate, code);
+		if (parsed.isNegative() || parsed.isZero()) {
+			throw new Error(`Invalid exchange rate for ${code}: ${rate}`);
+		}
+		table.set(code.toUpperCase(), parsed);
+	}
+
+	return {
+		getRate(from: string, to: string): string | undefined {
+			const source = table.get(from.toUpperCase());
+			const target = table.get(to.toUpperCase());
+			if (!source || !target) return undefined;
+
+			const numerator = target.units * 10n ** BigInt(RATE_SCALE + source.decimals);
+			const denominator = source.units * 10n ** BigInt(target.decimals);
+			return trimDecimal(formatUnits(divideHalfUp(numerator, denominator), RATE_SCALE));
+		}
+	};
+}
+
+
+
+
+export function convertMoney(
+	amount: Money,
+	to: string,
+	rates: ExchangeRateProvider | undefined
+): Money | undefined {
+	const target = to.toUpperCase();
+	if (amount.currency === target) return amount;
+
+	const rate = rates?.getRate(amount.currency, target);
+	if (rate === undefined) return undefined;
+
+	const parsedRate = Money.parse(rate, target);
+	const product = amount.units * parsedRate.units;
+	const productScale = amount.decimals + parsedRate.decimals;
+	const targetScale = getMinorUnits(target) ?? productScale;
+
+	const units =
+		productScale >= targetScale
+			? divideHalfUp(product, 10n ** BigInt(productScale - targetScale))
+			: product * 10n ** BigInt(targetScale - productScale);
+	return Money.parse(formatUnits(units, targetScale), target);
+}
@@ -0,0 +1,152 @@
+import type {
+	BillingPeriod,
+	PriceSpecification,
+	QuantitativeValue,
+	SubscriptionTier,
+	TransactionConfig
+} from './types.js';
+
+export const BILLING_UNIT_CODES: Record<BillingPeriod, string> = {
+	day: 'DAY',
+	week: 'WEE',
+	month: 'MON',
+	year: 'ANN'
+};
+
+export const SUBSCRIPTION_COMPONENT_TYPE = 'https://schema.org/Subscription';
+
+const BILLING_PERIODS_BY_CODE: Record<string, BillingPeriod> = Object.fromEntries(
+	Object.entries(BILLING_UNIT_CODES).map(([period, code]) => [code, period as BillingPeriod])
+);
+
+export function isBillingPeriod(value: unknown): value is BillingPeriod {
+	return typeof value === 'string' && value in BILLING_UNIT_CODES;
+}
+
+
+
+
+export function toQuantitativeValue(value: number, period: BillingPeriod): QuantitativeValue {
+	return {
+		'@type': 'QuantitativeValue',
+		value,
+		unitCode: BILLING_UNIT_CODES[period],
+		unitText: period
+	};
+}
+
+
+
+
+export function getTierId(tier: SubscriptionTier): string {
+	if (typeof tier.id === 'string' && tier.id) return tier.id;
+	return (
+		String(tier.name ?? '')
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '')
+	);
+}
+
+
+
+
+export function applyTier(
+	transaction: TransactionConfig,
+	tierId: string,
+	defaultLabel: string
+): TransactionConfig {
+	const tier = transaction.tiers?.find((t) => getTierId(t) === tierId);
+	if (!tier) {
+		throw new Error(`Unknown subscription tier: ${tierId}`);
+	}
+	return {
+		...transaction,
+		label: `${transaction.label || defaultLabel} (${tier.name})`,
+		price: tier.price,
+		description: tier.description ?? transaction.description,
+		billingDuration: tier.billingDuration ?? transaction.billingDuration,
+		billingIncrement: tier.billingIncrement ?? transaction.billingIncrement,
+		trial: tier.trial ?? transaction.trial,
+		schedule: undefined,
+		tiers: undefined
+	};
+}
+
+
+
+
+export function applyBilling(
+	spec: PriceSpecification,
+	transaction: TransactionConfig
+): PriceSpecification {
+	if (!transaction.billingDuration) {
+		return spec;
+	}
+
+	const increment = transaction.billingIncrement ?? 1;
+	const recurring: PriceSpecification = {
+		...spec,
+		'@type': 'UnitPriceSpecification',
+		priceComponentType: SUBSCRIPTION_COMPONENT_TYPE,
+		referenceQuantity: toQuantitativeValue(increment, transaction.billingDuration),
+		billingIncrement: increment,
+		unitCode: BILLING_UNIT_CODES[transaction.billingDuration]
+	};
+
+	if (!transaction.trial) {
+		return recurring;
+	}
+
+	const trial: PriceSpecification = {
+		'@type': 'UnitPriceSpecification',
+		price: transaction.trial.price ?? 0,
+		priceCurrency: spec.priceCurrency,
+		billingDuration: toQuantitativeValue(transaction.trial.duration, transaction.trial.unit)
+	};
+	if (spec.valueAddedTaxIncluded !== undefined) {
+		trial.valueAddedTaxIncluded = spec.valueAddedTaxIncluded;
+	}
+
+	return {
+		'@type': 'CompoundPriceSpecification',
+		price: spec.price,
+		priceCurrency: spec.priceCurrency,
+		priceComponent: [trial, recurring]
+	};
+}
+
+
+
+
+export function findRecurringSpec(
+	spec: PriceSpecification | undefined
+): PriceSpecification | undefined {
+	if (!spec) return undefined;
+	if (spec.referenceQuantity) return spec;
+	return spec.priceComponent?.find((component) => component.referenceQuantity);
+}
+
+
+
+
+function formatQuantity(quantity: QuantitativeValue): string {
+	const period = BILLING_PERIODS_BY_CODE[quantity.unitCode] ?? quantity.unitText ?? quantity.unitCode;
+	return quantity.value === 1 ? period : `${quantity.value} ${period}s`;
+}
+
+export function formatBillingSuffix(spec: PriceSpecification | undefined): string {
+	const recurring = findRecurringSpec(spec);
+	if (!recurring?.referenceQuantity) return '';
+
+	let suffix = `/${formatQuantity(recurring.referenceQuantity)}`;
+	const trial = spec?.priceComponent?.find(
+		(component) => component.billingDuration && !component.referenceQuantity
+	);
+	if (trial?.billingDuration) {
+		const { value, unitCode, unitText } = trial.billingDuration;
+		const unit = BILLING_PERIODS_BY_CODE[unitCode] ?? unitText ?? unitCode;
+		suffix += ` (${value}-${unit} trial)`;
+	}
+	return suffix;
+}
@@ -1,3 +1,14 @@
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	ActivityOptions,
+	CurrencyDefinition,
+	ExchangeRateProvider,
+	JsonLdOptions,
+	SellerProfile,
+	SellerReference,
+	TaxRule
+} from './types.js';
+
 
 
 
@@ -30,6 +41,14 @@ export { noopTracer, noopSpan };
 
 export interface OfferBuilderConfig {
 	tracer?: Tracer;
+	transactionRegistry?: TransactionRegistry;
+	sellers?: Record<string, SellerProfile>;
+	defaultSeller?: SellerReference;
+	currencies?: CurrencyDefinition[];
+	taxRules?: TaxRule[];
+	exchangeRates?: ExchangeRateProvider;
+	federation?: Pick<ActivityOptions, 'actor' | 'followers' | 'audience'>;
+	jsonLd?: JsonLdOptions;
 }
 
 let _config: OfferBuilderConfig = {};
@@ -0,0 +1,86 @@
+import { getConfig } from './config.js';
+import { ISO_4217_CURRENCIES } from './iso-4217.js';
+import { Money } from './money.js';
+import type { CryptoAsset, CurrencyDefinition } from './types.js';
+
+export const CRYPTO_ASSETS: CryptoAsset[] = [
+	{ kind: 'crypto', code: 'XMR', name: 'Monero', decimals: 12, chain: 'monero', symbol: 'ɱ' },
+	{ kind: 'crypto', code: 'BTC', name: 'Bitcoin', decimals: 8, chain: 'bitcoin', symbol: '₿' },
+	{ kind: 'crypto', code: 'ETH', name: 'Ether', decimals: 18, chain: 'ethereum', symbol: 'Ξ' },
+	{ kind: 'crypto', code: 'LTC', name: 'Litecoin', decimals: 8, chain: 'litecoin', symbol: 'Ł' },
+	{ kind: 'crypto', code: 'ZEC', name: 'Zcash', decimals: 8, chain: 'zcash' },
+	{ kind: 'crypto', code: 'USDC', name: 'USD Coin', decimals: 6, chain: 'ethereum', network: 'erc20' },
+	{ kind: 'crypto', code: 'USDT', name: 'Tether USD', decimals: 6, chain: 'ethereum', network: 'erc20' },
+	{ kind: 'crypto', code: 'DAI', name: 'Dai', decimals: 18, chain: 'ethereum', network: 'erc20' }
+];
+
+export const BUILTIN_CURRENCIES: CurrencyDefinition[] = [
+	...ISO_4217_CURRENCIES,
+	...CRYPTO_ASSETS
+];
+
+const builtinByCode = new Map(BUILTIN_CURRENCIES.map((c) => [c.code, c]));
+
+
+
+
+export function getCurrency(code: string): CurrencyDefinition | undefined {
+	if (typeof code !== 'string') return undefined;
+	const normalized = code.toUpperCase();
+	const custom = getConfig().currencies?.find((c) => c.code.toUpperCase() === normalized);
+	return custom ?? builtinByCode.get(normalized);
+}
+
+
+
+
+export function listCurrencies(kind?: CurrencyDefinition['kind']): CurrencyDefinition[] {
+	const byCode = new Map(builtinByCode);
+	for (const currency of getConfig().currencies ?? []) {
+		byCode.set(currency.code.toUpperCase(), currency);
+	}
+	const all = Array.from(byCode.values());
+	return kind ? all.filter((c) => c.kind === kind) : all;
+}
+
+export function isKnownCurrency(code: string): boolean {
+	return getCurrency(code) !== undefined;
+}
+
+export function isCryptoCurrency(code: string): boolean {
+	return getCurrency(code)?.kind === 'crypto';
+}
+
+
+
+
+export function getMinorUnits(code: string): number | undefined {
+	const currency = getCurrency(code);
+	if (!currency) return undefined;
+	return currency.kind === 'crypto' ? currency.decimals : currency.minorUnits;
+}
+
+
+
+
+export function formatPrice(
+	price: number | string,
+	code: string,
+	options: { display?: 'code' | 'symbol' } = {}
+): string {
+	const currency = getCurrency(code);
+	let amount = Money.tryParse(price, code)?.toString() ?? String(price);
+
+	const minorUnits = getMinorUnits(code);
+	const [intPart, fracPart] = amount.split('.');
+	if (minorUnits !== undefined && fracPart !== undefined && fracPart.length < minorUnits) {
+		amount = `${intPart}.${fracPart.padEnd(minorUnits, '0')}`;
+	}
+
+	if (options.display === 'symbol' && currency?.symbol) {
+		return currency.kind === 'fiat'
+			? `${currency.symbol}${amount}`
+			: `${amount} ${currency.symbol}`;
+	}
+	return `${amount} ${currency?.code ?? code}`;
+}
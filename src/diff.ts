@@ -0,0 +1,77 @@
+import type { OfferDiff, OfferFieldChange, SchemaOfferNode } from './types.js';
+
+
+
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		const body = entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+		return `{${body.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'undefined';
+}
+
+
+
+
+function indexOffers(offers: SchemaOfferNode[], label: string): Map<string, SchemaOfferNode> {
+	const index = new Map<string, SchemaOfferNode>();
+	for (const offer of offers) {
+		if (index.has(offer['@id'])) {
+			throw new Error(`Duplicate offer id in ${label} offers: ${offer['@id']}`);
+		}
+		index.set(offer['@id'], offer);
+	}
+	return index;
+}
+
+
+
+
+export function diffOfferFields(before: SchemaOfferNode, after: SchemaOfferNode): OfferFieldChange[] {
+	const previous = before as unknown as Record<string, unknown>;
+	const next = after as unknown as Record<string, unknown>;
+	const fields = [...new Set([...Object.keys(next), ...Object.keys(previous)])];
+
+	const changes: OfferFieldChange[] = [];
+	for (const field of fields) {
+		if (field === '@context') continue;
+		if (stableStringify(previous[field]) === stableStringify(next[field])) continue;
+		const change: OfferFieldChange = { field };
+		if (previous[field] !== undefined) change.before = previous[field];
+		if (next[field] !== undefined) change.after = next[field];
+		changes.push(change);
+	}
+	return changes;
+}
+
+
+
+
+export function diffOffers(previous: SchemaOfferNode[], next: SchemaOfferNode[]): OfferDiff {
+	const before = indexOffers(previous, 'previous');
+	const after = indexOffers(next, 'next');
+	const diff: OfferDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+	for (const [id, offer] of after) {
+		const old = before.get(id);
+		if (!old) {
+			diff.added.push(offer);
+			continue;
+		}
+		const changes = diffOfferFields(old, offer);
+		if (changes.length) {
+			diff.changed.push({ id, before: old, after: offer, changes });
+		} else {
+			diff.unchanged.push(offer);
+		}
+	}
+	for (const [id, offer] of before) {
+		if (!after.has(id)) diff.removed.push(offer);
+	}
+	return diff;
+}
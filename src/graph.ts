@@ -0,0 +1,97 @@
+import { getOfferContext, resolveJsonLdOptions, stripExtensions } from './jsonld.js';
+import type {
+	JsonLdNode,
+	JsonLdOptions,
+	JsonLdReference,
+	SchemaOfferNode,
+	SchemaProduct,
+	SchemaProductGraph,
+	SchemaSeller
+} from './types.js';
+
+
+
+
+export function toProductId(productUrl: string): string {
+	return `${productUrl}#product`;
+}
+
+
+
+
+function toSellerId(seller: SchemaSeller, productUrl: string, index: number): string {
+	if (seller['@id']) return seller['@id'];
+	const anchor = seller['@type'] === 'Person' ? 'person' : 'organization';
+	if (seller.url) return `${seller.url.split('#')[0]}#${anchor}`;
+	return index === 0 ? `${productUrl}#seller` : `${productUrl}#seller-${index + 1}`;
+}
+
+
+
+
+export function linkProductGraph(
+	product: SchemaProduct,
+	offers: SchemaOfferNode[],
+	options: JsonLdOptions = {}
+): SchemaProductGraph {
+	const resolved = resolveJsonLdOptions(options);
+	const productRef: JsonLdReference = { '@id': product['@id'] };
+	const productUrl = product['@id'].split('#')[0];
+	const sellers = new Map<string, SchemaSeller>();
+	const sellerIds = new Map<string, string>();
+
+	const linkSeller = (seller: SchemaSeller | undefined): JsonLdReference | undefined => {
+		if (!seller) return undefined;
+		const key = JSON.stringify(seller);
+		let id = sellerIds.get(key);
+		if (!id) {
+			id = toSellerId(seller, productUrl, sellerIds.size);
+			sellerIds.set(key, id);
+			if (!sellers.has(id)) sellers.set(id, { ...seller, '@id': id });
+		}
+		return { '@id': id };
+	};
+
+	
+	const linked = offers.map((offer): JsonLdNode => {
+		const { '@context': _context, ...node } = offer;
+		switch (node['@type']) {
+			case 'Offer':
+				return {
+					...node,
+					seller: linkSeller(node.seller),
+					itemOffered: productRef,
+					potentialAction: node.potentialAction && {
+						...node.potentialAction,
+						seller: linkSeller(node.potentialAction.seller)
+					}
+				};
+			case 'DonateAction':
+				return { ...node, recipient: linkSeller(node.recipient), object: productRef };
+			case 'ReserveAction':
+				return {
+					...node,
+					object: { ...node.object, provider: linkSeller(node.object.provider) }
+				};
+		}
+	});
+
+	
+	const offerRefs = linked
+		.filter((node) => node['@type'] === 'Offer')
+		.map((node) => ({ '@id': node['@id'] }));
+	const actionRefs = linked
+		.filter((node) => node['@type'] !== 'Offer')
+		.map((node) => ({ '@id': node['@id'] }));
+	const productNode: SchemaProduct = { ...product };
+	if (offerRefs.length) productNode.offers = offerRefs;
+	if (actionRefs.length) productNode.potentialAction = actionRefs;
+
+	const graph: JsonLdNode[] = [productNode, ...sellers.values(), ...linked].map((node) =>
+		JSON.parse(JSON.stringify(node))
+	);
+	return {
+		'@context': getOfferContext(resolved),
+		'@graph': resolved.profile === 'google-safe' ? stripExtensions(graph) : graph
+	};
+}
@@ -0,0 +1,787 @@
+import { applyBilling, findRecurringSpec, isBillingPeriod } from './billing.js';
+import { isKnownCurrency } from './currencies.js';
+import { Money } from './money.js';
+import { getNodeContext } from './jsonld.js';
+import { applyPriceRange, resolveListedPrice } from './pricing.js';
+import { canonicalizeUrl, validateUrl } from './urls.js';
+import { createIssue, joinPath } from './validation.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	BillingPeriod,
+	FederatedOfferFormat,
+	FederatedOfferOptions,
+	FederatedOfferOrigin,
+	OfferAvailability,
+	PaymentMethod,
+	PriceSpecification,
+	QuantitativeValue,
+	SchemaItem,
+	SchemaOffer,
+	SchemaSeller,
+	TransactionConfig,
+	ValidationIssue
+} from './types.js';
+
+export const INBOUND_LIMITS = {
+	maxBytes: 64 * 1024,
+	maxDepth: 8,
+	maxStringLength: 4096,
+	maxArrayLength: 32
+};
+
+export const OFFER_AVAILABILITIES: OfferAvailability[] = [
+	'InStock',
+	'OutOfStock',
+	'PreOrder',
+	'SoldOut',
+	'OnlineOnly',
+	'LimitedAvailability',
+	'Discontinued'
+];
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+	'Cash',
+	'CreditCard',
+	'Cryptocurrency',
+	'BankTransfer',
+	'PaymentService',
+	'Subscription',
+	'Donation',
+	'Exchange'
+];
+
+const SCHEMA_PREFIX = /^(?:https?:\/\/schema\.org\/|schema:)/;
+const AMOUNT = '(\\d+(?:\\.\\d+)?) ([A-Z][A-Z0-9]{1,9})';
+
+type JsonObject = Record<string, unknown>;
+
+export interface FederatedOfferDraft {
+	origin: FederatedOfferOrigin;
+	issues: ValidationIssue[];
+	offer?: SchemaOffer;
+	transaction?: TransactionConfig;
+}
+
+
+
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+
+
+
+function checkLimits(
+	value: unknown,
+	limits: typeof INBOUND_LIMITS,
+	path = '$',
+	depth = 0,
+	budget = { bytes: 0 }
+): ValidationIssue | undefined {
+	if (depth > limits.maxDepth) {
+		return createIssue('INPUT_TOO_LARGE', path, `Input nests deeper than ${limits.maxDepth} levels`, {
+			maxDepth: limits.maxDepth
+		});
+	}
+	if (typeof value === 'string') {
+		budget.bytes += value.length;
+		if (value.length > limits.maxStringLength) {
+			return createIssue(
+				'INPUT_TOO_LARGE',
+				path,
+				`String longer than ${limits.maxStringLength} characters`,
+				{ maxStringLength: limits.maxStringLength }
+			);
+		}
+	} else if (Array.isArray(value)) {
+		if (value.length > limits.maxArrayLength) {
+			return createIssue(
+				'INPUT_TOO_LARGE',
+				path,
+				`List longer than ${limits.maxArrayLength} entries`,
+				{ maxArrayLength: limits.maxArrayLength }
+			);
+		}
+		for (let index = 0; index < value.length; index++) {
+			const issue = checkLimits(value[index], limits, joinPath(path, index), depth + 1, budget);
+			if (issue) return issue;
+		}
+	} else if (isObject(value)) {
+		for (const [key, entry] of Object.entries(value)) {
+			budget.bytes += key.length;
+			const issue = checkLimits(entry, limits, joinPath(path, key), depth + 1, budget);
+			if (issue) return issue;
+		}
+	} else if (value !== null && !['number', 'boolean', 'undefined'].includes(typeof value)) {
+		return createIssue('INPUT_INVALID', path, `Unsupported value of type ${typeof value}`);
+	} else {
+		budget.bytes += 8;
+	}
+
+	if (budget.bytes > limits.maxBytes) {
+		return createIssue('INPUT_TOO_LARGE', '$', `Input larger than ${limits.maxBytes} bytes`, {
+			maxBytes: limits.maxBytes
+		});
+	}
+	return undefined;
+}
+
+
+
+
+export function toPlainText(value: string): string {
+	const entities: Record<string, string> = {
+		'&lt;': '<',
+		'&gt;': '>',
+		'&quot;': '"',
+		'&#39;': "'",
+		'&apos;': "'",
+		'&amp;': '&'
+	};
+	return value
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<[^>]*>/g, '')
+		.replace(/&(?:lt|gt|quot|#39|apos|amp);/g, (entity) => entities[entity] ?? entity)
+		.replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, '')
+		.trim();
+}
+
+
+
+
+function readText(value: unknown): string | undefined {
+	if (typeof value !== 'string') return undefined;
+	const text = toPlainText(value);
+	return text || undefined;
+}
+
+
+
+
+function readUrl(
+	value: unknown,
+	path: string,
+	issues: ValidationIssue[],
+	severity: 'error' | 'warning' = 'warning'
+): string | undefined {
+	const href = isObject(value) && typeof value.href === 'string' ? value.href : value;
+	if (href === undefined) return undefined;
+	if (typeof href !== 'string') {
+		issues.push(createIssue('URL_INVALID', path, 'URL must be a string', {}, severity));
+		return undefined;
+	}
+	const found = validateUrl(href, undefined, path);
+	if (found.length) {
+		issues.push(...found.map((issue) => ({ ...issue, severity })));
+		return undefined;
+	}
+	return canonicalizeUrl(href);
+}
+
+
+
+
+function readPrice(value: unknown): number | string | undefined {
+	return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+}
+
+
+
+
+function readAmount(
+	value: unknown,
+	currency: string,
+	path: string,
+	issues: ValidationIssue[]
+): number | string | undefined {
+	const price = readPrice(value);
+	const money = price === undefined ? undefined : Money.tryParse(price, currency);
+	if (price === undefined || !money || money.isNegative()) {
+		issues.push(createIssue('PRICE_INVALID', path, `Invalid price: ${String(value)}`, { value }));
+		return undefined;
+	}
+	return price;
+}
+
+
+
+
+function readDate(
+	value: unknown,
+	path: string,
+	issues: ValidationIssue[],
+	severity: 'error' | 'warning' = 'warning'
+): string | undefined {
+	if (value === undefined) return undefined;
+	if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+		issues.push(createIssue('DATE_INVALID', path, `Invalid date: ${String(value)}`, {}, severity));
+		return undefined;
+	}
+	return value;
+}
+
+
+
+
+function readType(value: unknown, allowed: ReadonlyArray<string>): string | undefined {
+	const candidates = Array.isArray(value) ? value : [value];
+	for (const candidate of candidates) {
+		if (typeof candidate !== 'string') continue;
+		const name = candidate.replace(SCHEMA_PREFIX, '');
+		if (allowed.includes(name)) return name;
+	}
+	return undefined;
+}
+
+
+
+
+function readQuantity(value: unknown): QuantitativeValue | undefined {
+	if (!isObject(value) || typeof value.value !== 'number' || typeof value.unitCode !== 'string') {
+		return undefined;
+	}
+	const quantity: QuantitativeValue = {
+		'@type': 'QuantitativeValue',
+		value: value.value,
+		unitCode: value.unitCode
+	};
+	if (typeof value.unitText === 'string') quantity.unitText = value.unitText;
+	return quantity;
+}
+
+
+
+
+function readPriceSpec(
+	value: unknown,
+	currency: string | undefined,
+	path: string,
+	issues: ValidationIssue[],
+	depth = 0
+): PriceSpecification | undefined {
+	if (!isObject(value)) return undefined;
+	const declared = value.priceCurrency;
+	const priceCurrency = typeof declared === 'string' ? declared : currency;
+	if (value.price === undefined || !priceCurrency) return undefined;
+	if (!isKnownCurrency(priceCurrency)) {
+		issues.push(
+			createIssue(
+				'CURRENCY_INVALID',
+				joinPath(path, 'priceCurrency'),
+				`Invalid currency: ${priceCurrency}`,
+				{ value: priceCurrency }
+			)
+		);
+		return undefined;
+	}
+	if (currency && priceCurrency.toUpperCase() !== currency.toUpperCase()) {
+		issues.push(
+			createIssue(
+				'CURRENCY_MISMATCH',
+				joinPath(path, 'priceCurrency'),
+				`Price specification currency ${priceCurrency} does not match ${currency}`,
+				{ expected: currency, actual: priceCurrency }
+			)
+		);
+		return undefined;
+	}
+	const price = readAmount(value.price, priceCurrency, joinPath(path, 'price'), issues);
+	if (price === undefined) return undefined;
+
+	const type = readType(value['@type'] ?? value.type, [
+		'PriceSpecification',
+		'UnitPriceSpecification',
+		'CompoundPriceSpecification'
+	]) as PriceSpecification['@type'] | undefined;
+	const spec: PriceSpecification = {
+		'@type': type ?? 'PriceSpecification',
+		price,
+		priceCurrency
+	};
+	const name = readText(value.name);
+	if (name) spec.name = name;
+	if (typeof value.valueAddedTaxIncluded === 'boolean') {
+		spec.valueAddedTaxIncluded = value.valueAddedTaxIncluded;
+	}
+	for (const key of ['validFrom', 'validThrough'] as const) {
+		const date = readDate(value[key], joinPath(path, key), issues, 'error');
+		if (date) spec[key] = date;
+	}
+	for (const key of ['priceType', 'priceComponentType', 'unitCode'] as const) {
+		if (typeof value[key] === 'string') spec[key] = value[key] as string;
+	}
+	for (const key of ['minPrice', 'maxPrice'] as const) {
+		if (value[key] === undefined) continue;
+		const bound = readAmount(value[key], priceCurrency, joinPath(path, key), issues);
+		if (bound !== undefined) spec[key] = bound;
+	}
+	if (Array.isArray(value.suggestedPrices)) {
+		const suggested = value.suggestedPrices
+			.map((entry, index) =>
+				readAmount(entry, priceCurrency, joinPath(path, 'suggestedPrices', index), issues)
+			)
+			.filter((p): p is number | string => p !== undefined);
+		if (suggested.length) spec.suggestedPrices = suggested;
+	}
+	if (typeof value.billingIncrement === 'number') spec.billingIncrement = value.billingIncrement;
+	const referenceQuantity = readQuantity(value.referenceQuantity);
+	if (referenceQuantity) spec.referenceQuantity = referenceQuantity;
+	const billingDuration = readQuantity(value.billingDuration);
+	if (billingDuration) spec.billingDuration = billingDuration;
+
+	if (depth === 0 && Array.isArray(value.priceComponent)) {
+		const components = value.priceComponent
+			.map((component, index) =>
+				readPriceSpec(
+					component,
+					priceCurrency,
+					joinPath(path, 'priceComponent', index),
+					issues,
+					depth + 1
+				)
+			)
+			.filter((component): component is PriceSpecification => component !== undefined);
+		if (components.length) spec.priceComponent = components;
+	}
+	return spec;
+}
+
+
+
+
+function readSeller(
+	value: unknown,
+	path: string,
+	issues: ValidationIssue[]
+): SchemaSeller | undefined {
+	if (!isObject(value)) return undefined;
+	const name = readText(value.name);
+	if (!name) {
+		issues.push(createIssue('SELLER_INVALID', path, 'Seller requires a name', {}, 'warning'));
+		return undefined;
+	}
+	const type = readType(value['@type'] ?? value.type, ['Person', 'Organization']);
+	const seller: SchemaSeller = {
+		'@type': (type as SchemaSeller['@type'] | undefined) ?? 'Organization',
+		name
+	};
+	const id = readUrl(value['@id'] ?? value.id, joinPath(path, 'id'), issues);
+	if (id) seller['@id'] = id;
+	const url = readUrl(value.url, joinPath(path, 'url'), issues);
+	if (url) seller.url = url;
+	const logo = readUrl(value.logo ?? value.icon, joinPath(path, 'logo'), issues);
+	if (logo) seller[seller['@type'] === 'Person' ? 'image' : 'logo'] = logo;
+	return seller;
+}
+
+
+
+
+function readItem(value: unknown, path: string, issues: ValidationIssue[]): SchemaItem | undefined {
+	if (!isObject(value)) return undefined;
+	const name = readText(value.name);
+	if (!name) return undefined;
+	const type = readType(value['@type'] ?? value.type, ['Product', 'Service', 'CreativeWork']);
+	const item: SchemaItem = {
+		'@type': (type as SchemaItem['@type'] | undefined) ?? 'Product',
+		name
+	};
+	const description = readText(value.description ?? value.summary);
+	if (description) item.description = description;
+	const url = readUrl(value.url, joinPath(path, 'url'), issues);
+	if (url) item.url = url;
+	const image = readUrl(value.image, joinPath(path, 'image'), issues);
+	if (image) item.image = image;
+	return item;
+}
+
+
+
+
+function inferTransactionType(
+	id: string | undefined,
+	registry: TransactionRegistry
+): string | undefined {
+	const fragment = id?.match(/#(?:offer|action)-([a-z0-9-]+)$/)?.[1];
+	if (!fragment) return undefined;
+	return registry
+		.types()
+		.filter((type) => fragment === type || fragment.startsWith(`${type}-`))
+		.sort((a, b) => b.length - a.length)[0];
+}
+
+
+
+
+function findTypeByDisplayName(name: string, registry: TransactionRegistry): string | undefined {
+	const wanted = name.trim().toLowerCase();
+	return registry
+		.list()
+		.find(
+			(registration) =>
+				registration.displayName.toLowerCase() === wanted ||
+				registration.mapping.transactionType === wanted
+		)?.mapping.transactionType;
+}
+
+
+
+
+function parsePropertyValueText(text: string): Partial<TransactionConfig> & { name: string } {
+	let rest = text;
+	const result: Partial<TransactionConfig> & { name: string } = { name: text };
+
+	const link = rest.match(/\s*\((https?:\/\/[^\s()]+)\)\s*$/);
+	if (link) {
+		result.url = link[1];
+		rest = rest.slice(0, link.index);
+	}
+
+	const separator = rest.lastIndexOf(' - ');
+	if (separator === -1) {
+		result.name = rest;
+		return result;
+	}
+
+	let priceText = rest.slice(separator + 3);
+	const billing = priceText.match(
+		/\/(?:(\d+) )?(day|week|month|year)s?(?: \((\d+)-(day|week|month|year) trial\))?$/
+	);
+	const fields: Partial<TransactionConfig> = {};
+	if (billing) {
+		priceText = priceText.slice(0, billing.index);
+		fields.billingDuration = billing[2] as BillingPeriod;
+		if (billing[1]) fields.billingIncrement = Number(billing[1]);
+		if (billing[3]) {
+			fields.trial = { duration: Number(billing[3]), unit: billing[4] as BillingPeriod };
+		}
+	}
+
+	const patterns: Array<[RegExp, (m: RegExpMatchArray) => Partial<TransactionConfig>]> = [
+		[
+			new RegExp(`^${AMOUNT} to ${AMOUNT}$`),
+			(m) => ({ minPrice: m[1], maxPrice: m[3], currency: m[2] })
+		],
+		[new RegExp(`^from ${AMOUNT}$`), (m) => ({ minPrice: m[1], currency: m[2] })],
+		[new RegExp(`^up to ${AMOUNT}$`), (m) => ({ maxPrice: m[1], currency: m[2] })],
+		[new RegExp(`^${AMOUNT} suggested$`), (m) => ({ suggestedPrices: [m[1]], currency: m[2] })],
+		[new RegExp(`^${AMOUNT}$`), (m) => ({ price: m[1], currency: m[2] })]
+	];
+	for (const [pattern, read] of patterns) {
+		const match = priceText.match(pattern);
+		if (match) {
+			return { ...result, ...fields, ...read(match), name: rest.slice(0, separator) };
+		}
+	}
+
+	result.name = rest;
+	return result;
+}
+
+
+
+
+export function readFederatedOffer(
+	input: unknown,
+	registry: TransactionRegistry,
+	options: FederatedOfferOptions = {}
+): FederatedOfferDraft {
+	const limits = {
+		maxBytes: options.maxBytes ?? INBOUND_LIMITS.maxBytes,
+		maxDepth: options.maxDepth ?? INBOUND_LIMITS.maxDepth,
+		maxStringLength: options.maxStringLength ?? INBOUND_LIMITS.maxStringLength,
+		maxArrayLength: options.maxArrayLength ?? INBOUND_LIMITS.maxArrayLength
+	};
+	const receivedAt = new Date(options.receivedAt ?? Date.now());
+	const origin: FederatedOfferOrigin = {
+		verified: false,
+		receivedAt: Number.isNaN(receivedAt.getTime())
+			? new Date().toISOString()
+			: receivedAt.toISOString()
+	};
+	if (options.source) origin.source = options.source;
+	const issues: ValidationIssue[] = [];
+	const fail = (issue: ValidationIssue): FederatedOfferDraft => {
+		issues.push(issue);
+		return { origin, issues };
+	};
+
+
+	let raw: unknown = input;
+	if (typeof input === 'string') {
+		if (new TextEncoder().encode(input).length > limits.maxBytes) {
+			return fail(
+				createIssue('INPUT_TOO_LARGE', '$', `Input larger than ${limits.maxBytes} bytes`, {
+					maxBytes: limits.maxBytes
+				})
+			);
+		}
+		try {
+			raw = JSON.parse(input);
+		} catch {
+			return fail(createIssue('INPUT_INVALID', '$', 'Input is not valid JSON'));
+		}
+	}
+	const limitIssue = checkLimits(raw, limits);
+	if (limitIssue) return fail(limitIssue);
+	if (!isObject(raw)) {
+		return fail(createIssue('INPUT_INVALID', '$', 'Input must be a JSON object'));
+	}
+
+
+	let path = '$';
+	if (readType(raw.type, ['Create', 'Update']) && raw.object !== undefined) {
+		if (typeof raw.actor === 'string') origin.actor = raw.actor;
+		raw = raw.object;
+		path = '$.object';
+		if (!isObject(raw)) {
+			return fail(createIssue('INPUT_INVALID', path, 'Activity object must be embedded'));
+		}
+	}
+	const node = raw as JsonObject;
+	const at = (...segments: Array<string | number>) => joinPath(path, ...segments);
+
+
+	let format: FederatedOfferFormat;
+	let kind: string | undefined;
+	if (node.type === 'PropertyValue') {
+		format = 'property-value';
+	} else if (node['@type'] !== undefined) {
+		format = 'json-ld';
+		kind = readType(node['@type'], ['Offer']);
+	} else {
+		format = 'activitystreams';
+		kind = readType(node.type, ['Offer', 'DonateAction', 'ReserveAction']);
+	}
+	origin.format = format;
+	if (format !== 'property-value' && !kind) {
+		const declared = node['@type'] ?? node.type;
+		return fail(
+			createIssue(
+				'TYPE_UNSUPPORTED',
+				at(format === 'json-ld' ? '@type' : 'type'),
+				`Unsupported offer type: ${String(declared)}`,
+				{ value: declared }
+			)
+		);
+	}
+
+	let id: string | undefined;
+	let name: string | undefined;
+	let transaction: TransactionConfig;
+	let extras: Partial<SchemaOffer> = {};
+
+
+	if (format === 'property-value') {
+		const label = readText(node.name);
+		const value = readText(node.value);
+		if (!label || !value) {
+			return fail(createIssue('INPUT_INVALID', path, 'PropertyValue requires a name and value'));
+		}
+		const type = findTypeByDisplayName(label, registry);
+		if (!type) {
+			return fail(
+				createIssue('TYPE_UNKNOWN', at('name'), `Unknown transaction type: ${label}`, {
+					value: label
+				})
+			);
+		}
+		if (!options.source) {
+			return fail(
+				createIssue('ORIGIN_REQUIRED', '$', 'PropertyValue offers require a source to derive an id')
+			);
+		}
+		const { name: parsedName, url: rawUrl, ...fields } = parsePropertyValueText(value);
+		const url = rawUrl === undefined ? undefined : readUrl(rawUrl, at('value'), issues);
+		id = readUrl(`${options.source.split('#')[0]}#offer-${type}`, '$', issues, 'error');
+		if (!id) return { origin, issues };
+		name = parsedName;
+		transaction = { ...fields, type, enabled: true, url };
+	} else {
+		const rawId = node['@id'] ?? node.id;
+		id = readUrl(rawId, at(format === 'json-ld' ? '@id' : 'id'), issues, 'error');
+		if (!id) {
+			if (rawId === undefined) {
+				issues.push(createIssue('ID_REQUIRED', at('id'), 'Offer requires an id'));
+			}
+			return { origin, issues };
+		}
+		name = readText(node.name);
+
+		const declared = typeof node.transactionType === 'string' ? node.transactionType : undefined;
+		const type = declared ?? inferTransactionType(id, registry);
+		if (!type || !registry.has(type)) {
+			return fail(
+				createIssue(
+					'TYPE_UNKNOWN',
+					at('transactionType'),
+					`Unknown transaction type: ${type ?? 'none'}`,
+					{ value: type }
+				)
+			);
+		}
+
+		const currency = typeof node.priceCurrency === 'string' ? node.priceCurrency : undefined;
+		const spec = readPriceSpec(
+			node.priceSpecification,
+			currency,
+			at('priceSpecification'),
+			issues
+		);
+		transaction = {
+			type,
+			enabled: true,
+			url: readUrl(node.externalUrl ?? node.url, at('url'), issues),
+			price: readPrice(node.price),
+			currency: currency ?? spec?.priceCurrency,
+			minPrice: spec?.minPrice,
+			maxPrice: spec?.maxPrice,
+			suggestedPrices: spec?.suggestedPrices
+		};
+		if (node.price !== undefined && transaction.price === undefined) {
+			issues.push(
+				createIssue('PRICE_INVALID', at('price'), `Invalid price: ${String(node.price)}`)
+			);
+		}
+
+		extras = {
+			description: readText(node.description ?? node.summary),
+			priceSpecification: spec,
+			availabilityStarts: readDate(node.availabilityStarts, at('availabilityStarts'), issues),
+			availabilityEnds: readDate(node.availabilityEnds, at('availabilityEnds'), issues),
+			priceValidUntil: readDate(node.priceValidUntil, at('priceValidUntil'), issues),
+			seller: readSeller(node.seller ?? node.recipient, at('seller'), issues),
+			itemOffered: readItem(node.itemOffered ?? node.object, at('itemOffered'), issues)
+		};
+
+		if (node.availability !== undefined) {
+			const availability = String(node.availability).replace(SCHEMA_PREFIX, '');
+			if (OFFER_AVAILABILITIES.includes(availability as OfferAvailability)) {
+				transaction.availability = availability as OfferAvailability;
+			} else {
+				issues.push(
+					createIssue(
+						'AVAILABILITY_INVALID',
+						at('availability'),
+						`Invalid availability: ${String(node.availability)}`,
+						{ value: node.availability, allowed: OFFER_AVAILABILITIES }
+					)
+				);
+			}
+		}
+
+		if (Array.isArray(node.acceptedPaymentMethod)) {
+			const known = node.acceptedPaymentMethod
+				.filter((method): method is string => typeof method === 'string')
+				.map((method) => method.replace(SCHEMA_PREFIX, ''))
+				.filter((method): method is PaymentMethod =>
+					PAYMENT_METHODS.includes(method as PaymentMethod)
+				);
+			if (known.length < node.acceptedPaymentMethod.length) {
+				issues.push(
+					createIssue(
+						'PAYMENT_METHOD_UNKNOWN',
+						at('acceptedPaymentMethod'),
+						'Dropped unknown payment methods',
+						{ allowed: PAYMENT_METHODS },
+						'warning'
+					)
+				);
+			}
+			extras.acceptedPaymentMethod = known;
+		}
+	}
+	origin.id = id;
+
+
+	const hostOf = (value: string) => {
+		try {
+			return new URL(value).host;
+		} catch {
+			return undefined;
+		}
+	};
+	const claims = [format === 'property-value' ? undefined : options.source, origin.actor];
+	origin.verified = format === 'property-value';
+	for (const claimed of claims) {
+		if (claimed === undefined) continue;
+		const expected = hostOf(claimed);
+		const actual = hostOf(id);
+		if (!expected || expected !== actual) {
+			return fail(
+				createIssue('ORIGIN_MISMATCH', at('id'), `Offer ${id} does not belong to ${claimed}`, {
+					expected: expected ?? claimed,
+					actual
+				})
+			);
+		}
+		origin.verified = true;
+	}
+
+	if (!name) {
+		return fail(createIssue('NAME_REQUIRED', at('name'), 'Offer requires a name'));
+	}
+
+	const mapping = registry.getMapping(transaction.type)!;
+	const listed = resolveListedPrice(transaction);
+	if (mapping.isMonetary && listed !== undefined && !transaction.currency) {
+		return fail(
+			createIssue('CURRENCY_REQUIRED', at('priceCurrency'), 'Federated offers must state a currency')
+		);
+	}
+
+
+	const offer: SchemaOffer = {
+		'@context': getNodeContext(),
+		'@type': 'Offer',
+		'@id': id,
+		name,
+		availability: transaction.availability ?? mapping.defaultAvailability,
+		acceptedPaymentMethod: extras.acceptedPaymentMethod ?? [...mapping.paymentMethods],
+		transactionType: transaction.type
+	};
+	if (listed !== undefined && transaction.currency) {
+		offer.price = listed;
+		offer.priceCurrency = transaction.currency;
+		offer.priceSpecification =
+			extras.priceSpecification ??
+			applyBilling(
+				applyPriceRange(
+					{ '@type': 'PriceSpecification', price: listed, priceCurrency: transaction.currency },
+					transaction
+				),
+				transaction
+			);
+	}
+	if (transaction.url) {
+		offer.url = transaction.url;
+		offer.externalUrl = transaction.url;
+	}
+	if (extras.description) offer.description = extras.description;
+	if (extras.availabilityStarts) offer.availabilityStarts = extras.availabilityStarts;
+	if (extras.availabilityEnds) offer.availabilityEnds = extras.availabilityEnds;
+	if (extras.priceValidUntil) offer.priceValidUntil = extras.priceValidUntil;
+	if (extras.seller) offer.seller = extras.seller;
+	if (extras.itemOffered) offer.itemOffered = extras.itemOffered;
+
+
+	const period = findRecurringSpec(offer.priceSpecification)?.referenceQuantity?.unitText;
+	if (transaction.billingDuration === undefined && isBillingPeriod(period)) {
+		transaction.billingDuration = period;
+	}
+
+	if (!origin.verified) {
+		issues.push(
+			createIssue(
+				'ORIGIN_UNVERIFIED',
+				at('id'),
+				`Offer ${id} was not checked against a source or actor`,
+				{ id },
+				'warning'
+			)
+		);
+	}
+
+	return { origin, issues, offer, transaction };
+}
@@ -11,10 +11,98 @@ export type {
 	PaymentMethod,
 	PriceSpecification,
 	SchemaOffer,
+	SchemaOfferNode,
+	SchemaDonateAction,
+	SchemaReserveAction,
+	SchemaBuyAction,
+	SchemaSeller,
+	SellerProfile,
+	SellerReference,
+	FiatCurrency,
+	CryptoAsset,
+	CurrencyDefinition,
+	BillingPeriod,
+	QuantitativeValue,
+	SubscriptionTrial,
+	SubscriptionTier,
+	BuildOfferOptions,
+	TaxRule,
+	ScheduledPrice,
+	SchemaAggregateOffer,
+	JsonLdContext,
+	ExtendedSchemaContext,
+	SchemaNodeContext,
+	JsonLdProfile,
+	JsonLdReference,
+	JsonLdNode,
+	SchemaProduct,
+	SchemaProductGraph,
+	ProductGraphOptions,
+	GoogleAvailability,
+	MerchantFeedItem,
+	MerchantFeedSkip,
+	MerchantFeed,
+	MerchantFeedOptions,
+	MerchantFeedChannel,
+	MetaTag,
+	MetaTagOptions,
+	PostFormat,
+	PostOptions,
+	PostRenderResult,
+	ProfileFieldStrategy,
+	ProfileFieldOptions,
+	ProfileFieldSkip,
+	ProfileFieldSelection,
+	JsonSchemaType,
+	JsonSchemaSnippet,
+	JsonSchemaObject,
+	JsonSchema,
+	JsonSchemaOptions,
+	MarkupFormat,
+	MarkupSlot,
+	MarkupOptions,
+	JsonLdOptions,
+	JsonLdDocument,
+	ExpandedJsonLdValue,
+	ExpandedJsonLdNode,
+	ActivityPubPropertyValue,
+	ActivityStreamsActor,
+	ActivityStreamsItem,
+	ActivityStreamsOffer,
+	ActivityStreamsActivity,
+	ActivityStreamsTombstone,
+	OfferActivityType,
+	OfferFieldChange,
+	OfferChange,
+	OfferDiff,
+	FederatedOfferFormat,
+	FederatedOfferOrigin,
+	FederatedOfferOptions,
+	FederatedOfferResult,
+	ActivityAudiencePreset,
+	ActivityAudience,
+	ActivityOptions,
+	ExchangeRateProvider,
+	AggregateOfferOptions,
+	TaxBreakdown,
+	SchemaItem,
+	EntryPoint,
 	TransactionMapping,
 	TransactionConfig,
 	ValidationResult,
-	ProductItem
+	ValidationIssue,
+	ValidationCode,
+	ValidationSeverity,
+	ProductItem,
+	CatalogBuildMode,
+	CatalogBuildOptions,
+	CatalogBuildError,
+	CatalogProductResult,
+	CatalogBuildSummary,
+	CatalogBuildResult,
+	TransactionTypeRegistration,
+	TransactionTypeOverride,
+	UrlPolicy
 } from './types.js';
 
 
@@ -24,11 +112,209 @@ export { configure, getConfig, resetConfig, noopTracer, noopSpan } from './confi
 
 export {
 	TRANSACTION_MAPPINGS,
+	BUILTIN_TRANSACTION_TYPES,
+	BUILTIN_URL_POLICIES,
+	createTransactionRegistry,
+	defaultTransactionRegistry,
+	getTransactionRegistry,
 	getTransactionMapping,
+	getUrlPolicy,
 	requiresExternalUrl,
 	isMonetary,
 	getSupportedTransactionTypes
 } from './transaction-mappings.js';
 
 
+export { TransactionRegistry } from './transaction-registry.js';
+
+
+export {
+	DEFAULT_URL_PROTOCOLS,
+	TRACKING_PARAMS,
+	matchesHost,
+	isUrlAllowed,
+	validateUrl,
+	canonicalizeUrl
+} from './urls.js';
+
+
+export { Money, toSchemaPrice } from './money.js';
+
+
+export {
+	BILLING_UNIT_CODES,
+	SUBSCRIPTION_COMPONENT_TYPE,
+	isBillingPeriod,
+	toQuantitativeValue,
+	getTierId,
+	applyTier,
+	applyBilling,
+	findRecurringSpec,
+	formatBillingSuffix
+} from './billing.js';
+
+
+export {
+	isPayWhatYouWant,
+	resolveListedPrice,
+	applyPriceRange,
+	formatPriceRange,
+	formatOfferPrice,
+	validatePriceRange
+} from './pricing.js';
+
+
+export { TAX_REGION_GROUPS, findTaxRule, computeTax, applyTax } from './tax.js';
+
+
+export {
+	SCHEDULED_PRICE_TYPES,
+	parseScheduleDate,
+	parseScheduleEnd,
+	isActiveAt,
+	resolveScheduledPrice,
+	resolveScheduledAvailability,
+	validateSchedule
+} from './schedule.js';
+
+
+export { createExchangeRateTable, convertMoney } from './aggregate.js';
+
+
+export {
+	joinPath,
+	createIssue,
+	toValidationIssues,
+	prefixIssues,
+	toValidationResult,
+	suggestKey,
+	TRANSACTION_CONFIG_KEYS
+} from './validation.js';
+
+
+export {
+	ACTIVITYSTREAMS_CONTEXT,
+	AS_PUBLIC,
+	SCHEMA_ORG_TERMS,
+	FEDERATION_CONTEXT,
+	resolveActivityOptions,
+	resolveAudience,
+	toActivityId,
+	toActivityStreamsActor,
+	toActivityStreamsItem
+} from './activitypub.js';
+
+
+export {
+	INBOUND_LIMITS,
+	OFFER_AVAILABILITIES,
+	PAYMENT_METHODS,
+	toPlainText,
+	readFederatedOffer
+} from './inbound.js';
+export type { FederatedOfferDraft } from './inbound.js';
+
+
+export { diffOffers, diffOfferFields } from './diff.js';
+
+
+export {
+	SCHEMA_ORG_CONTEXT,
+	SCHEMA_ORG_VOCAB,
+	TINYLAND_VOCAB,
+	TINYLAND_CONTEXT_URL,
+	TINYLAND_TERMS,
+	TINYLAND_CONTEXT_DOCUMENT,
+	TINYLAND_EXTENSION_TERMS,
+	resolveJsonLdOptions,
+	getExtendedContext,
+	getNodeContext,
+	getOfferContext,
+	stripExtensions,
+	toJsonLdDocument,
+	expandJsonLd,
+	compactJsonLd,
+	toJsonLdScript
+} from './jsonld.js';
+
+
+export { toProductId, linkProductGraph } from './graph.js';
+
+
+export {
+	DEFAULT_MARKUP_SLOTS,
+	DEFAULT_ACTION_LABELS,
+	escapeHtml,
+	renderOfferMarkup,
+	renderProductMarkup
+} from './markup.js';
+
+
+export {
+	GOOGLE_NAMESPACE,
+	GOOGLE_AVAILABILITY,
+	MERCHANT_FEED_ATTRIBUTES,
+	selectPrimaryOffer,
+	toMerchantFeedItem,
+	toMerchantFeedXml,
+	toMerchantFeedTsv
+} from './merchant-feed.js';
+
+
+export { OPEN_GRAPH_AVAILABILITY, toMetaTags, renderMetaTags } from './meta-tags.js';
+
+
+export {
+	DEFAULT_POST_LIMIT,
+	MASTODON_URL_LENGTH,
+	countPostLength,
+	renderOfferPost
+} from './post.js';
+
+
+export {
+	MASTODON_FIELD_LIMIT,
+	MASTODON_FIELD_VALUE_LENGTH,
+	toAttachmentParts,
+	formatAttachmentText,
+	toMastodonLink,
+	formatAttachmentHtml,
+	shortenAttachmentParts,
+	selectProfileFields
+} from './profile-fields.js';
+export type { AttachmentParts } from './profile-fields.js';
+
+
+export {
+	JSON_SCHEMA_DIALECT,
+	YAML_LANGUAGE_SERVER_MODELINE,
+	toTransactionConfigSchema,
+	toFrontmatterSchema,
+	toYamlSchemaModeline
+} from './json-schema.js';
+
+
+export { ISO_4217_CURRENCIES } from './iso-4217.js';
+export {
+	CRYPTO_ASSETS,
+	BUILTIN_CURRENCIES,
+	getCurrency,
+	listCurrencies,
+	isKnownCurrency,
+	isCryptoCurrency,
+	getMinorUnits,
+	formatPrice
+} from './currencies.js';
+
+
+export {
+	DEFAULT_SELLER_NAME,
+	lookupSellerProfile,
+	validateSellerReference,
+	resolveSellerProfile,
+	toSchemaSeller
+} from './sellers.js';
+
+
+export type { OfferBuilderServiceOptions } from './offer-builder.js';
 export { OfferBuilderService, offerBuilderService } from './offer-builder.js';
@@ -0,0 +1,172 @@
+import type { FiatCurrency } from './types.js';
+
+export const ISO_4217_CURRENCIES: FiatCurrency[] = [
+	{ kind: 'fiat', code: 'AED', name: 'United Arab Emirates Dirham', minorUnits: 2 },
+	{ kind: 'fiat', code: 'AFN', name: 'Afghan Afghani', minorUnits: 2, symbol: '؋' },
+	{ kind: 'fiat', code: 'ALL', name: 'Albanian Lek', minorUnits: 2 },
+	{ kind: 'fiat', code: 'AMD', name: 'Armenian Dram', minorUnits: 2, symbol: '֏' },
+	{ kind: 'fiat', code: 'ANG', name: 'Netherlands Antillean Guilder', minorUnits: 2 },
+	{ kind: 'fiat', code: 'AOA', name: 'Angolan Kwanza', minorUnits: 2, symbol: 'Kz' },
+	{ kind: 'fiat', code: 'ARS', name: 'Argentine Peso', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'AUD', name: 'Australian Dollar', minorUnits: 2, symbol: 'A$' },
+	{ kind: 'fiat', code: 'AWG', name: 'Aruban Florin', minorUnits: 2 },
+	{ kind: 'fiat', code: 'AZN', name: 'Azerbaijani Manat', minorUnits: 2, symbol: '₼' },
+	{ kind: 'fiat', code: 'BAM', name: 'Bosnia-Herzegovina Convertible Mark', minorUnits: 2, symbol: 'KM' },
+	{ kind: 'fiat', code: 'BBD', name: 'Barbadian Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'BDT', name: 'Bangladeshi Taka', minorUnits: 2, symbol: '৳' },
+	{ kind: 'fiat', code: 'BGN', name: 'Bulgarian Lev', minorUnits: 2 },
+	{ kind: 'fiat', code: 'BHD', name: 'Bahraini Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'BIF', name: 'Burundian Franc', minorUnits: 0 },
+	{ kind: 'fiat', code: 'BMD', name: 'Bermudan Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'BND', name: 'Brunei Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'BOB', name: 'Bolivian Boliviano', minorUnits: 2, symbol: 'Bs' },
+	{ kind: 'fiat', code: 'BOV', name: 'Bolivian Mvdol', minorUnits: 2 },
+	{ kind: 'fiat', code: 'BRL', name: 'Brazilian Real', minorUnits: 2, symbol: 'R$' },
+	{ kind: 'fiat', code: 'BSD', name: 'Bahamian Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'BTN', name: 'Bhutanese Ngultrum', minorUnits: 2 },
+	{ kind: 'fiat', code: 'BWP', name: 'Botswanan Pula', minorUnits: 2, symbol: 'P' },
+	{ kind: 'fiat', code: 'BYN', name: 'Belarusian Ruble', minorUnits: 2 },
+	{ kind: 'fiat', code: 'BZD', name: 'Belize Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'CAD', name: 'Canadian Dollar', minorUnits: 2, symbol: 'CA$' },
+	{ kind: 'fiat', code: 'CDF', name: 'Congolese Franc', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CHE', name: 'WIR Euro', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CHF', name: 'Swiss Franc', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CHW', name: 'WIR Franc', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CLF', name: 'Chilean Unit of Account (UF)', minorUnits: 4 },
+	{ kind: 'fiat', code: 'CLP', name: 'Chilean Peso', minorUnits: 0, symbol: '$' },
+	{ kind: 'fiat', code: 'CNY', name: 'Chinese Yuan', minorUnits: 2, symbol: 'CN¥' },
+	{ kind: 'fiat', code: 'COP', name: 'Colombian Peso', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'COU', name: 'Colombian Real Value Unit', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CRC', name: 'Costa Rican Colón', minorUnits: 2, symbol: '₡' },
+	{ kind: 'fiat', code: 'CUP', name: 'Cuban Peso', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'CVE', name: 'Cape Verdean Escudo', minorUnits: 2 },
+	{ kind: 'fiat', code: 'CZK', name: 'Czech Koruna', minorUnits: 2, symbol: 'Kč' },
+	{ kind: 'fiat', code: 'DJF', name: 'Djiboutian Franc', minorUnits: 0 },
+	{ kind: 'fiat', code: 'DKK', name: 'Danish Krone', minorUnits: 2, symbol: 'kr' },
+	{ kind: 'fiat', code: 'DOP', name: 'Dominican Peso', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'DZD', name: 'Algerian Dinar', minorUnits: 2 },
+	{ kind: 'fiat', code: 'EGP', name: 'Egyptian Pound', minorUnits: 2, symbol: 'E£' },
+	{ kind: 'fiat', code: 'ERN', name: 'Eritrean Nakfa', minorUnits: 2 },
+	{ kind: 'fiat', code: 'ETB', name: 'Ethiopian Birr', minorUnits: 2 },
+	{ kind: 'fiat', code: 'EUR', name: 'Euro', minorUnits: 2, symbol: '€' },
+	{ kind: 'fiat', code: 'FJD', name: 'Fijian Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'FKP', name: 'Falkland Islands Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'GBP', name: 'British Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'GEL', name: 'Georgian Lari', minorUnits: 2, symbol: '₾' },
+	{ kind: 'fiat', code: 'GHS', name: 'Ghanaian Cedi', minorUnits: 2, symbol: 'GH₵' },
+	{ kind: 'fiat', code: 'GIP', name: 'Gibraltar Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'GMD', name: 'Gambian Dalasi', minorUnits: 2 },
+	{ kind: 'fiat', code: 'GNF', name: 'Guinean Franc', minorUnits: 0, symbol: 'FG' },
+	{ kind: 'fiat', code: 'GTQ', name: 'Guatemalan Quetzal', minorUnits: 2, symbol: 'Q' },
+	{ kind: 'fiat', code: 'GYD', name: 'Guyanaese Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'HKD', name: 'Hong Kong Dollar', minorUnits: 2, symbol: 'HK$' },
+	{ kind: 'fiat', code: 'HNL', name: 'Honduran Lempira', minorUnits: 2, symbol: 'L' },
+	{ kind: 'fiat', code: 'HTG', name: 'Haitian Gourde', minorUnits: 2 },
+	{ kind: 'fiat', code: 'HUF', name: 'Hungarian Forint', minorUnits: 2, symbol: 'Ft' },
+	{ kind: 'fiat', code: 'IDR', name: 'Indonesian Rupiah', minorUnits: 2, symbol: 'Rp' },
+	{ kind: 'fiat', code: 'ILS', name: 'Israeli New Shekel', minorUnits: 2, symbol: '₪' },
+	{ kind: 'fiat', code: 'INR', name: 'Indian Rupee', minorUnits: 2, symbol: '₹' },
+	{ kind: 'fiat', code: 'IQD', name: 'Iraqi Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'IRR', name: 'Iranian Rial', minorUnits: 2 },
+	{ kind: 'fiat', code: 'ISK', name: 'Icelandic Króna', minorUnits: 0, symbol: 'kr' },
+	{ kind: 'fiat', code: 'JMD', name: 'Jamaican Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'JOD', name: 'Jordanian Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'JPY', name: 'Japanese Yen', minorUnits: 0, symbol: '¥' },
+	{ kind: 'fiat', code: 'KES', name: 'Kenyan Shilling', minorUnits: 2 },
+	{ kind: 'fiat', code: 'KGS', name: 'Kyrgystani Som', minorUnits: 2, symbol: '⃀' },
+	{ kind: 'fiat', code: 'KHR', name: 'Cambodian Riel', minorUnits: 2, symbol: '៛' },
+	{ kind: 'fiat', code: 'KMF', name: 'Comorian Franc', minorUnits: 0, symbol: 'CF' },
+	{ kind: 'fiat', code: 'KPW', name: 'North Korean Won', minorUnits: 2, symbol: '₩' },
+	{ kind: 'fiat', code: 'KRW', name: 'South Korean Won', minorUnits: 0, symbol: '₩' },
+	{ kind: 'fiat', code: 'KWD', name: 'Kuwaiti Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'KYD', name: 'Cayman Islands Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'KZT', name: 'Kazakhstani Tenge', minorUnits: 2, symbol: '₸' },
+	{ kind: 'fiat', code: 'LAK', name: 'Laotian Kip', minorUnits: 2, symbol: '₭' },
+	{ kind: 'fiat', code: 'LBP', name: 'Lebanese Pound', minorUnits: 2, symbol: 'L£' },
+	{ kind: 'fiat', code: 'LKR', name: 'Sri Lankan Rupee', minorUnits: 2, symbol: 'Rs' },
+	{ kind: 'fiat', code: 'LRD', name: 'Liberian Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'LSL', name: 'Lesotho Loti', minorUnits: 2 },
+	{ kind: 'fiat', code: 'LYD', name: 'Libyan Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'MAD', name: 'Moroccan Dirham', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MDL', name: 'Moldovan Leu', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MGA', name: 'Malagasy Ariary', minorUnits: 2, symbol: 'Ar' },
+	{ kind: 'fiat', code: 'MKD', name: 'Macedonian Denar', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MMK', name: 'Myanmar Kyat', minorUnits: 2, symbol: 'K' },
+	{ kind: 'fiat', code: 'MNT', name: 'Mongolian Tugrik', minorUnits: 2, symbol: '₮' },
+	{ kind: 'fiat', code: 'MOP', name: 'Macanese Pataca', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MRU', name: 'Mauritanian Ouguiya', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MUR', name: 'Mauritian Rupee', minorUnits: 2, symbol: 'Rs' },
+	{ kind: 'fiat', code: 'MVR', name: 'Maldivian Rufiyaa', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MWK', name: 'Malawian Kwacha', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MXN', name: 'Mexican Peso', minorUnits: 2, symbol: 'MX$' },
+	{ kind: 'fiat', code: 'MXV', name: 'Mexican Investment Unit', minorUnits: 2 },
+	{ kind: 'fiat', code: 'MYR', name: 'Malaysian Ringgit', minorUnits: 2, symbol: 'RM' },
+	{ kind: 'fiat', code: 'MZN', name: 'Mozambican Metical', minorUnits: 2 },
+	{ kind: 'fiat', code: 'NAD', name: 'Namibian Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'NGN', name: 'Nigerian Naira', minorUnits: 2, symbol: '₦' },
+	{ kind: 'fiat', code: 'NIO', name: 'Nicaraguan Córdoba', minorUnits: 2, symbol: 'C$' },
+	{ kind: 'fiat', code: 'NOK', name: 'Norwegian Krone', minorUnits: 2, symbol: 'kr' },
+	{ kind: 'fiat', code: 'NPR', name: 'Nepalese Rupee', minorUnits: 2, symbol: 'Rs' },
+	{ kind: 'fiat', code: 'NZD', name: 'New Zealand Dollar', minorUnits: 2, symbol: 'NZ$' },
+	{ kind: 'fiat', code: 'OMR', name: 'Omani Rial', minorUnits: 3 },
+	{ kind: 'fiat', code: 'PAB', name: 'Panamanian Balboa', minorUnits: 2 },
+	{ kind: 'fiat', code: 'PEN', name: 'Peruvian Sol', minorUnits: 2 },
+	{ kind: 'fiat', code: 'PGK', name: 'Papua New Guinean Kina', minorUnits: 2 },
+	{ kind: 'fiat', code: 'PHP', name: 'Philippine Peso', minorUnits: 2, symbol: '₱' },
+	{ kind: 'fiat', code: 'PKR', name: 'Pakistani Rupee', minorUnits: 2, symbol: 'Rs' },
+	{ kind: 'fiat', code: 'PLN', name: 'Polish Zloty', minorUnits: 2, symbol: 'zł' },
+	{ kind: 'fiat', code: 'PYG', name: 'Paraguayan Guarani', minorUnits: 0, symbol: '₲' },
+	{ kind: 'fiat', code: 'QAR', name: 'Qatari Riyal', minorUnits: 2 },
+	{ kind: 'fiat', code: 'RON', name: 'Romanian Leu', minorUnits: 2, symbol: 'lei' },
+	{ kind: 'fiat', code: 'RSD', name: 'Serbian Dinar', minorUnits: 2 },
+	{ kind: 'fiat', code: 'RUB', name: 'Russian Ruble', minorUnits: 2, symbol: '₽' },
+	{ kind: 'fiat', code: 'RWF', name: 'Rwandan Franc', minorUnits: 0, symbol: 'RF' },
+	{ kind: 'fiat', code: 'SAR', name: 'Saudi Riyal', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SBD', name: 'Solomon Islands Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'SCR', name: 'Seychellois Rupee', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SDG', name: 'Sudanese Pound', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SEK', name: 'Swedish Krona', minorUnits: 2, symbol: 'kr' },
+	{ kind: 'fiat', code: 'SGD', name: 'Singapore Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'SHP', name: 'St. Helena Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'SLE', name: 'Sierra Leonean Leone', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SLL', name: 'Sierra Leonean Leone (1964—2022)', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SOS', name: 'Somali Shilling', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SRD', name: 'Surinamese Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'SSP', name: 'South Sudanese Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'STN', name: 'São Tomé & Príncipe Dobra', minorUnits: 2, symbol: 'Db' },
+	{ kind: 'fiat', code: 'SVC', name: 'Salvadoran Colón', minorUnits: 2 },
+	{ kind: 'fiat', code: 'SYP', name: 'Syrian Pound', minorUnits: 2, symbol: '£' },
+	{ kind: 'fiat', code: 'SZL', name: 'Swazi Lilangeni', minorUnits: 2 },
+	{ kind: 'fiat', code: 'THB', name: 'Thai Baht', minorUnits: 2, symbol: '฿' },
+	{ kind: 'fiat', code: 'TJS', name: 'Tajikistani Somoni', minorUnits: 2 },
+	{ kind: 'fiat', code: 'TMT', name: 'Turkmenistani Manat', minorUnits: 2 },
+	{ kind: 'fiat', code: 'TND', name: 'Tunisian Dinar', minorUnits: 3 },
+	{ kind: 'fiat', code: 'TOP', name: 'Tongan Paʻanga', minorUnits: 2, symbol: 'T$' },
+	{ kind: 'fiat', code: 'TRY', name: 'Turkish Lira', minorUnits: 2, symbol: '₺' },
+	{ kind: 'fiat', code: 'TTD', name: 'Trinidad & Tobago Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'TWD', name: 'New Taiwan Dollar', minorUnits: 2, symbol: 'NT$' },
+	{ kind: 'fiat', code: 'TZS', name: 'Tanzanian Shilling', minorUnits: 2 },
+	{ kind: 'fiat', code: 'UAH', name: 'Ukrainian Hryvnia', minorUnits: 2, symbol: '₴' },
+	{ kind: 'fiat', code: 'UGX', name: 'Ugandan Shilling', minorUnits: 0 },
+	{ kind: 'fiat', code: 'USD', name: 'US Dollar', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'USN', name: 'US Dollar (Next day)', minorUnits: 2 },
+	{ kind: 'fiat', code: 'UYI', name: 'Uruguayan Peso (Indexed Units)', minorUnits: 0 },
+	{ kind: 'fiat', code: 'UYU', name: 'Uruguayan Peso', minorUnits: 2, symbol: '$' },
+	{ kind: 'fiat', code: 'UYW', name: 'Uruguayan Nominal Wage Index Unit', minorUnits: 4 },
+	{ kind: 'fiat', code: 'UZS', name: 'Uzbekistani Som', minorUnits: 2 },
+	{ kind: 'fiat', code: 'VED', name: 'Bolívar Soberano', minorUnits: 2 },
+	{ kind: 'fiat', code: 'VES', name: 'Venezuelan Bolívar', minorUnits: 2 },
+	{ kind: 'fiat', code: 'VND', name: 'Vietnamese Dong', minorUnits: 0, symbol: '₫' },
+	{ kind: 'fiat', code: 'VUV', name: 'Vanuatu Vatu', minorUnits: 0 },
+	{ kind: 'fiat', code: 'WST', name: 'Samoan Tala', minorUnits: 2 },
+	{ kind: 'fiat', code: 'XAF', name: 'Central African CFA Franc', minorUnits: 0, symbol: 'FCFA' },
+	{ kind: 'fiat', code: 'XCD', name: 'East Caribbean Dollar', minorUnits: 2, symbol: 'EC$' },
+	{ kind: 'fiat', code: 'XCG', name: 'Caribbean guilder', minorUnits: 2, symbol: 'Cg.' },
+	{ kind: 'fiat', code: 'XOF', name: 'West African CFA Franc', minorUnits: 0, symbol: 'F CFA' },
+	{ kind: 'fiat', code: 'XPF', name: 'CFP Franc', minorUnits: 0, symbol: 'CFPF' },
+	{ kind: 'fiat', code: 'YER', name: 'Yemeni Rial', minorUnits: 2 },
+	{ kind: 'fiat', code: 'ZAR', name: 'South African Rand', minorUnits: 2, symbol: 'R' },
+	{ kind: 'fiat', code: 'ZMW', name: 'Zambian Kwacha', minorUnits: 2, symbol: 'ZK' },
+	{ kind: 'fiat', code: 'ZWG', name: 'Zimbabwean Gold', minorUnits: 2 },
+	{ kind: 'fiat', code: 'ZWL', name: 'Zimbabwean Dollar (2009–2024)', minorUnits: 2 }
+];
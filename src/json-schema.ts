@@ -0,0 +1,321 @@
+import { BILLING_UNIT_CODES } from './billing.js';
+import { getConfig } from './config.js';
+import { listCurrencies } from './currencies.js';
+import { OFFER_AVAILABILITIES } from './inbound.js';
+import { SCHEDULED_PRICE_TYPES } from './schedule.js';
+import { TAX_REGION_GROUPS } from './tax.js';
+import { DEFAULT_URL_PROTOCOLS } from './urls.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	JsonSchema,
+	JsonSchemaObject,
+	JsonSchemaOptions,
+	JsonSchemaSnippet,
+	TransactionConfig,
+	TransactionTypeRegistration,
+	UrlPolicy
+} from './types.js';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export const YAML_LANGUAGE_SERVER_MODELINE = '# yaml-language-server: $schema=';
+
+const CUSTOM_AMOUNT_FIELDS: Array<keyof TransactionConfig> = [
+	'minPrice',
+	'maxPrice',
+	'suggestedPrices'
+];
+
+const BILLING_FIELDS: Array<keyof TransactionConfig> = [
+	'billingDuration',
+	'billingIncrement',
+	'trial',
+	'tiers'
+];
+
+const ref = (name: string): JsonSchemaObject => ({ $ref: `#/$defs/${name}` });
+
+
+
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+
+
+
+function toUrlPattern(policy?: UrlPolicy): string {
+	const protocols = (policy?.protocols ?? DEFAULT_URL_PROTOCOLS).map((protocol) =>
+		escapeRegExp(protocol.replace(/:$/, ''))
+	);
+	const hosts = (policy?.hosts ?? []).map((host) =>
+		host.startsWith('*.') ? `(?:[^/?#@]+\\.)?${escapeRegExp(host.slice(2))}` : escapeRegExp(host)
+	);
+	const host = hosts.length ? `(?:${hosts.join('|')})` : '[^/?#@]+';
+	return `^(?:${protocols.join('|')})://${host}(?::\\d+)?(?:[/?#]|$)`;
+}
+
+
+
+
+function toDefinitions(): Record<string, JsonSchema> {
+	const sellers = Object.keys(getConfig().sellers ?? {});
+	const billingPeriods = Object.keys(BILLING_UNIT_CODES);
+
+	return {
+		amount: {
+			type: ['number', 'string'],
+			minimum: 0,
+			pattern: '^\\d+(?:\\.\\d+)?$'
+		},
+		currency: {
+			type: 'string',
+			enum: listCurrencies().map((currency) => currency.code)
+		},
+		date: {
+			type: 'string',
+			description: 'ISO 8601 date or date-time'
+		},
+		billingPeriod: {
+			type: 'string',
+			enum: billingPeriods
+		},
+		billingIncrement: {
+			type: 'integer',
+			minimum: 1
+		},
+		trial: {
+			type: 'object',
+			properties: {
+				duration: { type: 'integer', minimum: 1 },
+				unit: ref('billingPeriod'),
+				price: ref('amount')
+			},
+			required: ['duration', 'unit']
+		},
+		tier: {
+			type: 'object',
+			properties: {
+				id: { type: 'string' },
+				name: { type: 'string', minLength: 1 },
+				price: ref('amount'),
+				description: { type: 'string' },
+				billingDuration: ref('billingPeriod'),
+				billingIncrement: ref('billingIncrement'),
+				trial: ref('trial')
+			},
+			required: ['name', 'price']
+		},
+		scheduledPrice: {
+			type: 'object',
+			properties: {
+				price: ref('amount'),
+				kind: { type: 'string', enum: Object.keys(SCHEDULED_PRICE_TYPES) },
+				validFrom: ref('date'),
+				validThrough: ref('date')
+			},
+			required: ['price']
+		},
+		sellerProfile: {
+			type: 'object',
+			properties: {
+				type: { type: 'string', enum: ['Person', 'Organization'] },
+				name: { type: 'string', minLength: 1 },
+				url: { type: 'string', format: 'uri' },
+				logo: { type: 'string', format: 'uri' },
+				email: { type: 'string', format: 'email' },
+				sameAs: {
+					anyOf: [
+						{ type: 'string', format: 'uri' },
+						{ type: 'array', items: { type: 'string', format: 'uri' } }
+					]
+				},
+				actor: { type: 'string', format: 'uri' },
+				region: { type: 'string' }
+			},
+			required: ['name']
+		},
+		seller: {
+			anyOf: [
+				sellers.length ? { type: 'string', enum: sellers } : { type: 'string', minLength: 1 },
+				ref('sellerProfile')
+			]
+		}
+	};
+}
+
+
+
+
+function toTypeCondition(
+	registration: TransactionTypeRegistration,
+	cryptoCurrencies: string[]
+): JsonSchemaObject | undefined {
+	const { mapping, urlPolicy } = registration;
+	const then: JsonSchemaObject = {};
+	const properties: Record<string, JsonSchema> = {};
+
+	
+	if (mapping.requiresExternalUrl) then.required = ['url'];
+	if (urlPolicy?.hosts?.length) properties.url = { pattern: toUrlPattern(urlPolicy) };
+
+	
+	if (mapping.isMonetary) {
+		const priceFields = [
+			'price',
+			'schedule',
+			...(mapping.isSubscription ? ['tiers'] : []),
+			...(mapping.allowsCustomAmount ? CUSTOM_AMOUNT_FIELDS : [])
+		];
+		then.anyOf = priceFields.map((field) => ({ required: [field] }));
+	}
+	if (mapping.isCryptocurrency) properties.currency = { enum: cryptoCurrencies };
+
+	
+	if (!mapping.allowsCustomAmount) {
+		for (const field of CUSTOM_AMOUNT_FIELDS) properties[field] = false;
+	}
+	if (!mapping.isSubscription) {
+		for (const field of BILLING_FIELDS) properties[field] = false;
+	}
+
+	if (Object.keys(properties).length) then.properties = properties;
+	if (!Object.keys(then).length) return undefined;
+	return {
+		if: { properties: { type: { const: mapping.transactionType } }, required: ['type'] },
+		then
+	};
+}
+
+
+
+
+function toSnippet(registration: TransactionTypeRegistration): JsonSchemaSnippet {
+	const { mapping } = registration;
+	const body: Record<string, unknown> = { type: mapping.transactionType, enabled: true };
+	let placeholder = 0;
+	const next = () => `$${++placeholder}`;
+
+	if (mapping.requiresExternalUrl) body.url = next();
+	if (mapping.isMonetary) {
+		body.price = next();
+		body.currency = next();
+	}
+	if (mapping.isSubscription) body.billingDuration = next();
+	return { label: registration.displayName, description: mapping.transactionType, body };
+}
+
+
+
+
+function toTransactionDefinition(registry: TransactionRegistry): JsonSchemaObject {
+	const registrations = registry.list();
+	const cryptoCurrencies = listCurrencies('crypto').map((currency) => currency.code);
+	const regions = Object.keys(TAX_REGION_GROUPS).map(escapeRegExp);
+
+	const schema: JsonSchemaObject = {
+		type: 'object',
+		properties: {
+			type: {
+				type: 'string',
+				description: 'Transaction type',
+				enum: registrations.map(({ mapping }) => mapping.transactionType),
+				enumDescriptions: registrations.map(({ displayName }) => displayName)
+			},
+			enabled: { type: 'boolean', description: 'Whether the offer is published' },
+			url: {
+				type: 'string',
+				format: 'uri',
+				description: 'External checkout or listing URL',
+				pattern: toUrlPattern()
+			},
+			label: { type: 'string' },
+			description: { type: 'string' },
+			priority: { type: 'number', description: 'Higher priorities are listed first' },
+			price: ref('amount'),
+			minPrice: ref('amount'),
+			maxPrice: ref('amount'),
+			suggestedPrices: { type: 'array', items: ref('amount'), minItems: 1 },
+			currency: ref('currency'),
+			availability: { type: 'string', enum: [...OFFER_AVAILABILITIES] },
+			availabilityStarts: ref('date'),
+			availabilityEnds: ref('date'),
+			schedule: { type: 'array', items: ref('scheduledPrice') },
+			seller: ref('seller'),
+			taxIncluded: { type: 'boolean' },
+			buyerRegion: {
+				type: 'string',
+				description: 'ISO 3166-1 alpha-2 country code or tax region group',
+				pattern: `^(?:[A-Za-z]{2}|${regions.join('|')})$`
+			},
+			billingDuration: ref('billingPeriod'),
+			billingIncrement: ref('billingIncrement'),
+			trial: ref('trial'),
+			tiers: { type: 'array', items: ref('tier'), minItems: 1 }
+		},
+		required: ['type', 'enabled'],
+		additionalProperties: false,
+		defaultSnippets: registrations.map(toSnippet)
+	};
+
+	
+	const conditions = registrations
+		.map((registration) => toTypeCondition(registration, cryptoCurrencies))
+		.filter((condition): condition is JsonSchemaObject => condition !== undefined);
+	if (conditions.length) schema.allOf = conditions;
+	return schema;
+}
+
+
+
+
+export function toTransactionConfigSchema(
+	registry: TransactionRegistry,
+	options: JsonSchemaOptions = {}
+): JsonSchemaObject {
+	return {
+		$schema: JSON_SCHEMA_DIALECT,
+		...(options.id ? { $id: options.id } : {}),
+		title: options.title ?? 'TransactionConfig',
+		...toTransactionDefinition(registry),
+		$defs: toDefinitions()
+	};
+}
+
+
+
+
+export function toFrontmatterSchema(
+	registry: TransactionRegistry,
+	options: JsonSchemaOptions = {}
+): JsonSchemaObject {
+	return {
+		$schema: JSON_SCHEMA_DIALECT,
+		...(options.id ? { $id: options.id } : {}),
+		title: options.title ?? 'Product frontmatter',
+		type: 'object',
+		properties: {
+			name: { type: 'string' },
+			title: { type: 'string' },
+			description: { type: 'string' },
+			image: { type: 'string' },
+			seller: ref('seller'),
+			transactions: { type: 'array', items: ref('transaction') }
+		},
+		$defs: {
+			transaction: toTransactionDefinition(registry),
+			...toDefinitions()
+		}
+	};
+}
+
+
+
+
+export function toYamlSchemaModeline(location: string): string {
+	if (!location || /\s/.test(location)) {
+		throw new Error(`Invalid schema location: ${location}`);
+	}
+	return `${YAML_LANGUAGE_SERVER_MODELINE}${location}`;
+}
@@ -0,0 +1,319 @@
+import { getConfig } from './config.js';
+import type {
+	ExpandedJsonLdNode,
+	ExpandedJsonLdValue,
+	ExtendedSchemaContext,
+	JsonLdContext,
+	JsonLdDocument,
+	JsonLdOptions,
+	SchemaNodeContext
+} from './types.js';
+
+export const SCHEMA_ORG_CONTEXT = 'https://schema.org';
+
+export const SCHEMA_ORG_VOCAB = 'https://schema.org/';
+
+export const TINYLAND_VOCAB = 'https://tinyland.dev/ns/offer#';
+
+export const TINYLAND_CONTEXT_URL = 'https://tinyland.dev/ns/offer.jsonld';
+
+export const TINYLAND_TERMS: Record<string, unknown> = {
+	tinyland: TINYLAND_VOCAB,
+	transactionType: 'tinyland:transactionType',
+	externalUrl: { '@id': 'tinyland:externalUrl', '@type': '@id' },
+	requiresAction: 'tinyland:requiresAction',
+	suggestedPrices: { '@id': 'tinyland:suggestedPrice', '@container': '@set' },
+	acceptedPaymentMethod: { '@id': 'schema:acceptedPaymentMethod', '@container': '@set' },
+	priceComponent: { '@id': 'schema:priceComponent', '@container': '@set' },
+	sameAs: { '@id': 'schema:sameAs', '@type': '@id', '@container': '@set' },
+	offers: { '@id': 'schema:offers', '@container': '@set' }
+};
+
+export const TINYLAND_CONTEXT_DOCUMENT = {
+	'@context': { schema: SCHEMA_ORG_VOCAB, ...TINYLAND_TERMS }
+};
+
+export const TINYLAND_EXTENSION_TERMS = [
+	'transactionType',
+	'externalUrl',
+	'requiresAction',
+	'suggestedPrices'
+];
+
+const KNOWN_CONTEXTS: Record<string, Record<string, unknown>> = {
+	[SCHEMA_ORG_CONTEXT]: { '@vocab': SCHEMA_ORG_VOCAB, schema: SCHEMA_ORG_VOCAB },
+	[TINYLAND_CONTEXT_URL]: TINYLAND_CONTEXT_DOCUMENT['@context']
+};
+
+const SET_TERMS = new Set([
+	'suggestedPrices',
+	'acceptedPaymentMethod',
+	'priceComponent',
+	'sameAs',
+	'offers'
+]);
+
+const ID_TERMS = new Set(['url', 'externalUrl', 'sameAs', 'image', 'logo', 'urlTemplate']);
+
+const ENUM_TERMS = new Set(['availability', 'actionStatus']);
+
+type JsonObject = Record<string, unknown>;
+
+interface ActiveContext {
+	vocab?: string;
+	terms: Record<string, string>;
+}
+
+
+
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+
+
+
+export function resolveJsonLdOptions(options: JsonLdOptions = {}): JsonLdOptions {
+	return { ...getConfig().jsonLd, ...options };
+}
+
+
+
+
+export function getExtendedContext(options: JsonLdOptions = {}): ExtendedSchemaContext {
+	const { context } = resolveJsonLdOptions(options);
+	return [
+		SCHEMA_ORG_CONTEXT,
+		context === 'remote' ? TINYLAND_CONTEXT_URL : structuredClone(TINYLAND_TERMS)
+	];
+}
+
+
+
+
+export function getNodeContext(): SchemaNodeContext {
+	const { jsonLd } = getConfig();
+	return jsonLd?.profile === 'namespaced' ? getExtendedContext(jsonLd) : SCHEMA_ORG_CONTEXT;
+}
+
+
+
+
+export function getOfferContext(options: JsonLdOptions = {}): JsonLdContext {
+	const resolved = resolveJsonLdOptions(options);
+	if (resolved.profile === 'google-safe') return SCHEMA_ORG_CONTEXT;
+	return getExtendedContext(resolved);
+}
+
+
+
+
+function resolveIri(value: string, context: ActiveContext): string {
+	const separator = value.indexOf(':');
+	if (separator < 0 || value.startsWith('//', separator + 1)) return value;
+	const prefix = value.slice(0, separator);
+	return Object.hasOwn(context.terms, prefix)
+		? `${context.terms[prefix]}${value.slice(separator + 1)}`
+		: value;
+}
+
+
+
+
+function toActiveContext(context: unknown): ActiveContext {
+	const active: ActiveContext = { terms: {} };
+	const entries = Array.isArray(context) ? context : context === undefined ? [] : [context];
+
+	for (const entry of entries) {
+		const definitions =
+			typeof entry === 'string'
+				? KNOWN_CONTEXTS[entry.replace(/^http:/, 'https:').replace(/\/$/, '')]
+				: entry;
+		if (!isObject(definitions)) {
+			throw new Error(`Unsupported JSON-LD context: ${String(entry)}`);
+		}
+		for (const [term, definition] of Object.entries(definitions)) {
+			const id = isObject(definition) ? definition['@id'] : definition;
+			if (typeof id !== 'string') continue;
+			if (term === '@vocab') active.vocab = id;
+			else active.terms[term] = id;
+		}
+	}
+
+	
+	for (const [term, id] of Object.entries(active.terms)) {
+		active.terms[term] = resolveIri(id, active);
+	}
+	return active;
+}
+
+
+
+
+export function stripExtensions<T>(value: T): T {
+	if (Array.isArray(value)) return value.map(stripExtensions) as T;
+	if (!isObject(value)) return value;
+	const result: JsonObject = {};
+	for (const [key, entry] of Object.entries(value)) {
+		if (TINYLAND_EXTENSION_TERMS.includes(key)) continue;
+		result[key] = stripExtensions(entry);
+	}
+	return result as T;
+}
+
+
+
+
+export function toJsonLdDocument(node: object, options: JsonLdOptions = {}): JsonLdDocument {
+	const resolved = resolveJsonLdOptions(options);
+	const { '@context': _context, ...body } = node as JsonObject;
+	return {
+		'@context': getOfferContext(resolved),
+		...(resolved.profile === 'google-safe' ? stripExtensions(body) : body)
+	};
+}
+
+
+
+
+function expandTerm(term: string, context: ActiveContext): string | undefined {
+	if (Object.hasOwn(context.terms, term)) return context.terms[term];
+	if (term.includes(':')) return resolveIri(term, context);
+	if (TINYLAND_EXTENSION_TERMS.includes(term)) return undefined;
+	return context.vocab && `${context.vocab}${term}`;
+}
+
+
+
+
+function compactIri(iri: string, context: ActiveContext): string | undefined {
+	const term = Object.keys(context.terms).find((key) => context.terms[key] === iri);
+	if (term) return term;
+	if (context.vocab && iri.startsWith(context.vocab)) return iri.slice(context.vocab.length);
+	return undefined;
+}
+
+
+
+
+function expandValue(term: string, value: unknown, context: ActiveContext): ExpandedJsonLdValue[] {
+	if (value === undefined || value === null) return [];
+	if (Array.isArray(value)) return value.flatMap((entry) => expandValue(term, entry, context));
+	if (isObject(value)) return [expandNode(value, context)];
+	if (typeof value === 'string' && ENUM_TERMS.has(term)) {
+		return [{ '@id': value.includes(':') ? value : `${SCHEMA_ORG_VOCAB}${value}` }];
+	}
+	if (typeof value === 'string' && ID_TERMS.has(term)) return [{ '@id': value }];
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return [{ '@value': value }];
+	}
+	throw new Error(`Cannot expand JSON-LD value for ${term}: ${String(value)}`);
+}
+
+
+
+
+function expandNode(node: JsonObject, context: ActiveContext): ExpandedJsonLdNode {
+	const expanded: ExpandedJsonLdNode = {};
+	for (const [key, value] of Object.entries(node)) {
+		if (value === undefined || key === '@context') continue;
+		if (key === '@id') {
+			expanded['@id'] = String(value);
+		} else if (key === '@type') {
+			const types = Array.isArray(value) ? value : [value];
+			expanded['@type'] = types.map((type) => expandTerm(String(type), context) ?? String(type));
+		} else {
+			const iri = expandTerm(key, context);
+			if (iri) expanded[iri] = expandValue(key, value, context);
+		}
+	}
+	return expanded;
+}
+
+
+
+
+export function expandJsonLd(document: JsonLdDocument): ExpandedJsonLdNode[] {
+	if (!isObject(document)) {
+		throw new Error('JSON-LD document must be an object');
+	}
+	const context = toActiveContext(document['@context']);
+	const graph = Array.isArray(document['@graph']) ? document['@graph'] : [document];
+	return graph.map((node) => {
+		if (!isObject(node)) {
+			throw new Error('JSON-LD graph entries must be objects');
+		}
+		return expandNode(node, context);
+	});
+}
+
+
+
+
+function compactValue(
+	term: string,
+	value: ExpandedJsonLdValue,
+	context: ActiveContext
+): unknown {
+	if ('@value' in value) return value['@value'];
+	const keys = Object.keys(value);
+	if (keys.length === 1 && typeof value['@id'] === 'string') {
+		const id = value['@id'];
+		return ENUM_TERMS.has(term) && id.startsWith(SCHEMA_ORG_VOCAB)
+			? id.slice(SCHEMA_ORG_VOCAB.length)
+			: id;
+	}
+	return compactNode(value as ExpandedJsonLdNode, context);
+}
+
+
+
+
+function compactNode(node: ExpandedJsonLdNode, context: ActiveContext): JsonObject {
+	const compacted: JsonObject = {};
+	for (const [key, value] of Object.entries(node)) {
+		if (key === '@id') {
+			compacted['@id'] = value;
+		} else if (key === '@type') {
+			const types = (value as string[]).map((type) => compactIri(type, context) ?? type);
+			compacted['@type'] = types.length === 1 ? types[0] : types;
+		} else {
+			const term = compactIri(key, context);
+			if (!term) continue;
+			const values = (value as ExpandedJsonLdValue[]).map((entry) =>
+				compactValue(term, entry, context)
+			);
+			compacted[term] = values.length === 1 && !SET_TERMS.has(term) ? values[0] : values;
+		}
+	}
+	return compacted;
+}
+
+
+
+
+export function compactJsonLd(
+	expanded: ExpandedJsonLdNode[],
+	options: JsonLdOptions = {}
+): JsonLdDocument {
+	const context = getOfferContext(options);
+	const active = toActiveContext(context);
+	const nodes = expanded.map((node) => compactNode(node, active));
+	return nodes.length === 1
+		? { '@context': context, ...nodes[0] }
+		: { '@context': context, '@graph': nodes };
+}
+
+
+
+
+export function toJsonLdScript(document: object): string {
+	const json = JSON.stringify(document)
+		.replace(/</g, '\\u003c')
+		.replace(/>/g, '\\u003e')
+		.replace(/&/g, '\\u0026')
+		.replace(/\u2028/g, '\\u2028')
+		.replace(/\u2029/g, '\\u2029');
+	return `<script type="application/ld+json">${json}</script>`;
+}
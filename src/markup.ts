@@ -0,0 +1,291 @@
+import { SCHEMA_ORG_VOCAB } from './jsonld.js';
+import { formatOfferPrice } from './pricing.js';
+import { isUrlAllowed } from './urls.js';
+import type {
+	MarkupFormat,
+	MarkupOptions,
+	MarkupSlot,
+	SchemaItem,
+	SchemaOfferNode
+} from './types.js';
+
+export const DEFAULT_MARKUP_SLOTS: Record<MarkupSlot, string> = {
+	product: '<div {{attrs}}>{{content}}</div>',
+	offer: '<div {{attrs}}>{{content}}</div>',
+	item: '<div {{attrs}}>{{content}}</div>',
+	name: '<span {{attrs}}>{{text}}</span>',
+	description: '<p {{attrs}}>{{text}}</p>',
+	price: '<span {{attrs}}>{{text}}</span>',
+	currency: '<meta {{attrs}}>',
+	availability: '<link {{attrs}}>',
+	paymentMethod: '<meta {{attrs}}>',
+	link: '<link {{attrs}}>',
+	action: '<a {{attrs}}>{{text}}</a>'
+};
+
+export const DEFAULT_ACTION_LABELS: Record<string, string> = {
+	buy: 'Buy now',
+	donate: 'Donate',
+	reserve: 'Reserve',
+	visit: 'Visit',
+	contact: 'Contact',
+	'view-source': 'View source',
+	'read-docs': 'Read the docs',
+	contribute: 'Contribute'
+};
+
+type Attributes = Array<[string, string | true | undefined]>;
+
+interface ScopeOptions {
+	type: string;
+	id?: string;
+	property?: string;
+	root?: boolean;
+}
+
+
+
+
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+
+
+
+function serializeAttributes(attributes: Attributes): string {
+	return attributes
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => (value === true ? key : `${key}="${escapeHtml(value as string)}"`))
+		.join(' ');
+}
+
+
+
+
+function fillSlot(
+	slot: MarkupSlot,
+	options: MarkupOptions,
+	values: { attrs: Attributes; text?: string; content?: string }
+): string {
+	const template = options.slots?.[slot] ?? DEFAULT_MARKUP_SLOTS[slot];
+	const rendered: Record<string, string> = {
+		attrs: serializeAttributes(values.attrs),
+		text: values.text === undefined ? '' : escapeHtml(values.text),
+		content: values.content ?? ''
+	};
+	return template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => rendered[key] ?? '');
+}
+
+
+
+
+function propertyAttributes(format: MarkupFormat, property: string): Attributes {
+	return [[format === 'rdfa' ? 'property' : 'itemprop', property]];
+}
+
+
+
+
+function scopeAttributes(format: MarkupFormat, scope: ScopeOptions): Attributes {
+	if (format === 'rdfa') {
+		return [
+			['vocab', scope.root ? SCHEMA_ORG_VOCAB : undefined],
+			['property', scope.property],
+			['typeof', scope.type],
+			['resource', scope.id]
+		];
+	}
+	return [
+		['itemprop', scope.property],
+		['itemscope', true],
+		['itemtype', `${SCHEMA_ORG_VOCAB}${scope.type}`],
+		['itemid', scope.id]
+	];
+}
+
+
+
+
+function safeUrl(url: string | undefined, base?: string): string | undefined {
+	if (!url) return undefined;
+	if (isUrlAllowed(url)) return url;
+	if (!base) return undefined;
+	try {
+		const resolved = new URL(url, base).href;
+		return isUrlAllowed(resolved) ? resolved : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+
+
+
+function renderLink(
+	property: string,
+	url: string | undefined,
+	options: MarkupOptions,
+	base?: string
+): string | undefined {
+	const href = safeUrl(url, base);
+	if (!href) return undefined;
+	const attrs = propertyAttributes(options.format ?? 'microdata', property);
+	return fillSlot('link', options, { attrs: [...attrs, ['href', href]] });
+}
+
+
+
+
+function renderItem(item: SchemaItem, property: string, options: MarkupOptions): string {
+	const format = options.format ?? 'microdata';
+	const parts = [
+		fillSlot('name', options, { attrs: propertyAttributes(format, 'name'), text: item.name }),
+		item.description &&
+			fillSlot('description', options, {
+				attrs: propertyAttributes(format, 'description'),
+				text: item.description
+			}),
+		renderLink('url', item.url, options),
+		renderLink('image', item.image, options, item.url)
+	];
+	return fillSlot('item', options, {
+		attrs: scopeAttributes(format, { type: item['@type'], property }),
+		content: parts.filter(Boolean).join('')
+	});
+}
+
+
+
+
+function resolveActionKey(offer: SchemaOfferNode): string {
+	if (offer['@type'] === 'Offer' && offer.requiresAction) return offer.requiresAction;
+	if (offer['@type'] === 'DonateAction') return 'donate';
+	if (offer['@type'] === 'ReserveAction') return 'reserve';
+	return 'buy';
+}
+
+
+
+
+function renderOffer(
+	offer: SchemaOfferNode,
+	options: MarkupOptions,
+	scope: Pick<ScopeOptions, 'property' | 'root'>
+): string {
+	const format = options.format ?? 'microdata';
+	const prop = (name: string) => propertyAttributes(format, name);
+	const parts: string[] = [fillSlot('name', options, { attrs: prop('name'), text: offer.name })];
+
+	if (offer.description) {
+		parts.push(
+			fillSlot('description', options, { attrs: prop('description'), text: offer.description })
+		);
+	}
+
+	
+	const price = formatOfferPrice(offer);
+	if (price && offer.price !== undefined) {
+		parts.push(
+			fillSlot('price', options, {
+				attrs: [...prop('price'), ['content', String(offer.price)]],
+				text: price
+			})
+		);
+		if (offer.priceCurrency) {
+			parts.push(
+				fillSlot('currency', options, {
+					attrs: [...prop('priceCurrency'), ['content', offer.priceCurrency]]
+				})
+			);
+		}
+	}
+
+	
+	if (offer['@type'] === 'Offer') {
+		parts.push(
+			fillSlot('availability', options, {
+				attrs: [...prop('availability'), ['href', `${SCHEMA_ORG_VOCAB}${offer.availability}`]]
+			})
+		);
+	}
+	for (const method of offer.acceptedPaymentMethod ?? []) {
+		parts.push(
+			fillSlot('paymentMethod', options, {
+				attrs: [...prop('acceptedPaymentMethod'), ['content', method]]
+			})
+		);
+	}
+
+	
+	const href = safeUrl(offer.externalUrl ?? offer.url);
+	if (href) {
+		const action = resolveActionKey(offer);
+		parts.push(
+			fillSlot('action', options, {
+				attrs: [...prop('url'), ['href', href], ['data-action', action]],
+				text: options.actionLabels?.[action] ?? DEFAULT_ACTION_LABELS[action] ?? action
+			})
+		);
+	}
+
+	
+	if (options.includeItem !== false) {
+		if (offer['@type'] === 'Offer' && offer.itemOffered) {
+			parts.push(renderItem(offer.itemOffered, 'itemOffered', options));
+		} else if (offer['@type'] !== 'Offer' && offer.object) {
+			parts.push(renderItem(offer.object, 'object', options));
+		}
+	}
+
+	return fillSlot('offer', options, {
+		attrs: [
+			...scopeAttributes(format, { type: offer['@type'], id: offer['@id'], ...scope }),
+			['data-transaction-type', offer.transactionType]
+		],
+		content: parts.join('')
+	});
+}
+
+
+
+
+export function renderOfferMarkup(offer: SchemaOfferNode, options: MarkupOptions = {}): string {
+	return renderOffer(offer, options, { root: true });
+}
+
+
+
+
+export function renderProductMarkup(
+	product: SchemaItem,
+	offers: SchemaOfferNode[],
+	options: MarkupOptions = {}
+): string {
+	const format = options.format ?? 'microdata';
+	const nested: MarkupOptions = { ...options, includeItem: false };
+	const parts = [
+		fillSlot('name', options, { attrs: propertyAttributes(format, 'name'), text: product.name }),
+		product.description &&
+			fillSlot('description', options, {
+				attrs: propertyAttributes(format, 'description'),
+				text: product.description
+			}),
+		renderLink('url', product.url, options),
+		renderLink('image', product.image, options, product.url),
+		...offers.map((offer) =>
+			renderOffer(offer, nested, {
+				property: offer['@type'] === 'Offer' ? 'offers' : 'potentialAction'
+			})
+		)
+	];
+	return fillSlot('product', options, {
+		attrs: scopeAttributes(format, { type: product['@type'], root: true }),
+		content: parts.filter(Boolean).join('')
+	});
+}
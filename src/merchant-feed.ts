@@ -0,0 +1,247 @@
+import { formatPrice, isCryptoCurrency, isKnownCurrency } from './currencies.js';
+import { createIssue } from './validation.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	GoogleAvailability,
+	MerchantFeed,
+	MerchantFeedChannel,
+	MerchantFeedItem,
+	OfferAvailability,
+	ProductItem,
+	SchemaOffer,
+	SchemaOfferNode,
+	ValidationIssue
+} from './types.js';
+
+export const GOOGLE_NAMESPACE = 'http://base.google.com/ns/1.0';
+
+export const GOOGLE_AVAILABILITY: Record<OfferAvailability, GoogleAvailability> = {
+	InStock: 'in_stock',
+	OnlineOnly: 'in_stock',
+	LimitedAvailability: 'in_stock',
+	PreOrder: 'preorder',
+	OutOfStock: 'out_of_stock',
+	SoldOut: 'out_of_stock',
+	Discontinued: 'out_of_stock'
+};
+
+export const MERCHANT_FEED_ATTRIBUTES: Array<keyof MerchantFeedItem> = [
+	'id',
+	'title',
+	'description',
+	'link',
+	'image_link',
+	'availability',
+	'availability_date',
+	'price',
+	'condition',
+	'brand',
+	'gtin',
+	'mpn',
+	'identifier_exists'
+];
+
+const MERCHANT_FEED_CONDITIONS = ['new', 'refurbished', 'used'];
+
+const MAX_TITLE_LENGTH = 150;
+
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+
+
+
+function readString(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+
+
+
+function truncate(value: string, length: number): string {
+	return value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+}
+
+
+
+
+function resolveImageUrl(image: string | undefined, baseUrl: string): string | undefined {
+	if (!image) return undefined;
+	try {
+		const url = new URL(image, `${baseUrl.replace(/\/$/, '')}/`);
+		return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+
+
+
+function isPricedOffer(offer: SchemaOfferNode, registry: TransactionRegistry): offer is SchemaOffer {
+	const mapping = registry.getMapping(offer.transactionType);
+	return (
+		offer['@type'] === 'Offer' &&
+		offer.price !== undefined &&
+		!!offer.priceCurrency &&
+		!!mapping?.isMonetary &&
+		!mapping.isDonation
+	);
+}
+
+
+
+
+function isFeedCurrency(code: string): boolean {
+	return isKnownCurrency(code) && !isCryptoCurrency(code);
+}
+
+
+
+
+export function selectPrimaryOffer(
+	offers: SchemaOfferNode[],
+	registry: TransactionRegistry
+): SchemaOffer | undefined {
+	return offers.find((offer): offer is SchemaOffer => isPricedOffer(offer, registry));
+}
+
+
+
+
+export function toMerchantFeedItem(
+	product: ProductItem,
+	offers: SchemaOfferNode[],
+	baseUrl: string,
+	registry: TransactionRegistry
+): { item?: MerchantFeedItem; issues: ValidationIssue[] } {
+	const fm = product.frontmatter;
+	const issues: ValidationIssue[] = [];
+
+	const offer = selectPrimaryOffer(
+		offers.filter((entry) => !entry.priceCurrency || isFeedCurrency(entry.priceCurrency)),
+		registry
+	);
+	const unsupported = offer ? undefined : selectPrimaryOffer(offers, registry);
+	if (unsupported) {
+		issues.push(
+			createIssue(
+				'FEED_CURRENCY_UNSUPPORTED',
+				'$.frontmatter.transactions',
+				`Merchant Center does not accept ${unsupported.priceCurrency} prices`,
+				{ currency: unsupported.priceCurrency }
+			)
+		);
+	} else if (!offer) {
+		issues.push(
+			createIssue(
+				'FEED_OFFER_MISSING',
+				'$.frontmatter.transactions',
+				'Product has no enabled monetary offer'
+			)
+		);
+	}
+
+	
+	const title = readString(fm.name) ?? readString(product.title);
+	const description = readString(fm.description);
+	const imageLink = resolveImageUrl(readString(fm.image), baseUrl);
+	const required: Array<[string, string, unknown]> = [
+		['title', '$.frontmatter.name', title],
+		['description', '$.frontmatter.description', description],
+		['image_link', '$.frontmatter.image', imageLink]
+	];
+	for (const [attribute, path, value] of required) {
+		if (value === undefined) {
+			issues.push(
+				createIssue(
+					'FEED_ATTRIBUTE_MISSING',
+					path,
+					`Missing required feed attribute: ${attribute}`,
+					{ attribute }
+				)
+			);
+		}
+	}
+
+	if (issues.length || !offer || !title || !description || !imageLink) {
+		return { issues };
+	}
+
+	
+	const item: MerchantFeedItem = {
+		id: readString(fm.sku) ?? product.slug,
+		title: truncate(title, MAX_TITLE_LENGTH),
+		description: truncate(description, MAX_DESCRIPTION_LENGTH),
+		link: `${baseUrl}/products/${product.slug}`,
+		image_link: imageLink,
+		availability: GOOGLE_AVAILABILITY[offer.availability] ?? 'out_of_stock',
+		price: formatPrice(offer.price!, offer.priceCurrency!)
+	};
+	if (item.availability === 'preorder' && offer.availabilityStarts) {
+		const starts = new Date(offer.availabilityStarts);
+		if (!Number.isNaN(starts.getTime())) item.availability_date = starts.toISOString();
+	}
+
+	const condition = readString(fm.condition)?.toLowerCase();
+	if (condition && MERCHANT_FEED_CONDITIONS.includes(condition)) item.condition = condition;
+	const brand = readString(fm.brand) ?? readString((fm.brand as { name?: unknown })?.name);
+	if (brand) item.brand = brand;
+	const gtin = readString(fm.gtin);
+	if (gtin) item.gtin = gtin;
+	const mpn = readString(fm.mpn);
+	if (mpn) item.mpn = mpn;
+	if (!gtin && !mpn) item.identifier_exists = 'no';
+
+	return { item, issues };
+}
+
+
+
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+
+
+
+export function toMerchantFeedXml(feed: MerchantFeed, channel: MerchantFeedChannel): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<rss version="2.0" xmlns:g="${GOOGLE_NAMESPACE}">`,
+		'<channel>',
+		`<title>${escapeXml(channel.title)}</title>`,
+		`<link>${escapeXml(channel.link)}</link>`,
+		`<description>${escapeXml(channel.description ?? channel.title)}</description>`
+	];
+	for (const item of feed.items) {
+		lines.push('<item>');
+		for (const attribute of MERCHANT_FEED_ATTRIBUTES) {
+			const value = item[attribute];
+			if (value !== undefined) lines.push(`<g:${attribute}>${escapeXml(value)}</g:${attribute}>`);
+		}
+		lines.push('</item>');
+	}
+	lines.push('</channel>', '</rss>');
+	return `${lines.join('\n')}\n`;
+}
+
+
+
+
+export function toMerchantFeedTsv(feed: MerchantFeed): string {
+	const clean = (value: string | undefined) => (value ?? '').replace(/[\t\r\n]+/g, ' ');
+	const rows = [
+		MERCHANT_FEED_ATTRIBUTES.join('\t'),
+		...feed.items.map((item) =>
+			MERCHANT_FEED_ATTRIBUTES.map((attribute) => clean(item[attribute])).join('\t')
+		)
+	];
+	return `${rows.join('\n')}\n`;
+}
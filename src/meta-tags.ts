@@ -0,0 +1,119 @@
+import { escapeHtml } from './markup.js';
+import { selectPrimaryOffer } from './merchant-feed.js';
+import { formatOfferPrice } from './pricing.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	MetaTag,
+	MetaTagOptions,
+	OfferAvailability,
+	SchemaItem,
+	SchemaOfferNode
+} from './types.js';
+
+export const OPEN_GRAPH_AVAILABILITY: Record<OfferAvailability, string> = {
+	InStock: 'in stock',
+	OnlineOnly: 'in stock',
+	LimitedAvailability: 'in stock',
+	PreOrder: 'preorder',
+	OutOfStock: 'out of stock',
+	SoldOut: 'out of stock',
+	Discontinued: 'discontinued'
+};
+
+const AVAILABILITY_LABELS: Record<OfferAvailability, string> = {
+	InStock: 'In stock',
+	OnlineOnly: 'Online only',
+	LimitedAvailability: 'Limited availability',
+	PreOrder: 'Pre-order',
+	OutOfStock: 'Out of stock',
+	SoldOut: 'Sold out',
+	Discontinued: 'Discontinued'
+};
+
+const MAX_TWITTER_DESCRIPTION_LENGTH = 200;
+
+
+
+
+function resolveUrl(url: string | undefined, base: string | undefined): string | undefined {
+	if (!url) return undefined;
+	try {
+		const resolved = new URL(url, base);
+		return ['https:', 'http:'].includes(resolved.protocol) ? resolved.href : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+
+
+
+export function toMetaTags(
+	item: SchemaItem,
+	offers: SchemaOfferNode[],
+	registry: TransactionRegistry,
+	options: MetaTagOptions = {}
+): MetaTag[] {
+	const url = resolveUrl(item.url, undefined);
+	const image = resolveUrl(item.image, url);
+	const offer = selectPrimaryOffer(offers, registry);
+	const og = (property: string, content: string | undefined): MetaTag[] =>
+		content ? [{ property, content }] : [];
+	const twitter = (name: string, content: string | undefined): MetaTag[] =>
+		content ? [{ name, content }] : [];
+
+	
+	const tags: MetaTag[] = [
+		...og('og:type', 'product'),
+		...og('og:title', item.name),
+		...og('og:description', item.description),
+		...og('og:url', url),
+		...og('og:image', image),
+		...og('og:site_name', options.siteName),
+		...og('og:locale', options.locale)
+	];
+	if (offer) {
+		tags.push(
+			...og('product:price:amount', String(offer.price)),
+			...og('product:price:currency', offer.priceCurrency),
+			...og('product:availability', OPEN_GRAPH_AVAILABILITY[offer.availability])
+		);
+	}
+
+	
+	const description =
+		item.description && item.description.length > MAX_TWITTER_DESCRIPTION_LENGTH
+			? `${item.description.slice(0, MAX_TWITTER_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+			: item.description;
+	tags.push(
+		...twitter('twitter:card', image ? 'summary_large_image' : 'summary'),
+		...twitter('twitter:title', item.name),
+		...twitter('twitter:description', description),
+		...twitter('twitter:image', image),
+		...twitter('twitter:site', options.twitterSite)
+	);
+	if (offer) {
+		tags.push(
+			...twitter('twitter:label1', 'Price'),
+			...twitter('twitter:data1', formatOfferPrice(offer)),
+			...twitter('twitter:label2', 'Availability'),
+			...twitter('twitter:data2', AVAILABILITY_LABELS[offer.availability])
+		);
+	}
+	return tags;
+}
+
+
+
+
+export function renderMetaTags(tags: MetaTag[]): string {
+	return tags
+		.map(({ property, name, content }) => {
+			const key =
+				property === undefined
+					? `name="${escapeHtml(name ?? '')}"`
+					: `property="${escapeHtml(property)}"`;
+			return `<meta ${key} content="${escapeHtml(content)}">`;
+		})
+		.join('\n');
+}
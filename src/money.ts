@@ -0,0 +1,182 @@
+import { getMinorUnits } from './currencies.js';
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+
+
+
+function expandExponent(value: number): string {
+	const [mantissa, exponentPart] = value.toString().toLowerCase().split('e');
+	if (exponentPart === undefined) return mantissa;
+
+	const exponent = Number(exponentPart);
+	const negative = mantissa.startsWith('-');
+	const [intPart, fracPart = ''] = mantissa.replace('-', '').split('.');
+	const digits = intPart + fracPart;
+	const point = intPart.length + exponent;
+
+	let result: string;
+	if (point <= 0) {
+		result = `0.${'0'.repeat(-point)}${digits}`;
+	} else if (point >= digits.length) {
+		result = digits + '0'.repeat(point - digits.length);
+	} else {
+		result = `${digits.slice(0, point)}.${digits.slice(point)}`;
+	}
+	return negative ? `-${result}` : result;
+}
+
+
+
+
+export function formatUnits(units: bigint, scale: number): string {
+	const negative = units < 0n;
+	const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+	const body =
+		scale === 0
+			? digits
+			: `${digits.slice(0, digits.length - scale)}.${digits.slice(digits.length - scale)}`;
+	return negative ? `-${body}` : body;
+}
+
+export function divideHalfUp(numerator: bigint, denominator: bigint): bigint {
+	const negative = numerator < 0n !== denominator < 0n;
+	const n = numerator < 0n ? -numerator : numerator;
+	const d = denominator < 0n ? -denominator : denominator;
+	const result = (2n * n + d) / (2n * d);
+	return negative ? -result : result;
+}
+
+
+
+
+
+export class Money {
+	private constructor(
+		readonly units: bigint,
+		readonly scale: number,
+		readonly currency: string,
+		private readonly source: string
+	) {}
+
+	
+
+
+	static parse(value: number | string, currency: string): Money {
+		let source: string;
+		if (typeof value === 'number') {
+			if (!Number.isFinite(value)) {
+				throw new Error(`Invalid price: ${value}`);
+			}
+			source = expandExponent(value);
+		} else if (typeof value === 'string') {
+			source = value.trim();
+		} else {
+			throw new Error(`Invalid price: ${String(value)}`);
+		}
+
+		const match = DECIMAL_PATTERN.exec(source);
+		if (!match) {
+			throw new Error(`Invalid price: ${value}`);
+		}
+
+		const [, sign, intPart, fracPart = ''] = match;
+		const magnitude = BigInt(intPart + fracPart);
+		return new Money(sign ? -magnitude : magnitude, fracPart.length, currency.toUpperCase(), source);
+	}
+
+	
+
+
+	static tryParse(value: number | string, currency: string): Money | undefined {
+		try {
+			return Money.parse(value, currency);
+		} catch {
+			return undefined;
+		}
+	}
+
+	
+
+
+	static fromMinorUnits(units: bigint, currency: string): Money {
+		const scale = getMinorUnits(currency);
+		if (scale === undefined) {
+			throw new Error(`Unknown minor units for currency: ${currency}`);
+		}
+		return new Money(units, scale, currency.toUpperCase(), formatUnits(units, scale));
+	}
+
+	get decimals(): number {
+		return this.scale;
+	}
+
+	isNegative(): boolean {
+		return this.units < 0n;
+	}
+
+	isZero(): boolean {
+		return this.units === 0n;
+	}
+
+	
+
+
+	fitsMinorUnits(): boolean {
+		const minor = getMinorUnits(this.currency);
+		return minor === undefined || this.scale <= minor;
+	}
+
+	
+
+
+	toMinorUnits(): bigint {
+		const minor = getMinorUnits(this.currency);
+		if (minor === undefined) {
+			throw new Error(`Unknown minor units for currency: ${this.currency}`);
+		}
+		if (this.scale > minor) {
+			throw new Error(
+				`${this.source} ${this.currency} has more than ${minor} decimal places`
+			);
+		}
+		return this.units * 10n ** BigInt(minor - this.scale);
+	}
+
+	
+
+
+	compare(other: Money): -1 | 0 | 1 {
+		if (other.currency !== this.currency) {
+			throw new Error(`Cannot compare ${this.currency} with ${other.currency}`);
+		}
+		const scale = Math.max(this.scale, other.scale);
+		const a = this.units * 10n ** BigInt(scale - this.scale);
+		const b = other.units * 10n ** BigInt(scale - other.scale);
+		return a === b ? 0 : a < b ? -1 : 1;
+	}
+
+	equals(other: Money): boolean {
+		return other.currency === this.currency && this.compare(other) === 0;
+	}
+
+	toNumber(): number {
+		return Number(this.source);
+	}
+
+	toString(): string {
+		return this.source;
+	}
+
+	toJSON(): string {
+		return this.source;
+	}
+}
+
+
+
+
+export function toSchemaPrice(value: number | string, currency: string): number | string {
+	const money = Money.parse(value, currency);
+	return typeof value === 'number' && !/e/i.test(String(value)) ? value : money.toString();
+}
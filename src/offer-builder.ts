@@ -4,96 +4,251 @@
 
 
 import { getConfig, noopTracer } from './config.js';
-import { TRANSACTION_MAPPINGS } from './transaction-mappings.js';
+import { getTransactionRegistry } from './transaction-mappings.js';
+import { Money, toSchemaPrice } from './money.js';
+import {
+	applyBilling,
+	applyTier,
+	getTierId,
+	isBillingPeriod,
+	BILLING_UNIT_CODES
+} from './billing.js';
+import {
+	applyPriceRange,
+	isPayWhatYouWant,
+	resolveListedPrice,
+	validatePriceRange
+} from './pricing.js';
+import { getMinorUnits, isCryptoCurrency, isKnownCurrency } from './currencies.js';
+import { resolveSellerProfile, toSchemaSeller, validateSellerReference } from './sellers.js';
+import { applyTax, computeTax, findTaxRule, TAX_REGION_GROUPS } from './tax.js';
+import { convertMoney } from './aggregate.js';
+import {
+	resolveScheduledAvailability,
+	resolveScheduledPrice,
+	SCHEDULED_PRICE_TYPES,
+	validateSchedule
+} from './schedule.js';
+import {
+	createIssue,
+	joinPath,
+	prefixIssues,
+	suggestKey,
+	toValidationIssues,
+	toValidationResult,
+	TRANSACTION_CONFIG_KEYS
+} from './validation.js';
+import { canonicalizeUrl, validateUrl } from './urls.js';
+import { readFederatedOffer } from './inbound.js';
+import { diffOffers } from './diff.js';
+import { linkProductGraph, toProductId } from './graph.js';
+import { getNodeContext } from './jsonld.js';
+import { toMerchantFeedItem } from './merchant-feed.js';
+import { toMetaTags } from './meta-tags.js';
+import { renderOfferPost } from './post.js';
+import {
+	formatAttachmentText,
+	selectProfileFields,
+	toAttachmentParts
+} from './profile-fields.js';
+import { toFrontmatterSchema, toTransactionConfigSchema } from './json-schema.js';
+import {
+	FEDERATION_CONTEXT,
+	resolveActivityOptions,
+	resolveAudience,
+	toActivityId,
+	toActivityStreamsActor,
+	toActivityStreamsItem
+} from './activitypub.js';
+import type { TransactionRegistry } from './transaction-registry.js';
 import type {
+	EntryPoint,
 	SchemaOffer,
+	SchemaOfferNode,
+	SchemaItem,
+	SchemaDonateAction,
+	SchemaReserveAction,
+	SellerProfile,
+	SchemaAggregateOffer,
+	AggregateOfferOptions,
 	TransactionMapping,
 	PriceSpecification,
 	PaymentMethod,
 	TransactionConfig,
+	BuildOfferOptions,
+	ValidationIssue,
 	ValidationResult,
-	ProductItem
+	ProductItem,
+	ProductGraphOptions,
+	MerchantFeed,
+	MerchantFeedOptions,
+	MetaTag,
+	MetaTagOptions,
+	PostOptions,
+	PostRenderResult,
+	ProfileFieldOptions,
+	ProfileFieldSelection,
+	JsonSchemaObject,
+	JsonSchemaOptions,
+	SchemaProductGraph,
+	ActivityOptions,
+	ActivityPubPropertyValue,
+	ActivityStreamsActivity,
+	ActivityStreamsOffer,
+	ActivityStreamsTombstone,
+	OfferActivityType,
+	OfferDiff,
+	FederatedOfferOptions,
+	FederatedOfferResult,
+	CatalogBuildMode,
+	CatalogBuildOptions,
+	CatalogBuildError,
+	CatalogBuildResult,
+	CatalogBuildSummary,
+	CatalogProductResult
 } from './types.js';
 
+export interface OfferBuilderServiceOptions {
+	registry?: TransactionRegistry;
+}
+
 export class OfferBuilderService {
+	constructor(private readonly options: OfferBuilderServiceOptions = {}) {}
+
 	private get tracer() {
 		return getConfig().tracer ?? noopTracer;
 	}
 
+	private get registry(): TransactionRegistry {
+		return this.options.registry ?? getTransactionRegistry();
+	}
+
 	
 
 
 	buildOffer(
 		product: ProductItem,
 		transaction: TransactionConfig,
-		baseUrl: string
-	): SchemaOffer {
+		baseUrl: string,
+		options: BuildOfferOptions = {}
+	): SchemaOfferNode {
 		return this.tracer.startActiveSpan('OfferBuilderService.buildOffer', (span) => {
 			try {
 				span.setAttribute('transaction.type', transaction.type);
 				span.setAttribute('product.slug', product.slug);
 
-				const mapping = TRANSACTION_MAPPINGS[transaction.type];
-				if (!mapping) {
+				const registration = this.registry.get(transaction.type);
+				if (!registration) {
 					throw new Error(`Unknown transaction type: ${transaction.type}`);
 				}
+				const { mapping } = registration;
+				const externalUrl =
+					transaction.url && canonicalizeUrl(transaction.url, registration.urlPolicy);
 
 				const fm = product.frontmatter;
 				const productName = (fm.name as string) || product.title;
-				const offerId = `${baseUrl}/products/${product.slug}#offer-${transaction.type}`;
+				const productUrl = `${baseUrl}/products/${product.slug}`;
+				let offerId = `${productUrl}#offer-${transaction.type}`;
+
+				
+				if (options.tier) {
+					span.setAttribute('transaction.tier', options.tier);
+					transaction = applyTier(
+						transaction,
+						options.tier,
+						`${productName} - ${transaction.type}`
+					);
+					offerId += `-${options.tier}`;
+				}
+
+				
+				const asOf = options.asOf === undefined ? new Date() : new Date(options.asOf);
+				if (Number.isNaN(asOf.getTime())) {
+					throw new Error(`Invalid asOf date: ${String(options.asOf)}`);
+				}
+				const scheduled = resolveScheduledPrice(transaction, asOf);
+				if (scheduled) {
+					span.setAttribute('price.scheduled', scheduled.kind ?? 'scheduled');
+					transaction = { ...transaction, price: scheduled.price };
+				}
+
+				
+				const sellerProfile = resolveSellerProfile([transaction.seller, fm.seller], baseUrl);
 
 				
 				const priceSpec =
-					mapping.isMonetary && transaction.price
+					mapping.isMonetary &&
+					(transaction.price ||
+						(isPayWhatYouWant(transaction) && resolveListedPrice(transaction) !== undefined))
 						? this.buildPriceSpec(
-								transaction.price,
+								transaction,
 								transaction.currency || 'USD',
-								mapping
+								mapping,
+								sellerProfile
 							)
 						: undefined;
 
 				
-				const availability =
-					transaction.availability || mapping.defaultAvailability;
+				if (priceSpec && scheduled) {
+					if (scheduled.validFrom) priceSpec.validFrom = scheduled.validFrom;
+					if (scheduled.validThrough) priceSpec.validThrough = scheduled.validThrough;
+					if (scheduled.kind && !priceSpec.priceType) {
+						priceSpec.priceType = SCHEDULED_PRICE_TYPES[scheduled.kind];
+					}
+				}
+
+				
+				const availability = resolveScheduledAvailability(
+					transaction,
+					mapping.defaultAvailability,
+					asOf
+				);
 
 				
 				const offer: SchemaOffer = {
-					'@context': 'https://schema.org',
+					'@context': getNodeContext(),
 					'@type': 'Offer',
 					'@id': offerId,
 					name: transaction.label || `${productName} - ${transaction.type}`,
 					description: transaction.description,
-					url: transaction.url || `${baseUrl}/products/${product.slug}`,
+					url: externalUrl || productUrl,
 					availability,
 					acceptedPaymentMethod: mapping.paymentMethods,
 					transactionType: transaction.type
 				};
 
 				
-				if (mapping.isMonetary && transaction.price) {
-					offer.price = transaction.price;
+				if (priceSpec) {
+					offer.price = priceSpec.price;
 					offer.priceCurrency = transaction.currency || 'USD';
 					offer.priceSpecification = priceSpec;
+					if (priceSpec.validThrough) {
+						offer.priceValidUntil = priceSpec.validThrough;
+					}
 				}
 
 				
-				if (transaction.url) {
-					offer.externalUrl = transaction.url;
+				if (transaction.availabilityStarts) {
+					offer.availabilityStarts = transaction.availabilityStarts;
+				}
+				if (transaction.availabilityEnds) {
+					offer.availabilityEnds = transaction.availabilityEnds;
 				}
 
 				
-				offer.seller = {
-					'@type': 'Organization',
-					name: 'Tinyland',
-					url: baseUrl
-				};
+				if (externalUrl) {
+					offer.externalUrl = externalUrl;
+				}
+
+				
+				offer.seller = toSchemaSeller(sellerProfile);
 
 				
 				offer.itemOffered = {
 					'@type': 'Product',
 					name: productName,
 					description: fm.description as string | undefined,
-					url: `${baseUrl}/products/${product.slug}`,
+					url: productUrl,
 					image: fm.image as string | undefined
 				};
 
@@ -102,8 +257,15 @@ export class OfferBuilderService {
 					offer.requiresAction = this.getRequiredAction(transaction.type);
 				}
 
+				const node = this.toSchemaNode(
+					offer,
+					mapping,
+					offerId.replace('#offer-', '#action-')
+				);
+				span.setAttribute('schema.type', node['@type']);
+
 				span.setStatus({ code: 1 }); 
-				return offer;
+				return node;
 			} catch (error) {
 				span.recordException(error as Error);
 				span.setStatus({ code: 2, message: (error as Error).message }); 
@@ -117,21 +279,28 @@ export class OfferBuilderService {
 	
 
 
-	buildAllOffers(product: ProductItem, baseUrl: string): SchemaOffer[] {
+	buildAllOffers(
+		product: ProductItem,
+		baseUrl: string,
+		options: Pick<BuildOfferOptions, 'asOf'> = {}
+	): SchemaOfferNode[] {
 		return this.tracer.startActiveSpan('OfferBuilderService.buildAllOffers', (span) => {
 			try {
 				span.setAttribute('product.slug', product.slug);
 
 				const fm = product.frontmatter;
-				const transactions = (fm.transactions as TransactionConfig[]) || [];
+				if (fm.transactions !== undefined && !Array.isArray(fm.transactions)) {
+					throw new Error(`Product transactions must be a list: ${product.slug}`);
+				}
+				const transactions = (fm.transactions as TransactionConfig[] | undefined) || [];
 
 				
 				const enabledTransactions = transactions
 					.filter((t) => t.enabled)
 					.sort((a, b) => (b.priority || 0) - (a.priority || 0));
 
-				const offers = enabledTransactions.map((t) =>
-					this.buildOffer(product, t, baseUrl)
+				const offers = enabledTransactions.flatMap((t) =>
+					this.buildTransactionOffers(product, t, baseUrl, options)
 				);
 
 				span.setAttribute('offers.count', offers.length);
@@ -150,183 +319,1285 @@ export class OfferBuilderService {
 	
 
 
-	offerToActivityPubAttachment(offer: SchemaOffer): {
-		type: 'PropertyValue';
-		name: string;
-		value: string;
-	} {
-		const mapping = TRANSACTION_MAPPINGS[offer.transactionType];
-		let value = offer.name;
+	buildProductGraph(
+		product: ProductItem,
+		baseUrl: string,
+		options: ProductGraphOptions = {}
+	): SchemaProductGraph {
+		return this.tracer.startActiveSpan('OfferBuilderService.buildProductGraph', (span) => {
+			try {
+				span.setAttribute('product.slug', product.slug);
+
+				const { asOf, ...jsonLd } = options;
+				const offers = this.buildAllOffers(product, baseUrl, { asOf });
+				const fm = product.frontmatter;
+				const productUrl = `${baseUrl}/products/${product.slug}`;
+				const graph = linkProductGraph(
+					{
+						'@type': 'Product',
+						'@id': toProductId(productUrl),
+						name: (fm.name as string) || product.title,
+						description: fm.description as string | undefined,
+						url: productUrl,
+						image: fm.image as string | undefined
+					},
+					offers,
+					jsonLd
+				);
+
+				span.setAttribute('graph.nodes', graph['@graph'].length);
+				span.setStatus({ code: 1 }); 
+				return graph;
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	buildCatalog(
+		products: ProductItem[],
+		baseUrl: string,
+		options: CatalogBuildOptions = {}
+	): CatalogBuildResult {
+		return this.tracer.startActiveSpan('OfferBuilderService.buildCatalog', (span) => {
+			try {
+				const mode = options.mode ?? 'lenient';
+				span.setAttribute('catalog.mode', mode);
+				span.setAttribute('catalog.products', products.length);
+
+				const results = products.map((product, position) =>
+					this.buildCatalogProduct(product, position, baseUrl, mode, options)
+				);
+
+				const summary: CatalogBuildSummary = {
+					products: results.length,
+					succeeded: 0,
+					partial: 0,
+					failed: 0,
+					offers: 0,
+					errors: 0,
+					warnings: 0
+				};
+				for (const result of results) {
+					if (result.status === 'ok') summary.succeeded++;
+					else if (result.status === 'partial') summary.partial++;
+					else summary.failed++;
+					summary.offers += result.offers.length;
+					summary.errors += result.errors.length;
+					summary.warnings += result.warnings.length;
+				}
+
+				span.setAttribute('catalog.offers', summary.offers);
+				span.setAttribute('catalog.failed', summary.failed);
+				span.setStatus({ code: 1 }); 
+				return {
+					mode,
+					products: results,
+					errors: results.flatMap((result) => result.errors),
+					summary
+				};
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	buildMerchantFeed(
+		products: ProductItem[],
+		baseUrl: string,
+		options: MerchantFeedOptions = {}
+	): MerchantFeed {
+		return this.tracer.startActiveSpan('OfferBuilderService.buildMerchantFeed', (span) => {
+			try {
+				const catalog = this.buildCatalog(products, baseUrl, { asOf: options.asOf });
+				const feed: MerchantFeed = { items: [], skipped: [] };
+
+				
+				catalog.products.forEach((result, position) => {
+					const errors = result.errors.filter((error) => error.index === undefined);
+					if (errors.length) {
+						feed.skipped.push({ slug: result.slug, issues: errors });
+						return;
+					}
+					const { item, issues } = toMerchantFeedItem(
+						products[position],
+						result.offers,
+						baseUrl,
+						this.registry
+					);
+					if (item) feed.items.push(item);
+					else feed.skipped.push({ slug: result.slug, issues });
+				});
+
+				span.setAttribute('feed.items', feed.items.length);
+				span.setAttribute('feed.skipped', feed.skipped.length);
+				span.setStatus({ code: 1 }); 
+				return feed;
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	private buildCatalogProduct(
+		product: ProductItem,
+		position: number,
+		baseUrl: string,
+		mode: CatalogBuildMode,
+		options: CatalogBuildOptions
+	): CatalogProductResult {
+		return this.tracer.startActiveSpan('OfferBuilderService.buildCatalogProduct', (span) => {
+			const slug =
+				typeof product?.slug === 'string' && product.slug ? product.slug : `#${position}`;
+			const errors: CatalogBuildError[] = [];
+			const warnings: CatalogBuildError[] = [];
+			const offers: SchemaOfferNode[] = [];
+
+			const report = (issue: ValidationIssue, type?: unknown) => {
+				const entry: CatalogBuildError = { ...issue, slug };
+				if (typeof type === 'string') entry.type = type;
+				(issue.severity === 'error' ? errors : warnings).push(entry);
+			};
+
+			try {
+				span.setAttribute('product.slug', slug);
+
+				
+				const transactions = Array.isArray(product?.frontmatter?.transactions)
+					? (product.frontmatter.transactions as unknown[])
+					: [];
+				const entryAt = (index: number | undefined) =>
+					index === undefined
+						? undefined
+						: (transactions[index] as Partial<TransactionConfig> | null | undefined);
+
+				for (const issue of this.validateProduct(product).issues) {
+					const entry = entryAt(issue.index);
+					const disabled = entry?.enabled === false && issue.severity === 'error';
+					report(disabled ? { ...issue, severity: 'warning' } : issue, entry?.type);
+				}
+				const failedIndexes = new Set(errors.map((error) => error.index));
+
+				
+				if (!failedIndexes.has(undefined) && (mode === 'lenient' || errors.length === 0)) {
+					const enabled = transactions
+						.map((transaction, index) => ({ transaction: transaction as TransactionConfig, index }))
+						.filter(({ transaction, index }) => transaction.enabled && !failedIndexes.has(index))
+						.sort((a, b) => (b.transaction.priority || 0) - (a.transaction.priority || 0));
+
+					const built: SchemaOfferNode[] = [];
+					for (const { transaction, index } of enabled) {
+						try {
+							built.push(
+								...this.buildTransactionOffers(product, transaction, baseUrl, {
+									asOf: options.asOf
+								})
+							);
+						} catch (error) {
+							report(
+								{
+									...createIssue(
+										'BUILD_FAILED',
+										joinPath('$.frontmatter.transactions', index),
+										(error as Error).message
+									),
+									index
+								},
+								transaction.type
+							);
+						}
+					}
+
+					if (mode === 'lenient' || errors.length === 0) {
+						offers.push(...built);
+					}
+				}
+
+				const status: CatalogProductResult['status'] =
+					errors.length === 0 ? 'ok' : offers.length > 0 ? 'partial' : 'failed';
+
+				span.setAttribute('offers.count', offers.length);
+				span.setAttribute('errors.count', errors.length);
+				if (status === 'failed') {
+					span.setStatus({ code: 2, message: errors[0].message }); 
+				} else {
+					span.setStatus({ code: 1 }); 
+				}
+				return { slug, status, offers, errors, warnings };
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				report(createIssue('BUILD_FAILED', '$', (error as Error).message));
+				return { slug, status: 'failed', offers: [], errors, warnings };
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	private buildTransactionOffers(
+		product: ProductItem,
+		transaction: TransactionConfig,
+		baseUrl: string,
+		options: Pick<BuildOfferOptions, 'asOf'>
+	): SchemaOfferNode[] {
+		return transaction.tiers?.length
+			? transaction.tiers.map((tier) =>
+					this.buildOffer(product, transaction, baseUrl, { ...options, tier: getTierId(tier) })
+				)
+			: [this.buildOffer(product, transaction, baseUrl, options)];
+	}
+
+	
+
+
+	buildAggregateOffer(
+		offers: SchemaOfferNode[],
+		options: AggregateOfferOptions = {}
+	): SchemaAggregateOffer | undefined {
+		return this.tracer.startActiveSpan('OfferBuilderService.buildAggregateOffer', (span) => {
+			try {
+				const monetary = offers.filter(
+					(offer) =>
+						offer.price !== undefined &&
+						Boolean(offer.priceCurrency) &&
+						this.registry.getMapping(offer.transactionType)?.isMonetary !== false
+				);
+				span.setAttribute('offers.monetary', monetary.length);
+
+				if (monetary.length === 0) {
+					span.setStatus({ code: 1 }); 
+					return undefined;
+				}
+
+				const currency = (options.currency ?? monetary[0].priceCurrency!).toUpperCase();
+				const rates = options.rates ?? getConfig().exchangeRates;
+				span.setAttribute('aggregate.currency', currency);
+
+				
+				const included: SchemaOfferNode[] = [];
+				let excluded = 0;
+				let low: { money: Money; value: number | string } | undefined;
+				let high: { money: Money; value: number | string } | undefined;
+
+				for (const offer of monetary) {
+					const sourceCurrency = offer.priceCurrency!;
+					const lowValue = offer.priceSpecification?.minPrice ?? offer.price!;
+					const highValue = offer.priceSpecification?.maxPrice ?? offer.price!;
+					const lowMoney = convertMoney(Money.parse(lowValue, sourceCurrency), currency, rates);
+					const highMoney = convertMoney(Money.parse(highValue, sourceCurrency), currency, rates);
+
+					if (!lowMoney || !highMoney) {
+						const message = `Cannot aggregate ${sourceCurrency} offer ${offer['@id']} into ${currency} without an exchange rate`;
+						if (options.onMixedCurrency === 'throw') {
+							throw new Error(message);
+						}
+						excluded += 1;
+						options.onExclude?.(
+							createIssue(
+								'AGGREGATE_OFFER_EXCLUDED',
+								joinPath('$', offers.indexOf(offer)),
+								message,
+								{ id: offer['@id'], currency: sourceCurrency, target: currency },
+								'warning'
+							)
+						);
+						continue;
+					}
+
+					const converted = lowMoney.currency !== sourceCurrency.toUpperCase();
+					included.push(offer);
+					if (!low || lowMoney.compare(low.money) < 0) {
+						low = { money: lowMoney, value: converted ? lowMoney.toString() : lowValue };
+					}
+					if (!high || highMoney.compare(high.money) > 0) {
+						high = { money: highMoney, value: converted ? highMoney.toString() : highValue };
+					}
+				}
+
+				span.setAttribute('offers.count', included.length);
+				span.setAttribute('offers.excluded', excluded);
+				if (!low || !high) {
+					span.setStatus({ code: 1 }); 
+					return undefined;
+				}
+
+				const baseId = included[0]['@id'].split('#')[0];
+				const aggregate: SchemaAggregateOffer = {
+					'@context': getNodeContext(),
+					'@type': 'AggregateOffer',
+					'@id': `${baseId}#aggregate-offer`,
+					lowPrice: low.value,
+					highPrice: high.value,
+					priceCurrency: currency,
+					offerCount: included.length,
+					offers: included.map(({ '@context': _context, ...offer }) => offer)
+				};
+
+				span.setStatus({ code: 1 }); 
+				return aggregate;
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	buildMetaTags(
+		item: SchemaItem,
+		offers: SchemaOfferNode[],
+		options: MetaTagOptions = {}
+	): MetaTag[] {
+		return toMetaTags(item, offers, this.registry, options);
+	}
+
+	
+
+
+	renderOfferPost(
+		item: SchemaItem,
+		offers: SchemaOfferNode[],
+		options: PostOptions = {}
+	): PostRenderResult {
+		return renderOfferPost(item, offers, this.registry, options);
+	}
+
+	
+
+
+	offerToActivityPubAttachment(offer: SchemaOfferNode): ActivityPubPropertyValue {
+		const { name, ...parts } = toAttachmentParts(offer, this.registry);
+		return {
+			type: 'PropertyValue',
+			name,
+			value: formatAttachmentText(parts)
+		};
+	}
+
+	
+
+
+	selectProfileFields(
+		offers: SchemaOfferNode[],
+		options: ProfileFieldOptions = {}
+	): ProfileFieldSelection {
+		return selectProfileFields(offers, this.registry, options);
+	}
+
+	
+
+
+	buildTransactionSchema(options: JsonSchemaOptions = {}): JsonSchemaObject {
+		return toTransactionConfigSchema(this.registry, options);
+	}
+
+	
+
+
+	buildFrontmatterSchema(options: JsonSchemaOptions = {}): JsonSchemaObject {
+		return toFrontmatterSchema(this.registry, options);
+	}
+
+	
+
+
+	offerToActivityStreams(offer: SchemaOfferNode): ActivityStreamsOffer {
+		const object: ActivityStreamsOffer = {
+			'@context': FEDERATION_CONTEXT,
+			id: offer['@id'],
+			type: offer['@type'],
+			name: offer.name
+		};
+
+		if (offer.description) object.summary = offer.description;
+		if (offer.externalUrl || offer.url) object.url = offer.externalUrl || offer.url;
 
 		
-		if (mapping?.isMonetary && offer.price) {
-			value += ` - ${offer.price} ${offer.priceCurrency}`;
+		if (offer.price !== undefined) object.price = offer.price;
+		if (offer.priceCurrency) object.priceCurrency = offer.priceCurrency;
+		if (offer.priceSpecification) {
+			object.priceSpecification = structuredClone(offer.priceSpecification);
+		}
+		if (offer.acceptedPaymentMethod?.length) {
+			object.acceptedPaymentMethod = [...offer.acceptedPaymentMethod];
 		}
 
 		
-		if (offer.externalUrl) {
-			value += ` (${offer.externalUrl})`;
+		if (offer['@type'] === 'Offer') {
+			object.availability = `https://schema.org/${offer.availability}`;
+			if (offer.availabilityStarts) object.availabilityStarts = offer.availabilityStarts;
+			if (offer.availabilityEnds) object.availabilityEnds = offer.availabilityEnds;
+			if (offer.priceValidUntil) object.priceValidUntil = offer.priceValidUntil;
+			if (offer.seller) {
+				object.seller = toActivityStreamsActor(offer.seller);
+				if (offer.seller['@id']) object.attributedTo = offer.seller['@id'];
+			}
+			if (offer.itemOffered) object.itemOffered = toActivityStreamsItem(offer.itemOffered);
+		} else {
+			if (offer['@type'] === 'DonateAction') {
+				object.recipient = toActivityStreamsActor(offer.recipient);
+				if (offer.recipient['@id']) object.attributedTo = offer.recipient['@id'];
+			}
+			if (offer.object) object.object = toActivityStreamsItem(offer.object);
+		}
+
+		object.attachment = [this.offerToActivityPubAttachment(offer)];
+		return object;
+	}
+
+	
+
+
+	createOfferActivity(
+		offer: SchemaOfferNode,
+		options: ActivityOptions = {}
+	): ActivityStreamsActivity<'Create'> {
+		return this.toOfferActivity('Create', offer, options);
+	}
+
+	
+
+
+	updateOfferActivity(
+		offer: SchemaOfferNode,
+		options: ActivityOptions = {}
+	): ActivityStreamsActivity<'Update'> {
+		return this.toOfferActivity('Update', offer, options);
+	}
+
+	
+
+
+	deleteOfferActivity(
+		offer: SchemaOfferNode,
+		options: ActivityOptions = {}
+	): ActivityStreamsActivity<'Delete'> {
+		return this.toOfferActivity('Delete', offer, options);
+	}
+
+	
+
+
+	diffOffers(previous: SchemaOfferNode[], next: SchemaOfferNode[]): OfferDiff {
+		return diffOffers(previous, next);
+	}
+
+	
+
+
+	createDiffActivities(diff: OfferDiff, options: ActivityOptions = {}): ActivityStreamsActivity[] {
+		return this.tracer.startActiveSpan('OfferBuilderService.createDiffActivities', (span) => {
+			try {
+				const resolved = resolveActivityOptions(options);
+				const activities: ActivityStreamsActivity[] = [
+					...diff.added.map((offer) => this.createOfferActivity(offer, resolved)),
+					...diff.changed.map(({ after }) => this.updateOfferActivity(after, resolved)),
+					...diff.removed.map((offer) => this.deleteOfferActivity(offer, resolved))
+				];
+
+				span.setAttribute('activities.create', diff.added.length);
+				span.setAttribute('activities.update', diff.changed.length);
+				span.setAttribute('activities.delete', diff.removed.length);
+				span.setStatus({ code: 1 }); 
+				return activities;
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	private toOfferActivity<T extends OfferActivityType>(
+		type: T,
+		offer: SchemaOfferNode,
+		options: ActivityOptions
+	): ActivityStreamsActivity<T> {
+		const resolved = resolveActivityOptions(options);
+		const { '@context': _context, ...object } = this.offerToActivityStreams(offer);
+
+		const actor = resolved.actor ?? object.attributedTo;
+		if (!actor) {
+			throw new Error(`Cannot address activity for ${offer['@id']} without an actor`);
+		}
+		const { to, cc } = resolveAudience(resolved.audience, resolved.followers ?? `${actor}/followers`);
+		const published = resolved.published;
+
+		let target: ActivityStreamsOffer | ActivityStreamsTombstone;
+		if (type === 'Delete') {
+			target = { id: object.id, type: 'Tombstone', formerType: object.type, deleted: published };
+		} else if (type === 'Update') {
+			target = { ...object, attributedTo: actor, updated: published, to, cc };
+		} else {
+			target = { ...object, attributedTo: actor, published, to, cc };
 		}
 
 		return {
-			type: 'PropertyValue',
-			name: this.getTransactionDisplayName(offer.transactionType),
-			value
+			'@context': FEDERATION_CONTEXT,
+			id: toActivityId(offer['@id'], type, type === 'Create' ? undefined : published),
+			type,
+			actor,
+			published,
+			to,
+			cc,
+			object: target
+		} as ActivityStreamsActivity<T>;
+	}
+
+	
+
+
+	parseFederatedOffer(
+		input: unknown,
+		options: FederatedOfferOptions = {}
+	): FederatedOfferResult {
+		return this.tracer.startActiveSpan('OfferBuilderService.parseFederatedOffer', (span) => {
+			try {
+				const draft = readFederatedOffer(input, this.registry, options);
+				const issues = [...draft.issues];
+				if (draft.origin.format) span.setAttribute('federation.format', draft.origin.format);
+				if (draft.origin.source) span.setAttribute('federation.source', draft.origin.source);
+
+				
+				if (draft.offer && draft.transaction) {
+					issues.push(
+						...this.validateTransaction(draft.transaction).issues.filter(
+							(issue) => issue.code !== 'CURRENCY_DEFAULTED'
+						)
+					);
+				}
+
+				const { valid } = toValidationResult(issues);
+				span.setAttribute('federation.valid', valid);
+				span.setStatus({ code: 1 }); 
+				return valid && draft.offer
+					? { ok: true, offer: draft.offer, origin: draft.origin, issues }
+					: { ok: false, origin: draft.origin, issues };
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
+	}
+
+	
+
+
+	private toSchemaNode(
+		offer: SchemaOffer,
+		mapping: TransactionMapping,
+		actionId: string
+	): SchemaOfferNode {
+		const target: EntryPoint = {
+			'@type': 'EntryPoint',
+			urlTemplate: offer.url as string
 		};
+
+		switch (mapping.schemaType) {
+			case 'BuyAction':
+				offer.potentialAction = {
+					'@type': 'BuyAction',
+					target,
+					seller: offer.seller
+				};
+				return offer;
+
+			case 'DonateAction': {
+				const action: SchemaDonateAction = {
+					...this.buildActionBase(offer, actionId, target),
+					'@type': 'DonateAction',
+					recipient: offer.seller!,
+					object: offer.itemOffered
+				};
+				return action;
+			}
+
+			case 'ReserveAction': {
+				const action: SchemaReserveAction = {
+					...this.buildActionBase(offer, actionId, target),
+					'@type': 'ReserveAction',
+					object: {
+						...offer.itemOffered!,
+						'@type': 'Service',
+						provider: offer.seller
+					}
+				};
+				return action;
+			}
+
+			default:
+				return offer;
+		}
+	}
+
+	
+
+
+	private buildActionBase(
+		offer: SchemaOffer,
+		actionId: string,
+		target: EntryPoint
+	): Omit<SchemaDonateAction, '@type' | 'recipient' | 'object'> {
+		const base: Omit<SchemaDonateAction, '@type' | 'recipient' | 'object'> = {
+			'@context': getNodeContext(),
+			'@id': actionId,
+			name: offer.name,
+			description: offer.description,
+			url: offer.url,
+			actionStatus: 'PotentialActionStatus',
+			target,
+			acceptedPaymentMethod: offer.acceptedPaymentMethod,
+			transactionType: offer.transactionType
+		};
+
+		if (offer.price !== undefined) {
+			base.price = offer.price;
+			base.priceCurrency = offer.priceCurrency;
+			base.priceSpecification = offer.priceSpecification;
+		}
+
+		if (offer.externalUrl) {
+			base.externalUrl = offer.externalUrl;
+		}
+
+		return base;
 	}
 
 	
 
 
 	private buildPriceSpec(
-		price: number | string,
+		transaction: TransactionConfig,
 		currency: string,
-		mapping: TransactionMapping
+		mapping: TransactionMapping,
+		seller: SellerProfile
 	): PriceSpecification {
-		const priceValue = typeof price === 'string' ? parseFloat(price) : price;
-
+		const price = resolveListedPrice(transaction) as number | string;
+		const isCrypto = isCryptoCurrency(currency);
 		const spec: PriceSpecification = {
-			'@type': mapping.isCryptocurrency
-				? 'UnitPriceSpecification'
-				: 'PriceSpecification',
-			price: priceValue,
+			'@type': isCrypto ? 'UnitPriceSpecification' : 'PriceSpecification',
+			price: toSchemaPrice(price, currency),
 			priceCurrency: currency
 		};
 
 		
-		if (!mapping.isCryptocurrency) {
-			spec.valueAddedTaxIncluded = false;
+		if (!isCrypto) {
+			spec.valueAddedTaxIncluded = transaction.taxIncluded ?? false;
+		}
+
+		const ranged = applyPriceRange(spec, transaction);
+
+		
+		const billed = mapping.isSubscription ? applyBilling(ranged, transaction) : ranged;
+		if (isCrypto) {
+			return billed;
 		}
 
-		return spec;
+		
+		const rule = findTaxRule(seller.region, transaction.buyerRegion ?? seller.region);
+		if (!rule) {
+			return billed;
+		}
+		const inclusive = transaction.taxIncluded ?? rule.inclusive ?? false;
+		return applyTax(billed, computeTax(price, currency, rule, inclusive));
 	}
 
 	
 
 
 	getPaymentMethods(transactionType: string): PaymentMethod[] {
-		const mapping = TRANSACTION_MAPPINGS[transactionType];
+		const mapping = this.registry.getMapping(transactionType);
 		return mapping?.paymentMethods || [];
 	}
 
 	
 
 
-	validateTransaction(transaction: TransactionConfig): ValidationResult {
-		const errors: string[] = [];
+	validateTransaction(transaction: TransactionConfig, path = '$'): ValidationResult {
+		const issues: ValidationIssue[] = [];
+		const at = (...segments: Array<string | number>) => joinPath(path, ...segments);
 
 		
-		const mapping = TRANSACTION_MAPPINGS[transaction.type];
-		if (!mapping) {
-			errors.push(`Unknown transaction type: ${transaction.type}`);
-			return { valid: false, errors };
+		const registration = this.registry.get(transaction.type);
+		if (!registration) {
+			issues.push(
+				createIssue('TYPE_UNKNOWN', at('type'), `Unknown transaction type: ${transaction.type}`, {
+					type: transaction.type,
+					allowed: this.registry.types()
+				})
+			);
+			return toValidationResult(issues);
+		}
+		const { mapping } = registration;
+		const rawCurrency: unknown = transaction.currency;
+		const currencyInvalid = rawCurrency !== undefined && typeof rawCurrency !== 'string';
+		if (currencyInvalid) {
+			transaction = { ...transaction, currency: undefined };
 		}
 
 		
 		if (mapping.requiresExternalUrl && !transaction.url) {
-			errors.push(
-				`Transaction type "${transaction.type}" requires an external URL`
+			issues.push(
+				createIssue(
+					'URL_REQUIRED',
+					at('url'),
+					`Transaction type "${transaction.type}" requires an external URL`,
+					{ type: transaction.type }
+				)
 			);
 		}
 
 		
 		if (transaction.url) {
-			try {
-				new URL(transaction.url);
-			} catch {
-				errors.push(`Invalid URL format: ${transaction.url}`);
-			}
+			issues.push(...validateUrl(transaction.url, registration.urlPolicy, at('url')));
 		}
 
 		
-		if (mapping.isMonetary && !transaction.price) {
-			errors.push(
-				`Monetary transaction type "${transaction.type}" requires a price`
+		if (
+			mapping.isMonetary &&
+			!transaction.price &&
+			!transaction.tiers?.length &&
+			!transaction.schedule?.length &&
+			!isPayWhatYouWant(transaction)
+		) {
+			issues.push(
+				createIssue(
+					'PRICE_REQUIRED',
+					at('price'),
+					`Monetary transaction type "${transaction.type}" requires a price`,
+					{ type: transaction.type }
+				)
+			);
+		} else if (
+			mapping.isMonetary &&
+			transaction.price === undefined &&
+			isPayWhatYouWant(transaction) &&
+			transaction.minPrice === undefined &&
+			transaction.suggestedPrices === undefined
+		) {
+			issues.push(
+				createIssue(
+					'PRICE_REQUIRED',
+					at('minPrice'),
+					`Pay-what-you-want transaction type "${transaction.type}" requires minPrice or suggestedPrices`,
+					{ type: transaction.type }
+				)
 			);
 		}
 
 		
 		if (transaction.price !== undefined) {
-			const priceValue =
-				typeof transaction.price === 'string'
-					? parseFloat(transaction.price)
-					: transaction.price;
-
-			if (isNaN(priceValue) || priceValue < 0) {
-				errors.push(`Invalid price: ${transaction.price}`);
+			const currency = transaction.currency || 'USD';
+			const money = Money.tryParse(transaction.price, currency);
+
+			if (!money || money.isNegative()) {
+				issues.push(
+					createIssue('PRICE_INVALID', at('price'), `Invalid price: ${transaction.price}`, {
+						value: transaction.price
+					})
+				);
+			} else if (!money.fitsMinorUnits()) {
+				issues.push(
+					createIssue(
+						'PRICE_PRECISION',
+						at('price'),
+						`Price ${money} has more decimal places than ${money.currency} allows`,
+						{
+							value: money.toString(),
+							currency: money.currency,
+							minorUnits: getMinorUnits(money.currency)
+						}
+					)
+				);
 			}
 		}
 
 		
-		if (mapping.isMonetary && transaction.currency) {
-			const validCurrencies = [
-				'USD',
-				'EUR',
-				'GBP',
-				'CAD',
-				'AUD',
-				'XMR',
-				'BTC',
-				'ETH'
-			];
-			if (!validCurrencies.includes(transaction.currency)) {
-				errors.push(
-					`Invalid currency: ${transaction.currency}. Must be one of: ${validCurrencies.join(', ')}`
+		if (currencyInvalid) {
+			issues.push(
+				createIssue('CURRENCY_INVALID', at('currency'), `Invalid currency: ${String(rawCurrency)}`, {
+					value: rawCurrency
+				})
+			);
+		} else if (mapping.isMonetary && transaction.currency) {
+			if (!isKnownCurrency(transaction.currency)) {
+				issues.push(
+					createIssue('CURRENCY_INVALID', at('currency'), `Invalid currency: ${transaction.currency}`, {
+						value: transaction.currency
+					})
+				);
+			} else if (mapping.isCryptocurrency && !isCryptoCurrency(transaction.currency)) {
+				issues.push(
+					createIssue(
+						'CURRENCY_NOT_CRYPTO',
+						at('currency'),
+						`Cryptocurrency transaction requires crypto currency, got: ${transaction.currency}`,
+						{ value: transaction.currency }
+					)
 				);
 			}
+		} else if (mapping.isMonetary && transaction.price !== undefined) {
+			issues.push(
+				createIssue(
+					'CURRENCY_DEFAULTED',
+					at('currency'),
+					'No currency given, defaulting to USD',
+					{ currency: 'USD' },
+					'warning'
+				)
+			);
 		}
 
 		
-		if (mapping.isCryptocurrency && transaction.currency) {
-			const cryptoCurrencies = ['XMR', 'BTC', 'ETH'];
-			if (!cryptoCurrencies.includes(transaction.currency)) {
-				errors.push(
-					`Cryptocurrency transaction requires crypto currency (XMR, BTC, ETH), got: ${transaction.currency}`
+		if (isPayWhatYouWant(transaction)) {
+			if (!mapping.allowsCustomAmount) {
+				const field =
+					transaction.minPrice !== undefined
+						? 'minPrice'
+						: transaction.maxPrice !== undefined
+							? 'maxPrice'
+							: 'suggestedPrices';
+				issues.push(
+					createIssue(
+						'CUSTOM_AMOUNT_UNSUPPORTED',
+						at(field),
+						`Transaction type "${transaction.type}" does not support pay-what-you-want pricing`,
+						{ type: transaction.type }
+					)
 				);
+			} else {
+				issues.push(...validatePriceRange(transaction, path));
 			}
 		}
 
-		return {
-			valid: errors.length === 0,
-			errors
-		};
+		
+		issues.push(...validateSchedule(transaction, path));
+
+		
+		issues.push(...this.validateBilling(transaction, mapping, path));
+
+		
+		if (transaction.taxIncluded !== undefined && typeof transaction.taxIncluded !== 'boolean') {
+			issues.push(
+				createIssue(
+					'TAX_FLAG_INVALID',
+					at('taxIncluded'),
+					`Invalid taxIncluded flag: ${transaction.taxIncluded}`,
+					{ value: transaction.taxIncluded }
+				)
+			);
+		}
+		if (
+			transaction.buyerRegion !== undefined &&
+			(typeof transaction.buyerRegion !== 'string' ||
+				(!/^[A-Z]{2}$/i.test(transaction.buyerRegion) &&
+					!Object.hasOwn(TAX_REGION_GROUPS, transaction.buyerRegion.toUpperCase())))
+		) {
+			issues.push(
+				createIssue(
+					'REGION_INVALID',
+					at('buyerRegion'),
+					`Invalid buyer region: ${String(transaction.buyerRegion)}`,
+					{ value: transaction.buyerRegion }
+				)
+			);
+		}
+
+		
+		if (transaction.seller !== undefined) {
+			issues.push(...validateSellerReference(transaction.seller, at('seller')));
+		}
+
+		
+		if (registration.validate) {
+			issues.push(...prefixIssues(toValidationIssues(registration.validate(transaction)), path));
+		}
+
+		return toValidationResult(issues);
 	}
 
 	
 
 
-	private getRequiredAction(transactionType: string): string {
-		const actions: Record<string, string> = {
-			inquiry: 'contact',
-			repository: 'view-source',
-			documentation: 'read-docs',
-			'contribute-to-consume': 'contribute'
-		};
-		return actions[transactionType] || 'visit';
+	validateProduct(product: ProductItem): ValidationResult {
+		return this.tracer.startActiveSpan('OfferBuilderService.validateProduct', (span) => {
+			try {
+				const issues: ValidationIssue[] = [];
+				const isRecord = (value: unknown): value is Record<string, unknown> =>
+					typeof value === 'object' && value !== null && !Array.isArray(value);
+				const hasType = (
+					value: Record<string, unknown>
+				): value is Record<string, unknown> & TransactionConfig =>
+					typeof value.type === 'string' && value.type !== '';
+
+				if (!isRecord(product)) {
+					issues.push(createIssue('PRODUCT_INVALID', '$', 'Product must be an object'));
+					span.setStatus({ code: 1 }); 
+					return toValidationResult(issues);
+				}
+				span.setAttribute('product.slug', String(product.slug));
+
+				
+				if (typeof product.slug !== 'string' || !product.slug) {
+					issues.push(createIssue('PRODUCT_INVALID', '$.slug', 'Product requires a slug'));
+				}
+				if (!isRecord(product.frontmatter)) {
+					issues.push(
+						createIssue('FRONTMATTER_INVALID', '$.frontmatter', 'Product frontmatter must be an object')
+					);
+					span.setStatus({ code: 1 }); 
+					return toValidationResult(issues);
+				}
+				const fm = product.frontmatter;
+
+				
+				if (!fm.name && !fm.title && !product.title) {
+					issues.push(
+						createIssue('NAME_REQUIRED', '$.frontmatter.name', 'Product requires a name or title', {
+							fields: ['name', 'title']
+						})
+					);
+				}
+
+				
+				if (fm.seller !== undefined) {
+					issues.push(...validateSellerReference(fm.seller, '$.frontmatter.seller'));
+				}
+
+				
+				if (fm.transactions === undefined) {
+					span.setStatus({ code: 1 }); 
+					return toValidationResult(issues);
+				}
+				if (!Array.isArray(fm.transactions)) {
+					issues.push(
+						createIssue(
+							'TRANSACTIONS_INVALID',
+							'$.frontmatter.transactions',
+							'Product transactions must be a list',
+							{ received: typeof fm.transactions }
+						)
+					);
+					span.setStatus({ code: 1 }); 
+					return toValidationResult(issues);
+				}
+
+				const firstByType = new Map<string, number>();
+				const firstByPriority = new Map<number, number>();
+				(fm.transactions as unknown[]).forEach((entry, index) => {
+					const path = joinPath('$.frontmatter.transactions', index);
+					const found: ValidationIssue[] = [];
+
+					if (!isRecord(entry)) {
+						found.push(createIssue('TRANSACTION_INVALID', path, 'Transaction must be an object'));
+						issues.push(...found.map((issue) => ({ ...issue, index })));
+						return;
+					}
+
+					
+					for (const key of Object.keys(entry)) {
+						if ((TRANSACTION_CONFIG_KEYS as string[]).includes(key)) continue;
+						const suggestion = suggestKey(key, TRANSACTION_CONFIG_KEYS);
+						found.push(
+							createIssue(
+								'UNKNOWN_KEY',
+								joinPath(path, key),
+								suggestion
+									? `Unknown transaction key "${key}" (did you mean "${suggestion}"?)`
+									: `Unknown transaction key "${key}"`,
+								suggestion ? { key, suggestion } : { key },
+								'warning'
+							)
+						);
+					}
+
+					
+					if (typeof entry.enabled !== 'boolean') {
+						found.push(
+							createIssue(
+								'ENABLED_INVALID',
+								joinPath(path, 'enabled'),
+								entry.enabled === undefined
+									? 'Transaction requires an enabled flag'
+									: `Invalid enabled flag: ${String(entry.enabled)}`,
+								{ value: entry.enabled }
+							)
+						);
+					}
+
+					
+					if (entry.priority !== undefined) {
+						if (typeof entry.priority !== 'number' || !Number.isFinite(entry.priority)) {
+							found.push(
+								createIssue(
+									'PRIORITY_INVALID',
+									joinPath(path, 'priority'),
+									`Invalid priority: ${String(entry.priority)}`,
+									{ value: entry.priority }
+								)
+							);
+						} else if (entry.enabled === true) {
+							const other = firstByPriority.get(entry.priority);
+							if (other !== undefined) {
+								found.push(
+									createIssue(
+										'PRIORITY_CONFLICT',
+										joinPath(path, 'priority'),
+										`Priority ${entry.priority} is already used by transaction #${other + 1}`,
+										{ priority: entry.priority, conflictsWith: other },
+										'warning'
+									)
+								);
+							} else {
+								firstByPriority.set(entry.priority, index);
+							}
+						}
+					}
+
+					
+					if (!hasType(entry)) {
+						found.push(
+							createIssue('TYPE_REQUIRED', joinPath(path, 'type'), 'Transaction requires a type')
+						);
+					} else {
+						const other = firstByType.get(entry.type);
+						if (other !== undefined) {
+							found.push(
+								createIssue(
+									'TYPE_DUPLICATE',
+									joinPath(path, 'type'),
+									`Duplicate transaction type "${entry.type}" (first used by transaction #${other + 1})`,
+									{ type: entry.type, duplicateOf: other }
+								)
+							);
+						} else {
+							firstByType.set(entry.type, index);
+						}
+						found.push(...this.validateTransaction(entry, path).issues);
+					}
+
+					issues.push(...found.map((issue) => ({ ...issue, index })));
+				});
+
+				const result = toValidationResult(issues);
+				span.setAttribute('validation.errors', result.errors.length);
+				span.setAttribute('validation.warnings', result.warnings.length);
+				span.setStatus({ code: 1 }); 
+				return result;
+			} catch (error) {
+				span.recordException(error as Error);
+				span.setStatus({ code: 2, message: (error as Error).message }); 
+				throw error;
+			} finally {
+				span.end();
+			}
+		});
 	}
 
 	
 
 
-	private getTransactionDisplayName(transactionType: string): string {
-		const names: Record<string, string> = {
-			inquiry: 'Contact',
-			ebay: 'eBay',
-			etsy: 'Etsy',
-			amazon: 'Amazon',
-			'snail-mail': 'Mail Order',
-			monero: 'Monero',
-			stripe: 'Credit Card',
-			polar: 'Polar Subscription',
-			talar: 'GNU Taler',
-			repository: 'Source Code',
-			documentation: 'Documentation',
-			booking: 'Book Appointment',
-			liberapay: 'Liberapay',
-			kofi: 'Ko-fi',
-			'contribute-to-consume': 'Contribute to Access'
+	private validateBilling(
+		transaction: TransactionConfig,
+		mapping: TransactionMapping,
+		path: string
+	): ValidationIssue[] {
+		const issues: ValidationIssue[] = [];
+		const hasBilling =
+			transaction.billingDuration !== undefined ||
+			transaction.billingIncrement !== undefined ||
+			transaction.trial !== undefined ||
+			transaction.tiers !== undefined;
+
+		if (hasBilling && !mapping.isSubscription) {
+			issues.push(
+				createIssue(
+					'BILLING_UNSUPPORTED',
+					joinPath(path, transaction.tiers !== undefined ? 'tiers' : 'billingDuration'),
+					`Transaction type "${transaction.type}" does not support subscription billing`,
+					{ type: transaction.type }
+				)
+			);
+			return issues;
+		}
+
+		const checkPeriod = (
+			source: Pick<TransactionConfig, 'billingDuration' | 'billingIncrement' | 'trial'>,
+			label: string,
+			at: string
+		) => {
+			if (source.billingDuration !== undefined && !isBillingPeriod(source.billingDuration)) {
+				issues.push(
+					createIssue(
+						'BILLING_DURATION_INVALID',
+						joinPath(at, 'billingDuration'),
+						`Invalid billing duration${label}: ${source.billingDuration}`,
+						{ value: source.billingDuration, allowed: Object.keys(BILLING_UNIT_CODES) }
+					)
+				);
+			}
+			if (
+				source.billingIncrement !== undefined &&
+				!(Number.isInteger(source.billingIncrement) && source.billingIncrement > 0)
+			) {
+				issues.push(
+					createIssue(
+						'BILLING_INCREMENT_INVALID',
+						joinPath(at, 'billingIncrement'),
+						`Invalid billing increment${label}: ${source.billingIncrement}`,
+						{ value: source.billingIncrement }
+					)
+				);
+			}
+			if (source.trial) {
+				const { duration, unit, price } = source.trial;
+				if (!(Number.isInteger(duration) && duration > 0) || !isBillingPeriod(unit)) {
+					issues.push(
+						createIssue(
+							'TRIAL_INVALID',
+							joinPath(at, 'trial'),
+							`Invalid trial period${label}: ${duration} ${unit}`,
+							{ duration, unit }
+						)
+					);
+				}
+				const trialPrice =
+					price === undefined ? undefined : Money.tryParse(price, transaction.currency || 'USD');
+				if (price !== undefined && (!trialPrice || trialPrice.isNegative())) {
+					issues.push(
+						createIssue(
+							'TRIAL_PRICE_INVALID',
+							joinPath(at, 'trial', 'price'),
+							`Invalid trial price${label}: ${price}`,
+							{ value: price }
+						)
+					);
+				}
+			}
 		};
-		return names[transactionType] || transactionType;
+
+		checkPeriod(transaction, '', path);
+
+		if (transaction.tiers !== undefined) {
+			const tiersPath = joinPath(path, 'tiers');
+			if (!Array.isArray(transaction.tiers) || transaction.tiers.length === 0) {
+				issues.push(
+					createIssue('TIERS_EMPTY', tiersPath, 'Subscription tiers must be a non-empty list')
+				);
+				return issues;
+			}
+
+			const seen = new Set<string>();
+			transaction.tiers.forEach((tier, index) => {
+				const tierPath = joinPath(tiersPath, index);
+				if (typeof tier !== 'object' || tier === null || Array.isArray(tier)) {
+					issues.push(
+						createIssue(
+							'TIER_INVALID',
+							tierPath,
+							`Subscription tier #${index + 1} must be an object`,
+							{ received: tier === null ? 'null' : typeof tier }
+						)
+					);
+					return;
+				}
+				if (typeof tier.name !== 'string' || !tier.name.trim()) {
+					issues.push(
+						createIssue(
+							'TIER_NAME_REQUIRED',
+							joinPath(tierPath, 'name'),
+							'Subscription tier requires a name',
+							tier.name === undefined ? {} : { received: typeof tier.name }
+						)
+					);
+					return;
+				}
+				const id = getTierId(tier);
+				if (seen.has(id)) {
+					issues.push(
+						createIssue(
+							'TIER_DUPLICATE',
+							joinPath(tierPath, 'name'),
+							`Duplicate subscription tier: ${id}`,
+							{ tier: id }
+						)
+					);
+				}
+				seen.add(id);
+
+				const money = Money.tryParse(tier.price, transaction.currency || 'USD');
+				if (!money || money.isNegative() || money.isZero()) {
+					issues.push(
+						createIssue(
+							'TIER_PRICE_INVALID',
+							joinPath(tierPath, 'price'),
+							`Invalid price for tier "${tier.name}": ${tier.price}`,
+							{ tier: id, value: tier.price }
+						)
+					);
+				}
+				checkPeriod(tier, ` for tier "${tier.name}"`, tierPath);
+			});
+		}
+
+		if (
+			transaction.billingDuration === undefined &&
+			(transaction.billingIncrement !== undefined || transaction.trial !== undefined)
+		) {
+			issues.push(
+				createIssue(
+					'BILLING_DURATION_REQUIRED',
+					joinPath(path, 'billingDuration'),
+					'Billing increment and trial require a billing duration'
+				)
+			);
+		}
+
+		return issues;
+	}
+	
+
+
+	private getRequiredAction(transactionType: string): string {
+		return this.registry.get(transactionType)?.requiredAction || 'visit';
 	}
 
 	
@@ -340,9 +1611,9 @@ export class OfferBuilderService {
 		isSubscription: boolean;
 		requiresExternalUrl: boolean;
 	}> {
-		return Object.entries(TRANSACTION_MAPPINGS).map(([type, mapping]) => ({
-			type,
-			displayName: this.getTransactionDisplayName(type),
+		return this.registry.list().map(({ mapping, displayName }) => ({
+			type: mapping.transactionType,
+			displayName,
 			isMonetary: mapping.isMonetary,
 			isDonation: mapping.isDonation,
 			isSubscription: mapping.isSubscription,
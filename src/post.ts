@@ -0,0 +1,225 @@
+import { toPlainText } from './inbound.js';
+import { escapeHtml } from './markup.js';
+import { formatOfferPrice } from './pricing.js';
+import { isUrlAllowed } from './urls.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	PostFormat,
+	PostOptions,
+	PostRenderResult,
+	SchemaItem,
+	SchemaOfferNode
+} from './types.js';
+
+export const DEFAULT_POST_LIMIT = 500;
+
+export const MASTODON_URL_LENGTH = 23;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+
+interface PostLine {
+	id: string;
+	label: string;
+	price?: string;
+	url?: string;
+}
+
+interface PostModel {
+	title: string;
+	intro?: string;
+	lines: PostLine[];
+	more?: { label: string; url?: string };
+	hashtags: string[];
+}
+
+
+
+
+export function countPostLength(text: string, urlLength = MASTODON_URL_LENGTH): number {
+	return [...text.replace(URL_PATTERN, 'x'.repeat(urlLength))].length;
+}
+
+
+
+
+function singleLine(value: string): string {
+	return toPlainText(value).replace(/\s+/g, ' ').trim();
+}
+
+
+
+
+function truncateText(value: string, length: number): string {
+	const chars = [...value];
+	if (chars.length <= length) return value;
+	return `${chars.slice(0, Math.max(length - 1, 0)).join('').trimEnd()}…`;
+}
+
+
+
+
+function escapeMarkdown(value: string): string {
+	return value.replace(/([\\`*_[\]()#>~|])/g, '\\$1');
+}
+
+
+
+
+function renderText(model: PostModel): string {
+	const blocks = [model.title];
+	if (model.intro) blocks.push(model.intro);
+	if (model.lines.length) {
+		const items = model.lines.map((line) => {
+			const details = [line.price, line.url].filter(Boolean).join(' ');
+			return details ? `• ${line.label}: ${details}` : `• ${line.label}`;
+		});
+		blocks.push(items.join('\n'));
+	}
+	if (model.more) {
+		blocks.push(model.more.url ? `${model.more.label}: ${model.more.url}` : model.more.label);
+	}
+	if (model.hashtags.length) blocks.push(model.hashtags.join(' '));
+	return blocks.join('\n\n');
+}
+
+
+
+
+function renderMarkdown(model: PostModel): string {
+	const blocks = [`**${escapeMarkdown(model.title)}**`];
+	if (model.intro) blocks.push(escapeMarkdown(model.intro));
+	if (model.lines.length) {
+		blocks.push(
+			model.lines
+				.map((line) => {
+					const label = escapeMarkdown(line.label);
+					const link = line.url ? `[${label}](${line.url})` : label;
+					return line.price ? `- ${link}: ${escapeMarkdown(line.price)}` : `- ${link}`;
+				})
+				.join('\n')
+		);
+	}
+	if (model.more) {
+		const label = escapeMarkdown(model.more.label);
+		blocks.push(model.more.url ? `[${label}](${model.more.url})` : label);
+	}
+	if (model.hashtags.length) blocks.push(model.hashtags.join(' '));
+	return blocks.join('\n\n');
+}
+
+
+
+
+function renderHtml(model: PostModel): string {
+	const link = (url: string, label: string) =>
+		`<a href="${escapeHtml(url)}" rel="nofollow noopener noreferrer" target="_blank">` +
+		`${escapeHtml(label)}</a>`;
+	const blocks = [`<p><strong>${escapeHtml(model.title)}</strong></p>`];
+	if (model.intro) blocks.push(`<p>${escapeHtml(model.intro)}</p>`);
+	if (model.lines.length) {
+		const items = model.lines.map((line) => {
+			const label = line.url ? link(line.url, line.label) : escapeHtml(line.label);
+			return `<li>${line.price ? `${label}: ${escapeHtml(line.price)}` : label}</li>`;
+		});
+		blocks.push(`<ul>${items.join('')}</ul>`);
+	}
+	if (model.more) {
+		const { label, url } = model.more;
+		blocks.push(`<p>${url ? link(url, label) : escapeHtml(label)}</p>`);
+	}
+	if (model.hashtags.length) blocks.push(`<p>${escapeHtml(model.hashtags.join(' '))}</p>`);
+	return blocks.join('');
+}
+
+
+
+
+function renderModel(model: PostModel, format: PostFormat): string {
+	switch (format) {
+		case 'markdown':
+			return renderMarkdown(model);
+		case 'html':
+			return renderHtml(model);
+		default:
+			return renderText(model);
+	}
+}
+
+
+
+
+export function renderOfferPost(
+	item: SchemaItem,
+	offers: SchemaOfferNode[],
+	registry: TransactionRegistry,
+	options: PostOptions = {}
+): PostRenderResult {
+	const format = options.format ?? 'text';
+	const limit = options.limit ?? DEFAULT_POST_LIMIT;
+	const urlLength = options.urlLength ?? MASTODON_URL_LENGTH;
+	const safe = (url: string | undefined) => (url && isUrlAllowed(url) ? url : undefined);
+
+	const lines: PostLine[] = offers.map((offer) => {
+		const mapping = registry.getMapping(offer.transactionType);
+		return {
+			id: offer['@id'],
+			label: singleLine(registry.get(offer.transactionType)?.displayName ?? offer.name),
+			price: mapping?.isMonetary ? formatOfferPrice(offer) : undefined,
+			url: safe(offer.externalUrl ?? offer.url)
+		};
+	});
+	const hashtags = (options.hashtags ?? [])
+		.map((tag) => tag.replace(/[^\p{L}\p{N}_]/gu, ''))
+		.filter(Boolean)
+		.map((tag) => `#${tag}`);
+	const moreUrl = safe(options.moreUrl ?? item.url);
+	const base = {
+		title: singleLine(options.title ?? item.name),
+		intro: options.intro === undefined ? undefined : singleLine(options.intro) || undefined,
+		hashtags
+	};
+
+	const measure = (model: PostModel) =>
+		countPostLength(format === 'html' ? renderText(model) : renderModel(model, format), urlLength);
+	const toModel = (count: number): PostModel => {
+		const omitted = lines.length - count;
+		return {
+			...base,
+			hashtags: [...base.hashtags],
+			lines: lines.slice(0, count),
+			more:
+				omitted > 0
+					? {
+							label: options.moreLabel ?? `${omitted} more option${omitted === 1 ? '' : 's'}`,
+							url: moreUrl
+						}
+					: undefined
+		};
+	};
+	const toResult = (model: PostModel): PostRenderResult => ({
+		body: renderModel(model, format),
+		length: measure(model),
+		included: model.lines.map((line) => line.id),
+		omitted: lines.slice(model.lines.length).map((line) => line.id)
+	});
+
+	
+	for (let count = lines.length; count > 0; count--) {
+		const model = toModel(count);
+		if (measure(model) <= limit) return toResult(model);
+	}
+
+	
+	const model = toModel(0);
+	const overflow = () => measure(model) - limit;
+	while (model.hashtags.length && overflow() > 0) model.hashtags.pop();
+	while (model.intro && overflow() > 0) {
+		const length = [...model.intro].length - overflow();
+		model.intro = length > 1 ? truncateText(model.intro, length) : undefined;
+	}
+	if (model.more && measure({ ...model, title: '…' }) > limit) model.more = undefined;
+	while ([...model.title].length > 1 && overflow() > 0) {
+		model.title = truncateText(model.title, Math.max([...model.title].length - overflow(), 1));
+	}
+	return toResult(model);
+}
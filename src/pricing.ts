@@ -0,0 +1,189 @@
+import { findRecurringSpec, formatBillingSuffix } from './billing.js';
+import { formatPrice, getMinorUnits } from './currencies.js';
+import { Money, toSchemaPrice } from './money.js';
+import type {
+	PriceSpecification,
+	SchemaOffer,
+	TransactionConfig,
+	ValidationIssue
+} from './types.js';
+import { createIssue, joinPath } from './validation.js';
+
+
+
+
+export function isPayWhatYouWant(transaction: TransactionConfig): boolean {
+	return (
+		transaction.minPrice !== undefined ||
+		transaction.maxPrice !== undefined ||
+		transaction.suggestedPrices !== undefined
+	);
+}
+
+
+
+
+export function resolveListedPrice(transaction: TransactionConfig): number | string | undefined {
+	if (transaction.price !== undefined) return transaction.price;
+	if (!isPayWhatYouWant(transaction)) return undefined;
+	return transaction.suggestedPrices?.[0] ?? transaction.minPrice;
+}
+
+
+
+
+export function applyPriceRange(
+	spec: PriceSpecification,
+	transaction: TransactionConfig
+): PriceSpecification {
+	if (!isPayWhatYouWant(transaction)) {
+		return spec;
+	}
+
+	const next: PriceSpecification = { ...spec };
+	if (transaction.minPrice !== undefined) {
+		next.minPrice = toSchemaPrice(transaction.minPrice, spec.priceCurrency);
+	}
+	if (transaction.maxPrice !== undefined) {
+		next.maxPrice = toSchemaPrice(transaction.maxPrice, spec.priceCurrency);
+	}
+	if (transaction.suggestedPrices?.length) {
+		next.suggestedPrices = transaction.suggestedPrices.map((p) =>
+			toSchemaPrice(p, spec.priceCurrency)
+		);
+	}
+	return next;
+}
+
+
+
+
+export function formatPriceRange(spec: PriceSpecification): string | undefined {
+	const { minPrice, maxPrice, priceCurrency } = spec;
+	if (minPrice !== undefined && maxPrice !== undefined) {
+		return `${formatPrice(minPrice, priceCurrency)} to ${formatPrice(maxPrice, priceCurrency)}`;
+	}
+	if (minPrice !== undefined) {
+		return `from ${formatPrice(minPrice, priceCurrency)}`;
+	}
+	if (maxPrice !== undefined) {
+		return `up to ${formatPrice(maxPrice, priceCurrency)}`;
+	}
+	if (spec.suggestedPrices?.length) {
+		return `${formatPrice(spec.suggestedPrices[0], priceCurrency)} suggested`;
+	}
+	return undefined;
+}
+
+
+
+
+export function formatOfferPrice(
+	offer: Pick<SchemaOffer, 'price' | 'priceCurrency' | 'priceSpecification'>
+): string | undefined {
+	if (offer.price === undefined) return undefined;
+	const range = [offer.priceSpecification, findRecurringSpec(offer.priceSpecification)]
+		.map((spec) => spec && formatPriceRange(spec))
+		.find(Boolean);
+	const amount = range ?? formatPrice(offer.price, offer.priceCurrency || 'USD');
+	return amount + formatBillingSuffix(offer.priceSpecification);
+}
+
+
+
+
+export function validatePriceRange(
+	transaction: TransactionConfig,
+	path = '$'
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const currency = transaction.currency || 'USD';
+
+	const parse = (
+		value: number | string,
+		label: string,
+		at: string
+	): Money | undefined => {
+		const money = Money.tryParse(value, currency);
+		if (!money || money.isNegative()) {
+			issues.push(createIssue('PRICE_INVALID', at, `Invalid ${label}: ${value}`, { value }));
+			return undefined;
+		}
+		if (!money.fitsMinorUnits()) {
+			issues.push(
+				createIssue(
+					'PRICE_PRECISION',
+					at,
+					`${label} ${money} has more decimal places than ${money.currency} allows`,
+					{
+						value: money.toString(),
+						currency: money.currency,
+						minorUnits: getMinorUnits(money.currency)
+					}
+				)
+			);
+			return undefined;
+		}
+		return money;
+	};
+
+	const min =
+		transaction.minPrice !== undefined
+			? parse(transaction.minPrice, 'minPrice', joinPath(path, 'minPrice'))
+			: undefined;
+	const max =
+		transaction.maxPrice !== undefined
+			? parse(transaction.maxPrice, 'maxPrice', joinPath(path, 'maxPrice'))
+			: undefined;
+
+	if (min && max && min.compare(max) > 0) {
+		issues.push(
+			createIssue(
+				'PRICE_RANGE_INVALID',
+				joinPath(path, 'minPrice'),
+				`minPrice ${min} must not exceed maxPrice ${max}`,
+				{ min: min.toString(), max: max.toString() }
+			)
+		);
+	}
+
+	const inRange = (money: Money, label: string, at: string) => {
+		if (min && money.compare(min) < 0) {
+			issues.push(
+				createIssue('PRICE_OUT_OF_RANGE', at, `${label} ${money} is below minPrice ${min}`, {
+					value: money.toString(),
+					min: min.toString()
+				})
+			);
+		}
+		if (max && money.compare(max) > 0) {
+			issues.push(
+				createIssue('PRICE_OUT_OF_RANGE', at, `${label} ${money} is above maxPrice ${max}`, {
+					value: money.toString(),
+					max: max.toString()
+				})
+			);
+		}
+	};
+
+	if (transaction.suggestedPrices !== undefined) {
+		const at = joinPath(path, 'suggestedPrices');
+		if (!Array.isArray(transaction.suggestedPrices) || transaction.suggestedPrices.length === 0) {
+			issues.push(
+				createIssue('SUGGESTED_PRICES_EMPTY', at, 'suggestedPrices must be a non-empty list')
+			);
+		} else {
+			transaction.suggestedPrices.forEach((value, index) => {
+				const money = parse(value, 'suggested price', joinPath(at, index));
+				if (money) inRange(money, 'Suggested price', joinPath(at, index));
+			});
+		}
+	}
+
+	if (transaction.price !== undefined) {
+		const money = Money.tryParse(transaction.price, currency);
+		if (money && !money.isNegative()) inRange(money, 'Price', joinPath(path, 'price'));
+	}
+
+	return issues;
+}
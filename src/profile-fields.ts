@@ -0,0 +1,195 @@
+import { escapeHtml } from './markup.js';
+import { formatOfferPrice } from './pricing.js';
+import { isUrlAllowed } from './urls.js';
+import type { TransactionRegistry } from './transaction-registry.js';
+import type {
+	ActivityPubPropertyValue,
+	ProfileFieldOptions,
+	ProfileFieldSelection,
+	ProfileFieldStrategy,
+	SchemaOfferNode,
+	TransactionMapping
+} from './types.js';
+
+export const MASTODON_FIELD_LIMIT = 4;
+
+export const MASTODON_FIELD_VALUE_LENGTH = 255;
+
+const LINK_DISPLAY_LENGTH = 30;
+
+export interface AttachmentParts {
+	name: string;
+	label: string;
+	price?: string;
+	url?: string;
+}
+
+
+
+
+export function toAttachmentParts(
+	offer: SchemaOfferNode,
+	registry: TransactionRegistry
+): AttachmentParts {
+	const registration = registry.get(offer.transactionType);
+	const parts: AttachmentParts = {
+		name: registration?.displayName || offer.transactionType,
+		label: offer.name
+	};
+	const price = registration?.mapping.isMonetary ? formatOfferPrice(offer) : undefined;
+	if (price) parts.price = price;
+	if (offer.externalUrl) parts.url = offer.externalUrl;
+	return parts;
+}
+
+
+
+
+export function formatAttachmentText(parts: Omit<AttachmentParts, 'name'>): string {
+	const text = [parts.label, parts.price].filter(Boolean).join(' - ');
+	if (!parts.url) return text;
+	return text ? `${text} (${parts.url})` : parts.url;
+}
+
+
+
+
+export function toMastodonLink(url: string): string {
+	const prefix = url.match(/^https?:\/\/(?:www\.)?/)?.[0] ?? '';
+	const rest = url.slice(prefix.length);
+	const display = rest.slice(0, LINK_DISPLAY_LENGTH);
+	const hidden = rest.slice(LINK_DISPLAY_LENGTH);
+	const attributes = 'target="_blank" rel="nofollow noopener noreferrer me" translate="no"';
+	return (
+		`<a href="${escapeHtml(url)}" ${attributes}>` +
+		`<span class="invisible">${escapeHtml(prefix)}</span>` +
+		`<span class="${hidden ? 'ellipsis' : ''}">${escapeHtml(display)}</span>` +
+		`<span class="invisible">${escapeHtml(hidden)}</span></a>`
+	);
+}
+
+
+
+
+export function formatAttachmentHtml(parts: Omit<AttachmentParts, 'name'>): string {
+	const text = escapeHtml(formatAttachmentText({ ...parts, url: undefined }));
+	const link = parts.url && toMastodonLink(parts.url);
+	return link ? (text ? `${text} (${link})` : link) : text;
+}
+
+
+
+
+function truncateLabel(label: string, length: number): string {
+	const chars = [...label];
+	if (chars.length <= length) return label;
+	return length <= 1 ? '' : `${chars.slice(0, length - 1).join('').trimEnd()}…`;
+}
+
+
+
+
+export function shortenAttachmentParts(
+	parts: Omit<AttachmentParts, 'name'>,
+	maxLength = MASTODON_FIELD_VALUE_LENGTH,
+	format: ProfileFieldOptions['format'] = 'text'
+): Omit<AttachmentParts, 'name'> | undefined {
+	const render = format === 'html' ? formatAttachmentHtml : formatAttachmentText;
+	const measure = (candidate: Omit<AttachmentParts, 'name'>) => [...render(candidate)].length;
+	const fits = (candidate: Omit<AttachmentParts, 'name'>) => measure(candidate) <= maxLength;
+	const withLabel = (candidate: Omit<AttachmentParts, 'name'>) => {
+		let length = maxLength - (measure({ ...candidate, label: 'x' }) - 1);
+		while (length > 1) {
+			const label = truncateLabel(parts.label, length);
+			if (!label) return undefined;
+			const overflow = measure({ ...candidate, label }) - maxLength;
+			if (overflow <= 0) return { ...candidate, label };
+			length -= overflow;
+		}
+		return undefined;
+	};
+
+	const candidates = [
+		parts,
+		withLabel(parts),
+		{ label: '', price: parts.price, url: parts.url },
+		{ label: '', url: parts.url },
+		withLabel({ ...parts, url: undefined })
+	];
+	return candidates.find(
+		(candidate): candidate is Omit<AttachmentParts, 'name'> =>
+			candidate !== undefined && formatAttachmentText(candidate) !== '' && fits(candidate)
+	);
+}
+
+
+
+
+function rankOffer(
+	offer: SchemaOfferNode,
+	mapping: TransactionMapping | undefined,
+	strategy: ProfileFieldStrategy
+): number {
+	if (strategy === 'monetary-first') return mapping?.isMonetary ? 0 : 1;
+	if (strategy === 'privacy-first') {
+		if (mapping?.isCryptocurrency || offer.acceptedPaymentMethod?.includes('Cash')) return 0;
+		return offer.externalUrl ? 2 : 1;
+	}
+	return 0;
+}
+
+
+
+
+export function selectProfileFields(
+	offers: SchemaOfferNode[],
+	registry: TransactionRegistry,
+	options: ProfileFieldOptions = {}
+): ProfileFieldSelection {
+	const limit = options.limit ?? MASTODON_FIELD_LIMIT;
+	const maxLength = options.maxValueLength ?? MASTODON_FIELD_VALUE_LENGTH;
+	const strategy = options.strategy ?? 'priority';
+	const selection: ProfileFieldSelection = { fields: [], selected: [], skipped: [] };
+
+	const ranked = offers
+		.map((offer, position) => ({
+			offer,
+			position,
+			rank: rankOffer(offer, registry.getMapping(offer.transactionType), strategy)
+		}))
+		.sort((a, b) => a.rank - b.rank || a.position - b.position);
+
+	
+	const seenNames = new Set<string>();
+	const seenUrls = new Set<string>();
+	for (const { offer } of ranked) {
+		const id = offer['@id'];
+		const { name, ...parts } = toAttachmentParts(offer, registry);
+		const url = parts.url && isUrlAllowed(parts.url) ? parts.url : undefined;
+		if (seenNames.has(name.toLowerCase()) || (url && seenUrls.has(url))) {
+			selection.skipped.push({ id, reason: 'duplicate' });
+			continue;
+		}
+		if (selection.fields.length >= limit) {
+			selection.skipped.push({ id, reason: 'limit' });
+			continue;
+		}
+		const format = options.format ?? 'html';
+		const shortened = shortenAttachmentParts({ ...parts, url }, maxLength, format);
+		if (!shortened) {
+			selection.skipped.push({ id, reason: 'length' });
+			continue;
+		}
+
+		seenNames.add(name.toLowerCase());
+		if (url) seenUrls.add(url);
+		const field: ActivityPubPropertyValue = {
+			type: 'PropertyValue',
+			name: truncateLabel(name, maxLength),
+			value: format === 'html' ? formatAttachmentHtml(shortened) : formatAttachmentText(shortened)
+		};
+		selection.fields.push(field);
+		selection.selected.push(id);
+	}
+	return selection;
+}
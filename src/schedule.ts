@@ -0,0 +1,196 @@
+import { Money } from './money.js';
+import type {
+	OfferAvailability,
+	ScheduledPrice,
+	TransactionConfig,
+	ValidationIssue
+} from './types.js';
+import { createIssue, joinPath } from './validation.js';
+
+export const SCHEDULED_PRICE_TYPES: Record<NonNullable<ScheduledPrice['kind']>, string> = {
+	regular: 'https://schema.org/ListPrice',
+	sale: 'https://schema.org/SalePrice',
+	launch: 'https://schema.org/SalePrice'
+};
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+
+
+export function parseScheduleDate(value: string | Date | undefined): number | undefined {
+	if (value === undefined) return undefined;
+	const time = value instanceof Date ? value.getTime() : Date.parse(value);
+	return Number.isNaN(time) ? undefined : time;
+}
+
+
+
+
+export function parseScheduleEnd(value: string | Date | undefined): number | undefined {
+	const time = parseScheduleDate(value);
+	if (time === undefined) return undefined;
+	return typeof value === 'string' && DATE_ONLY_PATTERN.test(value.trim()) ? time + DAY_MS : time + 1;
+}
+
+
+
+
+export function isActiveAt(entry: ScheduledPrice, asOf: Date): boolean {
+	const now = asOf.getTime();
+	const from = parseScheduleDate(entry.validFrom);
+	const until = parseScheduleEnd(entry.validThrough);
+	return (from === undefined || from <= now) && (until === undefined || now < until);
+}
+
+
+
+
+export function resolveScheduledPrice(
+	transaction: TransactionConfig,
+	asOf: Date
+): ScheduledPrice | undefined {
+	const active = (transaction.schedule ?? []).filter((entry) => isActiveAt(entry, asOf));
+
+	return active.sort((a, b) => {
+		const fromA = parseScheduleDate(a.validFrom) ?? -Infinity;
+		const fromB = parseScheduleDate(b.validFrom) ?? -Infinity;
+		if (fromA !== fromB) return fromB - fromA;
+		const throughA = parseScheduleEnd(a.validThrough) ?? Infinity;
+		const throughB = parseScheduleEnd(b.validThrough) ?? Infinity;
+		return throughA - throughB;
+	})[0];
+}
+
+
+
+
+export function resolveScheduledAvailability(
+	transaction: TransactionConfig,
+	fallback: OfferAvailability,
+	asOf: Date
+): OfferAvailability {
+	if (transaction.availability) return transaction.availability;
+
+	const now = asOf.getTime();
+	const starts = parseScheduleDate(transaction.availabilityStarts);
+	const ends = parseScheduleEnd(transaction.availabilityEnds);
+	if (starts !== undefined && now < starts) return 'PreOrder';
+	if (ends !== undefined && now >= ends) return 'Discontinued';
+	return fallback;
+}
+
+
+
+
+export function validateSchedule(
+	transaction: TransactionConfig,
+	path = '$'
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	const currency = transaction.currency || 'USD';
+
+	const checkWindow = (
+		from: string | undefined,
+		through: string | undefined,
+		label: string,
+		fromPath: string,
+		throughPath: string
+	) => {
+		const start = parseScheduleDate(from);
+		const end = parseScheduleDate(through);
+		if (from !== undefined && start === undefined) {
+			issues.push(
+				createIssue('DATE_INVALID', fromPath, `Invalid ${label} start date: ${from}`, { value: from })
+			);
+		}
+		if (through !== undefined && end === undefined) {
+			issues.push(
+				createIssue('DATE_INVALID', throughPath, `Invalid ${label} end date: ${through}`, { value: through })
+			);
+		}
+		if (start !== undefined && end !== undefined && start > end) {
+			issues.push(
+				createIssue(
+					'DATE_RANGE_INVALID',
+					fromPath,
+					`${label} starts after it ends: ${from} > ${through}`,
+					{ from, through }
+				)
+			);
+		}
+	};
+
+	checkWindow(
+		transaction.availabilityStarts,
+		transaction.availabilityEnds,
+		'Availability',
+		joinPath(path, 'availabilityStarts'),
+		joinPath(path, 'availabilityEnds')
+	);
+
+	if (transaction.schedule === undefined) {
+		return issues;
+	}
+	const schedulePath = joinPath(path, 'schedule');
+	if (!Array.isArray(transaction.schedule) || transaction.schedule.length === 0) {
+		issues.push(
+			createIssue('SCHEDULE_EMPTY', schedulePath, 'Price schedule must be a non-empty list')
+		);
+		return issues;
+	}
+
+	transaction.schedule.forEach((entry, index) => {
+		const label = `Scheduled price #${index + 1}`;
+		const entryPath = joinPath(schedulePath, index);
+		if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+			issues.push(
+				createIssue('SCHEDULE_ENTRY_INVALID', entryPath, `${label} must be an object`, {
+					received: entry === null ? 'null' : typeof entry
+				})
+			);
+			return;
+		}
+		const money = Money.tryParse(entry.price, currency);
+		if (!money || money.isNegative()) {
+			issues.push(
+				createIssue(
+					'SCHEDULE_PRICE_INVALID',
+					joinPath(entryPath, 'price'),
+					`Invalid price for ${label}: ${entry.price}`,
+					{ value: entry.price }
+				)
+			);
+		} else if (!money.fitsMinorUnits()) {
+			issues.push(
+				createIssue(
+					'PRICE_PRECISION',
+					joinPath(entryPath, 'price'),
+					`${label} ${money} has more decimal places than ${money.currency} allows`,
+					{ value: money.toString(), currency: money.currency }
+				)
+			);
+		}
+		if (entry.kind !== undefined && !(entry.kind in SCHEDULED_PRICE_TYPES)) {
+			issues.push(
+				createIssue(
+					'SCHEDULE_KIND_INVALID',
+					joinPath(entryPath, 'kind'),
+					`Invalid kind for ${label}: ${entry.kind}`,
+					{ value: entry.kind, allowed: Object.keys(SCHEDULED_PRICE_TYPES) }
+				)
+			);
+		}
+		checkWindow(
+			entry.validFrom,
+			entry.validThrough,
+			label,
+			joinPath(entryPath, 'validFrom'),
+			joinPath(entryPath, 'validThrough')
+		);
+	});
+
+	return issues;
+}
@@ -0,0 +1,135 @@
+import { getConfig } from './config.js';
+import { isUrlAllowed } from './urls.js';
+import { createIssue } from './validation.js';
+import type {
+	SchemaSeller,
+	SellerProfile,
+	SellerReference,
+	ValidationIssue
+} from './types.js';
+
+export const DEFAULT_SELLER_NAME = 'Tinyland';
+
+const SELLER_TYPES = ['Person', 'Organization'];
+
+const SELLER_URL_FIELDS = ['url', 'actor'] as const;
+
+
+
+
+function isSellerUrl(value: unknown): boolean {
+	return typeof value === 'string' && isUrlAllowed(value);
+}
+
+
+
+
+function toSameAsList(value: SellerProfile['sameAs']): string[] {
+	if (value === undefined) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+
+
+
+function findSellerProfileProblems(value: unknown): string[] {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return ['profile must be an object'];
+	}
+	const profile = value as Record<string, unknown>;
+	const problems: string[] = [];
+
+	if (typeof profile.name !== 'string' || !profile.name) problems.push('name is required');
+	if (profile.type !== undefined && !SELLER_TYPES.includes(profile.type as string)) {
+		problems.push(`type must be Person or Organization: ${String(profile.type)}`);
+	}
+	for (const field of SELLER_URL_FIELDS) {
+		if (profile[field] !== undefined && !isSellerUrl(profile[field])) {
+			problems.push(`${field} must be an http(s) URL: ${String(profile[field])}`);
+		}
+	}
+	if (profile.sameAs !== undefined) {
+		const entries = Array.isArray(profile.sameAs) ? profile.sameAs : [profile.sameAs];
+		for (const entry of entries.filter((entry) => !isSellerUrl(entry))) {
+			problems.push(`sameAs must list http(s) URLs: ${String(entry)}`);
+		}
+	}
+	return problems;
+}
+
+
+
+
+export function validateSellerReference(reference: unknown, path = '$.seller'): ValidationIssue[] {
+	let profile = reference;
+	if (typeof reference === 'string') {
+		const sellers = getConfig().sellers ?? {};
+		if (!Object.hasOwn(sellers, reference)) {
+			return [
+				createIssue('SELLER_UNKNOWN', path, `Unknown seller profile: ${reference}`, {
+					value: reference
+				})
+			];
+		}
+		profile = sellers[reference];
+	}
+	return findSellerProfileProblems(profile).map((problem) =>
+		createIssue('SELLER_INVALID', path, `Invalid seller profile: ${problem}`, { problem })
+	);
+}
+
+
+
+
+export function lookupSellerProfile(reference: SellerReference): SellerProfile {
+	const [issue] = validateSellerReference(reference);
+	if (issue) {
+		throw new Error(issue.message);
+	}
+	return typeof reference === 'string' ? getConfig().sellers![reference] : reference;
+}
+
+
+
+
+export function resolveSellerProfile(
+	references: Array<SellerReference | unknown>,
+	baseUrl: string
+): SellerProfile {
+	const chain = [...references, getConfig().defaultSeller];
+	for (const reference of chain) {
+		if (reference === undefined || reference === null || reference === '') continue;
+		return lookupSellerProfile(reference as SellerReference);
+	}
+	return { type: 'Organization', name: DEFAULT_SELLER_NAME, url: baseUrl };
+}
+
+
+
+
+export function toSchemaSeller(profile: SellerProfile): SchemaSeller {
+	const type = profile.type ?? 'Organization';
+	const seller: SchemaSeller = {
+		'@type': type,
+		name: profile.name
+	};
+
+	if (profile.actor) seller['@id'] = profile.actor;
+	if (profile.url) seller.url = profile.url;
+	if (profile.logo) {
+		if (type === 'Organization') {
+			seller.logo = profile.logo;
+		} else {
+			seller.image = profile.logo;
+		}
+	}
+	if (profile.email) seller.email = profile.email;
+
+	const sameAs = [...toSameAsList(profile.sameAs)];
+	if (profile.actor && !sameAs.includes(profile.actor)) {
+		sameAs.push(profile.actor);
+	}
+	if (sameAs.length > 0) seller.sameAs = sameAs;
+
+	return seller;
+}
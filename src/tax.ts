@@ -0,0 +1,161 @@
+import { getConfig } from './config.js';
+import { getMinorUnits } from './currencies.js';
+import { divideHalfUp, formatUnits, Money } from './money.js';
+import type { PriceSpecification, TaxBreakdown, TaxRule } from './types.js';
+
+export const TAX_REGION_GROUPS: Record<string, string[]> = {
+	EU: [
+		'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+		'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK'
+	]
+};
+
+
+
+
+function regionScore(ruleRegion: string | undefined, region: string | undefined): number {
+	if (ruleRegion === undefined) return 0;
+	if (region === undefined) return -1;
+	const rule = ruleRegion.toUpperCase();
+	const actual = region.toUpperCase();
+	if (rule === actual) return 2;
+	if (TAX_REGION_GROUPS[rule]?.includes(actual)) return 1;
+	return -1;
+}
+
+
+
+
+export function findTaxRule(
+	sellerRegion: string | undefined,
+	buyerRegion: string | undefined,
+	rules: TaxRule[] = getConfig().taxRules ?? []
+): TaxRule | undefined {
+	let best: TaxRule | undefined;
+	let bestScore = -1;
+
+	for (const rule of rules) {
+		const buyer = regionScore(rule.buyerRegion, buyerRegion);
+		const seller = regionScore(rule.sellerRegion, sellerRegion);
+		if (buyer < 0 || seller < 0) continue;
+
+		const score = buyer * 3 + seller;
+		if (score > bestScore) {
+			best = rule;
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+
+
+
+export function computeTax(
+	price: number | string,
+	currency: string,
+	rule: TaxRule,
+	inclusive: boolean
+): TaxBreakdown {
+	const amount = Money.parse(price, currency);
+	const rate = Money.parse(rule.rate, currency);
+	if (amount.isNegative() || rate.isNegative()) {
+		throw new Error(`Cannot compute tax for ${amount} at ${rate}%`);
+	}
+
+	const scale = Math.max(getMinorUnits(currency) ?? amount.decimals, amount.decimals);
+	const value = amount.units * 10n ** BigInt(scale - amount.decimals);
+	const hundred = 100n * 10n ** BigInt(rate.decimals);
+
+	let net: bigint;
+	let tax: bigint;
+	if (inclusive) {
+		net = divideHalfUp(value * hundred, hundred + rate.units);
+		tax = value - net;
+	} else {
+		net = value;
+		tax = divideHalfUp(value * rate.units, hundred);
+	}
+
+	return {
+		rule,
+		rate: rate.toString(),
+		inclusive,
+		net: formatUnits(net, scale),
+		tax: formatUnits(tax, scale),
+		gross: formatUnits(net + tax, scale)
+	};
+}
+
+
+
+
+function toTaxComponent(
+	component: PriceSpecification,
+	breakdown: TaxBreakdown
+): PriceSpecification {
+	const tax: PriceSpecification = {
+		'@type': 'UnitPriceSpecification',
+		name: `${breakdown.rule.name} ${breakdown.rate}%`,
+		price: breakdown.tax,
+		priceCurrency: component.priceCurrency
+	};
+	if (component.priceType) tax.priceType = component.priceType;
+	if (component.priceComponentType) tax.priceComponentType = component.priceComponentType;
+	if (component.referenceQuantity) tax.referenceQuantity = component.referenceQuantity;
+	if (component.billingDuration) tax.billingDuration = component.billingDuration;
+	return tax;
+}
+
+
+
+
+export function applyTax(spec: PriceSpecification, breakdown: TaxBreakdown): PriceSpecification {
+	if (spec['@type'] === 'CompoundPriceSpecification') {
+		return {
+			...spec,
+			valueAddedTaxIncluded: breakdown.inclusive,
+			priceComponent: spec.priceComponent?.flatMap((component) => {
+				const componentTax = computeTax(
+					component.price,
+					component.priceCurrency,
+					breakdown.rule,
+					breakdown.inclusive
+				);
+				return [
+					{
+						...component,
+						name: component.name ?? 'Net price',
+						price: componentTax.net,
+						valueAddedTaxIncluded: false
+					},
+					toTaxComponent(component, componentTax)
+				];
+			})
+		};
+	}
+
+	const { price, priceCurrency, minPrice, maxPrice, suggestedPrices, ...rest } = spec;
+	const compound: PriceSpecification = {
+		'@type': 'CompoundPriceSpecification',
+		price,
+		priceCurrency,
+		valueAddedTaxIncluded: breakdown.inclusive,
+		priceComponent: [
+			{
+				...rest,
+				'@type': 'UnitPriceSpecification',
+				name: 'Net price',
+				price: breakdown.net,
+				priceCurrency,
+				valueAddedTaxIncluded: false
+			},
+			toTaxComponent({ '@type': 'UnitPriceSpecification', price, priceCurrency }, breakdown)
+		]
+	};
+
+	if (minPrice !== undefined) compound.minPrice = minPrice;
+	if (maxPrice !== undefined) compound.maxPrice = maxPrice;
+	if (suggestedPrices !== undefined) compound.suggestedPrices = suggestedPrices;
+	return compound;
+}
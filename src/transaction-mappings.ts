@@ -2,7 +2,9 @@
 
 
 
-import type { TransactionMapping } from './types.js';
+import { getConfig } from './config.js';
+import { TransactionRegistry } from './transaction-registry.js';
+import type { TransactionMapping, TransactionTypeRegistration, UrlPolicy } from './types.js';
 
 export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 	inquiry: {
@@ -14,7 +16,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: false,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	ebay: {
 		transactionType: 'ebay',
@@ -25,7 +28,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	etsy: {
 		transactionType: 'etsy',
@@ -36,7 +40,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	amazon: {
 		transactionType: 'amazon',
@@ -47,7 +52,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	'snail-mail': {
 		transactionType: 'snail-mail',
@@ -58,7 +64,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	monero: {
 		transactionType: 'monero',
@@ -69,7 +76,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: true,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	stripe: {
 		transactionType: 'stripe',
@@ -80,7 +88,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: true
 	},
 	polar: {
 		transactionType: 'polar',
@@ -91,7 +100,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: true,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	talar: {
 		transactionType: 'talar',
@@ -102,7 +112,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: true
 	},
 	repository: {
 		transactionType: 'repository',
@@ -113,7 +124,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: false,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	documentation: {
 		transactionType: 'documentation',
@@ -124,7 +136,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: false,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	booking: {
 		transactionType: 'booking',
@@ -135,7 +148,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	},
 	liberapay: {
 		transactionType: 'liberapay',
@@ -146,7 +160,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: true,
-		isDonation: true
+		isDonation: true,
+		allowsCustomAmount: true
 	},
 	kofi: {
 		transactionType: 'kofi',
@@ -157,7 +172,8 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: true,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: true
+		isDonation: true,
+		allowsCustomAmount: true
 	},
 	'contribute-to-consume': {
 		transactionType: 'contribute-to-consume',
@@ -168,34 +184,141 @@ export const TRANSACTION_MAPPINGS: Record<string, TransactionMapping> = {
 		isMonetary: false,
 		isCryptocurrency: false,
 		isSubscription: false,
-		isDonation: false
+		isDonation: false,
+		allowsCustomAmount: false
 	}
 };
 
 
+const BUILTIN_DISPLAY_NAMES: Record<string, string> = {
+	inquiry: 'Contact',
+	ebay: 'eBay',
+	etsy: 'Etsy',
+	amazon: 'Amazon',
+	'snail-mail': 'Mail Order',
+	monero: 'Monero',
+	stripe: 'Credit Card',
+	polar: 'Polar Subscription',
+	talar: 'GNU Taler',
+	repository: 'Source Code',
+	documentation: 'Documentation',
+	booking: 'Book Appointment',
+	liberapay: 'Liberapay',
+	kofi: 'Ko-fi',
+	'contribute-to-consume': 'Contribute to Access'
+};
+
+const BUILTIN_REQUIRED_ACTIONS: Record<string, string> = {
+	inquiry: 'contact',
+	repository: 'view-source',
+	documentation: 'read-docs',
+	'contribute-to-consume': 'contribute'
+};
+
+const EBAY_DOMAINS = [
+	'com', 'co.uk', 'de', 'fr', 'it', 'es', 'nl', 'be', 'at', 'ch', 'ie', 'pl',
+	'ca', 'com.au', 'com.hk', 'com.sg', 'com.my', 'ph', 'in'
+];
+
+const AMAZON_DOMAINS = [
+	'com', 'co.uk', 'de', 'fr', 'it', 'es', 'nl', 'se', 'pl', 'com.be', 'com.tr',
+	'ca', 'com.mx', 'com.br', 'com.au', 'co.jp', 'in', 'sg', 'ae', 'sa', 'eg'
+];
+
+export const BUILTIN_URL_POLICIES: Record<string, UrlPolicy> = {
+	ebay: {
+		hosts: EBAY_DOMAINS.map((domain) => `*.ebay.${domain}`),
+		paths: [/^\/itm\/(?:[^/]+\/)?\d+\/?$/],
+		protocols: ['https:'],
+		keepParams: ['var']
+	},
+	etsy: {
+		hosts: ['*.etsy.com'],
+		paths: [/^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?listing\/\d+(?:\/[^/]*)?\/?$/i],
+		protocols: ['https:'],
+		keepParams: ['variation*']
+	},
+	amazon: {
+		hosts: AMAZON_DOMAINS.map((domain) => `*.amazon.${domain}`),
+		paths: [/^\/(?:[^/]+\/)?(?:dp|gp\/product)\/[A-Z0-9]{10}(?:\/.*)?$/i],
+		protocols: ['https:'],
+		keepParams: []
+	},
+	polar: {
+		hosts: ['*.polar.sh'],
+		protocols: ['https:'],
+		stripParams: ['ref']
+	},
+	liberapay: {
+		hosts: ['*.liberapay.com'],
+		protocols: ['https:'],
+		stripParams: ['ref']
+	},
+	kofi: {
+		hosts: ['*.ko-fi.com'],
+		protocols: ['https:'],
+		stripParams: ['ref']
+	}
+};
+
+export const BUILTIN_TRANSACTION_TYPES: TransactionTypeRegistration[] = Object.values(
+	TRANSACTION_MAPPINGS
+).map((mapping) => ({
+	mapping,
+	displayName: BUILTIN_DISPLAY_NAMES[mapping.transactionType] || mapping.transactionType,
+	requiredAction: BUILTIN_REQUIRED_ACTIONS[mapping.transactionType],
+	urlPolicy: BUILTIN_URL_POLICIES[mapping.transactionType]
+}));
+
+
+
+
+export function createTransactionRegistry(
+	options: { builtins?: boolean } = {}
+): TransactionRegistry {
+	return new TransactionRegistry(options.builtins === false ? [] : BUILTIN_TRANSACTION_TYPES);
+}
+
+export const defaultTransactionRegistry = createTransactionRegistry();
+
+
+
+
+export function getTransactionRegistry(): TransactionRegistry {
+	return getConfig().transactionRegistry ?? defaultTransactionRegistry;
+}
+
+
 
 
 export function getTransactionMapping(type: string): TransactionMapping | undefined {
-	return TRANSACTION_MAPPINGS[type];
+	return getTransactionRegistry().getMapping(type);
+}
+
+
+
+
+export function getUrlPolicy(type: string): UrlPolicy | undefined {
+	return getTransactionRegistry().get(type)?.urlPolicy;
 }
 
 
 
 
 export function requiresExternalUrl(type: string): boolean {
-	return TRANSACTION_MAPPINGS[type]?.requiresExternalUrl ?? false;
+	return getTransactionMapping(type)?.requiresExternalUrl ?? false;
 }
 
 
 
 
 export function isMonetary(type: string): boolean {
-	return TRANSACTION_MAPPINGS[type]?.isMonetary ?? false;
+	return getTransactionMapping(type)?.isMonetary ?? false;
 }
 
 
 
 
 export function getSupportedTransactionTypes(): string[] {
-	return Object.keys(TRANSACTION_MAPPINGS);
+	return getTransactionRegistry().types();
 }
@@ -0,0 +1,110 @@
+import type {
+	TransactionMapping,
+	TransactionTypeOverride,
+	TransactionTypeRegistration
+} from './types.js';
+
+function copyRegistration(registration: TransactionTypeRegistration): TransactionTypeRegistration {
+	const copy: TransactionTypeRegistration = {
+		...registration,
+		mapping: {
+			...registration.mapping,
+			paymentMethods: [...registration.mapping.paymentMethods]
+		}
+	};
+	if (registration.urlPolicy) {
+		const { hosts, paths, protocols, keepParams, stripParams } = registration.urlPolicy;
+		copy.urlPolicy = {
+			...registration.urlPolicy,
+			...(hosts && { hosts: [...hosts] }),
+			...(paths && { paths: [...paths] }),
+			...(protocols && { protocols: [...protocols] }),
+			...(keepParams && { keepParams: [...keepParams] }),
+			...(stripParams && { stripParams: [...stripParams] })
+		};
+	}
+	return copy;
+}
+
+export class TransactionRegistry {
+	private readonly entries = new Map<string, TransactionTypeRegistration>();
+	private readonly seed: TransactionTypeRegistration[];
+
+	constructor(registrations: Iterable<TransactionTypeRegistration> = []) {
+		this.seed = Array.from(registrations, copyRegistration);
+		this.reset();
+	}
+
+	
+
+
+	register(registration: TransactionTypeRegistration): void {
+		const type = registration.mapping.transactionType;
+		if (!type) {
+			throw new Error('Transaction type registration requires mapping.transactionType');
+		}
+		if (this.entries.has(type)) {
+			throw new Error(`Transaction type already registered: ${type}`);
+		}
+		this.entries.set(type, copyRegistration(registration));
+	}
+
+	
+
+
+	override(type: string, patch: TransactionTypeOverride): void {
+		const existing = this.entries.get(type);
+		if (!existing) {
+			throw new Error(`Unknown transaction type: ${type}`);
+		}
+		const next: TransactionTypeRegistration = {
+			...existing,
+			...patch,
+			mapping: {
+				...existing.mapping,
+				...patch.mapping,
+				transactionType: type
+			}
+		};
+		this.entries.set(type, copyRegistration(next));
+	}
+
+	unregister(type: string): boolean {
+		return this.entries.delete(type);
+	}
+
+	has(type: string): boolean {
+		return this.entries.has(type);
+	}
+
+	get(type: string): TransactionTypeRegistration | undefined {
+		return this.entries.get(type);
+	}
+
+	getMapping(type: string): TransactionMapping | undefined {
+		return this.entries.get(type)?.mapping;
+	}
+
+	list(): TransactionTypeRegistration[] {
+		return Array.from(this.entries.values());
+	}
+
+	types(): string[] {
+		return Array.from(this.entries.keys());
+	}
+
+	
+
+
+	clone(): TransactionRegistry {
+		return new TransactionRegistry(this.list());
+	}
+
+	
+
+
+	reset(): void {
+		this.entries.clear();
+		this.seed.forEach((registration) => this.register(registration));
+	}
+}
@@ -23,19 +23,81 @@ export type PaymentMethod =
 	| 'Donation'
 	| 'Exchange';
 
+export type BillingPeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface QuantitativeValue {
+	'@type': 'QuantitativeValue';
+	value: number;
+	unitCode: string;
+	unitText?: string;
+}
+
 export interface PriceSpecification {
-	'@type': 'PriceSpecification' | 'UnitPriceSpecification';
+	'@type': 'PriceSpecification' | 'UnitPriceSpecification' | 'CompoundPriceSpecification';
+	name?: string;
 	price: number | string;
 	priceCurrency: string;
 	valueAddedTaxIncluded?: boolean;
 	validFrom?: string;
 	validThrough?: string;
-	minPrice?: number;
-	maxPrice?: number;
+	minPrice?: number | string;
+	maxPrice?: number | string;
+	suggestedPrices?: Array<number | string>;
+	priceType?: string;
+	priceComponentType?: string;
+	referenceQuantity?: QuantitativeValue;
+	billingDuration?: QuantitativeValue;
+	billingIncrement?: number;
+	unitCode?: string;
+	priceComponent?: PriceSpecification[];
+}
+
+export interface SchemaSeller {
+	'@type': 'Person' | 'Organization';
+	'@id'?: string;
+	name: string;
+	url?: string;
+	logo?: string;
+	image?: string;
+	email?: string;
+	sameAs?: string[];
+}
+
+export interface SellerProfile {
+	type?: 'Person' | 'Organization';
+	name: string;
+	url?: string;
+	logo?: string;
+	email?: string;
+	sameAs?: string | string[];
+	actor?: string;
+	region?: string;
+}
+
+export type SellerReference = string | SellerProfile;
+
+export interface SchemaItem {
+	'@type': 'Product' | 'Service' | 'CreativeWork';
+	name: string;
+	description?: string;
+	url?: string;
+	image?: string;
+	provider?: SchemaSeller;
+}
+
+export interface EntryPoint {
+	'@type': 'EntryPoint';
+	urlTemplate: string;
+}
+
+export interface SchemaBuyAction {
+	'@type': 'BuyAction';
+	target: EntryPoint;
+	seller?: SchemaSeller;
 }
 
 export interface SchemaOffer {
-	'@context': 'https://schema.org';
+	'@context': SchemaNodeContext;
 	'@type': 'Offer';
 	'@id': string;
 	name: string;
@@ -47,24 +109,414 @@ export interface SchemaOffer {
 	availability: OfferAvailability;
 	availabilityStarts?: string;
 	availabilityEnds?: string;
-	seller?: {
-		'@type': 'Person' | 'Organization';
-		name: string;
-		url?: string;
-	};
-	itemOffered?: {
-		'@type': 'Product' | 'Service' | 'CreativeWork';
-		name: string;
-		description?: string;
-		url?: string;
-		image?: string;
-	};
+	priceValidUntil?: string;
+	seller?: SchemaSeller;
+	itemOffered?: SchemaItem;
 	acceptedPaymentMethod?: PaymentMethod[];
+	potentialAction?: SchemaBuyAction;
 	transactionType: string;
 	externalUrl?: string;
 	requiresAction?: string;
 }
 
+interface SchemaActionBase {
+	'@context': SchemaNodeContext;
+	'@id': string;
+	name: string;
+	description?: string;
+	url?: string;
+	actionStatus: 'PotentialActionStatus';
+	target: EntryPoint;
+	price?: number | string;
+	priceCurrency?: string;
+	priceSpecification?: PriceSpecification;
+	acceptedPaymentMethod?: PaymentMethod[];
+	transactionType: string;
+	externalUrl?: string;
+}
+
+export interface SchemaDonateAction extends SchemaActionBase {
+	'@type': 'DonateAction';
+	recipient: SchemaSeller;
+	object?: SchemaItem;
+}
+
+export interface SchemaReserveAction extends SchemaActionBase {
+	'@type': 'ReserveAction';
+	object: SchemaItem;
+}
+
+export type SchemaOfferNode = SchemaOffer | SchemaDonateAction | SchemaReserveAction;
+
+export type JsonLdContext = string | Record<string, unknown> | Array<string | Record<string, unknown>>;
+
+export type ExtendedSchemaContext = ['https://schema.org', string | Record<string, unknown>];
+
+export type SchemaNodeContext = 'https://schema.org' | ExtendedSchemaContext;
+
+export interface JsonLdReference {
+	'@id': string;
+}
+
+export interface JsonLdNode {
+	'@type': string;
+	'@id': string;
+	[key: string]: unknown;
+}
+
+export interface SchemaProduct {
+	'@type': 'Product';
+	'@id': string;
+	name: string;
+	description?: string;
+	url?: string;
+	image?: string;
+	offers?: JsonLdReference[];
+	potentialAction?: JsonLdReference[];
+}
+
+export interface SchemaProductGraph {
+	'@context': JsonLdContext;
+	'@graph': JsonLdNode[];
+}
+
+export type JsonLdProfile = 'namespaced' | 'google-safe';
+
+export interface JsonLdOptions {
+	profile?: JsonLdProfile;
+	context?: 'inline' | 'remote';
+}
+
+export interface ProductGraphOptions extends JsonLdOptions {
+	asOf?: Date | string;
+}
+
+export interface JsonLdDocument {
+	'@context': JsonLdContext;
+	[key: string]: unknown;
+}
+
+export type ExpandedJsonLdValue =
+	| { '@value': string | number | boolean }
+	| { '@id': string }
+	| ExpandedJsonLdNode;
+
+export interface ExpandedJsonLdNode {
+	'@id'?: string;
+	'@type'?: string[];
+	[iri: string]: string | string[] | ExpandedJsonLdValue[] | undefined;
+}
+
+export interface ActivityPubPropertyValue {
+	type: 'PropertyValue';
+	name: string;
+	value: string;
+}
+
+export interface ActivityStreamsActor {
+	type: SchemaSeller['@type'];
+	id?: string;
+	name: string;
+	url?: string;
+	icon?: string;
+	email?: string;
+	sameAs?: string[];
+}
+
+export interface ActivityStreamsItem {
+	type: SchemaItem['@type'];
+	name: string;
+	summary?: string;
+	url?: string;
+	image?: string;
+}
+
+export interface ActivityStreamsOffer {
+	'@context'?: JsonLdContext;
+	id: string;
+	type: 'Offer' | 'DonateAction' | 'ReserveAction';
+	name: string;
+	summary?: string;
+	url?: string;
+	attributedTo?: string;
+	published?: string;
+	to?: string[];
+	cc?: string[];
+	price?: number | string;
+	priceCurrency?: string;
+	priceSpecification?: PriceSpecification;
+	priceValidUntil?: string;
+	availability?: string;
+	availabilityStarts?: string;
+	availabilityEnds?: string;
+	acceptedPaymentMethod?: PaymentMethod[];
+	seller?: ActivityStreamsActor;
+	recipient?: ActivityStreamsActor;
+	itemOffered?: ActivityStreamsItem;
+	object?: ActivityStreamsItem;
+	attachment?: ActivityPubPropertyValue[];
+	updated?: string;
+}
+
+export interface ActivityStreamsTombstone {
+	id: string;
+	type: 'Tombstone';
+	formerType: ActivityStreamsOffer['type'];
+	deleted: string;
+}
+
+export type FederatedOfferFormat = 'activitystreams' | 'property-value' | 'json-ld';
+
+export interface FederatedOfferOrigin {
+	format?: FederatedOfferFormat;
+	source?: string;
+	actor?: string;
+	id?: string;
+	verified: boolean;
+	receivedAt: string;
+}
+
+export interface FederatedOfferOptions {
+	source?: string;
+	receivedAt?: Date | string;
+	maxBytes?: number;
+	maxDepth?: number;
+	maxStringLength?: number;
+	maxArrayLength?: number;
+}
+
+export type FederatedOfferResult =
+	| { ok: true; offer: SchemaOffer; origin: FederatedOfferOrigin; issues: ValidationIssue[] }
+	| { ok: false; origin: FederatedOfferOrigin; issues: ValidationIssue[] };
+
+export type ActivityAudiencePreset = 'public' | 'unlisted' | 'followers';
+
+export interface ActivityAudience {
+	to: string[];
+	cc?: string[];
+}
+
+export interface ActivityOptions {
+	actor?: string;
+	followers?: string;
+	audience?: ActivityAudiencePreset | ActivityAudience;
+	published?: Date | string;
+}
+
+export type OfferActivityType = 'Create' | 'Update' | 'Delete';
+
+export interface ActivityStreamsActivity<T extends OfferActivityType = OfferActivityType> {
+	'@context': JsonLdContext;
+	id: string;
+	type: T;
+	actor: string;
+	published: string;
+	to: string[];
+	cc: string[];
+	object: T extends 'Delete' ? ActivityStreamsTombstone : ActivityStreamsOffer;
+}
+
+export interface OfferFieldChange {
+	field: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface OfferChange {
+	id: string;
+	before: SchemaOfferNode;
+	after: SchemaOfferNode;
+	changes: OfferFieldChange[];
+}
+
+export interface OfferDiff {
+	added: SchemaOfferNode[];
+	removed: SchemaOfferNode[];
+	changed: OfferChange[];
+	unchanged: SchemaOfferNode[];
+}
+
+export interface SchemaAggregateOffer {
+	'@context': SchemaNodeContext;
+	'@type': 'AggregateOffer';
+	'@id': string;
+	lowPrice: number | string;
+	highPrice: number | string;
+	priceCurrency: string;
+	offerCount: number;
+	offers: Array<
+		| Omit<SchemaOffer, '@context'>
+		| Omit<SchemaDonateAction, '@context'>
+		| Omit<SchemaReserveAction, '@context'>
+	>;
+}
+
+export type GoogleAvailability = 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder';
+
+export interface MerchantFeedItem {
+	id: string;
+	title: string;
+	description: string;
+	link: string;
+	image_link: string;
+	availability: GoogleAvailability;
+	availability_date?: string;
+	price: string;
+	condition?: string;
+	brand?: string;
+	gtin?: string;
+	mpn?: string;
+	identifier_exists?: 'no';
+}
+
+export interface MerchantFeedSkip {
+	slug: string;
+	issues: ValidationIssue[];
+}
+
+export interface MerchantFeed {
+	items: MerchantFeedItem[];
+	skipped: MerchantFeedSkip[];
+}
+
+export interface MerchantFeedOptions {
+	asOf?: Date | string;
+}
+
+export interface MerchantFeedChannel {
+	title: string;
+	link: string;
+	description?: string;
+}
+
+export interface MetaTag {
+	property?: string;
+	name?: string;
+	content: string;
+}
+
+export interface MetaTagOptions {
+	siteName?: string;
+	locale?: string;
+	twitterSite?: string;
+}
+
+export type PostFormat = 'text' | 'markdown' | 'html';
+
+export interface PostOptions {
+	format?: PostFormat;
+	limit?: number;
+	urlLength?: number;
+	title?: string;
+	intro?: string;
+	moreUrl?: string;
+	moreLabel?: string;
+	hashtags?: string[];
+}
+
+export interface PostRenderResult {
+	body: string;
+	length: number;
+	included: string[];
+	omitted: string[];
+}
+
+export type ProfileFieldStrategy = 'priority' | 'monetary-first' | 'privacy-first';
+
+export interface ProfileFieldOptions {
+	limit?: number;
+	maxValueLength?: number;
+	strategy?: ProfileFieldStrategy;
+	format?: 'html' | 'text';
+}
+
+export interface ProfileFieldSkip {
+	id: string;
+	reason: 'duplicate' | 'limit' | 'length';
+}
+
+export interface ProfileFieldSelection {
+	fields: ActivityPubPropertyValue[];
+	selected: string[];
+	skipped: ProfileFieldSkip[];
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchemaSnippet {
+	label: string;
+	description?: string;
+	body: Record<string, unknown>;
+}
+
+export interface JsonSchemaObject {
+	$schema?: string;
+	$id?: string;
+	$ref?: string;
+	$defs?: Record<string, JsonSchema>;
+	title?: string;
+	description?: string;
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: unknown[];
+	enumDescriptions?: string[];
+	const?: unknown;
+	format?: string;
+	pattern?: string;
+	minLength?: number;
+	minimum?: number;
+	exclusiveMinimum?: number;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: JsonSchema;
+	items?: JsonSchema;
+	minItems?: number;
+	allOf?: JsonSchema[];
+	anyOf?: JsonSchema[];
+	if?: JsonSchema;
+	then?: JsonSchema;
+	defaultSnippets?: JsonSchemaSnippet[];
+}
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+export interface JsonSchemaOptions {
+	id?: string;
+	title?: string;
+}
+
+export type MarkupFormat = 'microdata' | 'rdfa';
+
+export type MarkupSlot =
+	| 'product'
+	| 'offer'
+	| 'item'
+	| 'name'
+	| 'description'
+	| 'price'
+	| 'currency'
+	| 'availability'
+	| 'paymentMethod'
+	| 'link'
+	| 'action';
+
+export interface MarkupOptions {
+	format?: MarkupFormat;
+	slots?: Partial<Record<MarkupSlot, string>>;
+	actionLabels?: Record<string, string>;
+	includeItem?: boolean;
+}
+
+export interface ExchangeRateProvider {
+	getRate(from: string, to: string): number | string | undefined;
+}
+
+export interface AggregateOfferOptions {
+	currency?: string;
+	rates?: ExchangeRateProvider;
+	onMixedCurrency?: 'throw' | 'skip';
+	onExclude?: (issue: ValidationIssue) => void;
+}
+
 export interface TransactionMapping {
 	transactionType: string;
 	schemaType: 'Offer' | 'DonateAction' | 'BuyAction' | 'ReserveAction';
@@ -75,6 +527,47 @@ export interface TransactionMapping {
 	isCryptocurrency: boolean;
 	isSubscription: boolean;
 	isDonation: boolean;
+	allowsCustomAmount?: boolean;
+}
+
+export interface TaxRule {
+	name: string;
+	rate: number | string;
+	sellerRegion?: string;
+	buyerRegion?: string;
+	inclusive?: boolean;
+}
+
+export interface TaxBreakdown {
+	rule: TaxRule;
+	rate: string;
+	inclusive: boolean;
+	net: string;
+	tax: string;
+	gross: string;
+}
+
+export interface ScheduledPrice {
+	price: number | string;
+	kind?: 'regular' | 'sale' | 'launch';
+	validFrom?: string;
+	validThrough?: string;
+}
+
+export interface SubscriptionTrial {
+	duration: number;
+	unit: BillingPeriod;
+	price?: number | string;
+}
+
+export interface SubscriptionTier {
+	id?: string;
+	name: string;
+	price: number | string;
+	description?: string;
+	billingDuration?: BillingPeriod;
+	billingIncrement?: number;
+	trial?: SubscriptionTrial;
 }
 
 export interface TransactionConfig {
@@ -85,13 +578,152 @@ export interface TransactionConfig {
 	description?: string;
 	priority?: number;
 	price?: number | string;
+	minPrice?: number | string;
+	maxPrice?: number | string;
+	suggestedPrices?: Array<number | string>;
 	currency?: string;
 	availability?: OfferAvailability;
+	availabilityStarts?: string;
+	availabilityEnds?: string;
+	schedule?: ScheduledPrice[];
+	seller?: SellerReference;
+	taxIncluded?: boolean;
+	buyerRegion?: string;
+	billingDuration?: BillingPeriod;
+	billingIncrement?: number;
+	trial?: SubscriptionTrial;
+	tiers?: SubscriptionTier[];
+}
+
+export interface BuildOfferOptions {
+	tier?: string;
+	asOf?: Date | string;
+}
+
+export interface FiatCurrency {
+	kind: 'fiat';
+	code: string;
+	name: string;
+	minorUnits: number;
+	symbol?: string;
+}
+
+export interface CryptoAsset {
+	kind: 'crypto';
+	code: string;
+	name: string;
+	decimals: number;
+	chain: string;
+	network?: string;
+	symbol?: string;
+}
+
+export type CurrencyDefinition = FiatCurrency | CryptoAsset;
+
+export interface UrlPolicy {
+	hosts?: string[];
+	paths?: RegExp[];
+	protocols?: string[];
+	keepParams?: string[];
+	stripParams?: string[];
+}
+
+export interface TransactionTypeRegistration {
+	mapping: TransactionMapping;
+	displayName: string;
+	requiredAction?: string;
+	urlPolicy?: UrlPolicy;
+	validate?: (transaction: TransactionConfig) => Array<string | ValidationIssue>;
+}
+
+export type TransactionTypeOverride = Partial<Omit<TransactionTypeRegistration, 'mapping'>> & {
+	mapping?: Partial<Omit<TransactionMapping, 'transactionType'>>;
+};
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+	| 'TYPE_UNKNOWN'
+	| 'URL_REQUIRED'
+	| 'URL_INVALID'
+	| 'URL_PROTOCOL_INVALID'
+	| 'URL_HOST_NOT_ALLOWED'
+	| 'URL_PATH_NOT_ALLOWED'
+	| 'PRICE_REQUIRED'
+	| 'PRICE_INVALID'
+	| 'PRICE_PRECISION'
+	| 'PRICE_RANGE_INVALID'
+	| 'PRICE_OUT_OF_RANGE'
+	| 'SUGGESTED_PRICES_EMPTY'
+	| 'CUSTOM_AMOUNT_UNSUPPORTED'
+	| 'CURRENCY_INVALID'
+	| 'CURRENCY_NOT_CRYPTO'
+	| 'CURRENCY_DEFAULTED'
+	| 'BILLING_UNSUPPORTED'
+	| 'BILLING_DURATION_INVALID'
+	| 'BILLING_DURATION_REQUIRED'
+	| 'BILLING_INCREMENT_INVALID'
+	| 'TRIAL_INVALID'
+	| 'TRIAL_PRICE_INVALID'
+	| 'TIERS_EMPTY'
+	| 'TIER_INVALID'
+	| 'TIER_NAME_REQUIRED'
+	| 'TIER_DUPLICATE'
+	| 'TIER_PRICE_INVALID'
+	| 'SCHEDULE_EMPTY'
+	| 'SCHEDULE_ENTRY_INVALID'
+	| 'SCHEDULE_PRICE_INVALID'
+	| 'SCHEDULE_KIND_INVALID'
+	| 'DATE_INVALID'
+	| 'DATE_RANGE_INVALID'
+	| 'TAX_FLAG_INVALID'
+	| 'REGION_INVALID'
+	| 'SELLER_UNKNOWN'
+	| 'SELLER_INVALID'
+	| 'PRODUCT_INVALID'
+	| 'NAME_REQUIRED'
+	| 'FRONTMATTER_INVALID'
+	| 'TRANSACTIONS_INVALID'
+	| 'TRANSACTION_INVALID'
+	| 'TYPE_REQUIRED'
+	| 'ENABLED_INVALID'
+	| 'PRIORITY_INVALID'
+	| 'PRIORITY_CONFLICT'
+	| 'TYPE_DUPLICATE'
+	| 'UNKNOWN_KEY'
+	| 'BUILD_FAILED'
+	| 'INPUT_INVALID'
+	| 'INPUT_TOO_LARGE'
+	| 'TYPE_UNSUPPORTED'
+	| 'ID_REQUIRED'
+	| 'ORIGIN_REQUIRED'
+	| 'ORIGIN_MISMATCH'
+	| 'ORIGIN_UNVERIFIED'
+	| 'AVAILABILITY_INVALID'
+	| 'PAYMENT_METHOD_UNKNOWN'
+	| 'CURRENCY_REQUIRED'
+	| 'CURRENCY_MISMATCH'
+	| 'FEED_OFFER_MISSING'
+	| 'FEED_ATTRIBUTE_MISSING'
+	| 'FEED_CURRENCY_UNSUPPORTED'
+	| 'AGGREGATE_OFFER_EXCLUDED'
+	| 'CUSTOM_RULE'
+	| (string & {});
+
+export interface ValidationIssue {
+	code: ValidationCode;
+	path: string;
+	severity: ValidationSeverity;
+	message: string;
+	params: Record<string, unknown>;
+	index?: number;
 }
 
 export interface ValidationResult {
 	valid: boolean;
+	issues: ValidationIssue[];
 	errors: string[];
+	warnings: string[];
 }
 
 
@@ -103,3 +735,40 @@ export interface ProductItem {
 	title: string;
 	frontmatter: Record<string, unknown>;
 }
+
+export type CatalogBuildMode = 'strict' | 'lenient';
+
+export interface CatalogBuildOptions {
+	mode?: CatalogBuildMode;
+	asOf?: Date | string;
+}
+
+export interface CatalogBuildError extends ValidationIssue {
+	slug: string;
+	type?: string;
+}
+
+export interface CatalogProductResult {
+	slug: string;
+	status: 'ok' | 'partial' | 'failed';
+	offers: SchemaOfferNode[];
+	errors: CatalogBuildError[];
+	warnings: CatalogBuildError[];
+}
+
+export interface CatalogBuildSummary {
+	products: number;
+	succeeded: number;
+	partial: number;
+	failed: number;
+	offers: number;
+	errors: number;
+	warnings: number;
+}
+
+export interface CatalogBuildResult {
+	mode: CatalogBuildMode;
+	products: CatalogProductResult[];
+	errors: CatalogBuildError[];
+	summary: CatalogBuildSummary;
+}
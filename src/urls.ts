@@ -0,0 +1,137 @@
+import type { UrlPolicy, ValidationIssue } from './types.js';
+import { createIssue } from './validation.js';
+
+export const DEFAULT_URL_PROTOCOLS = ['https:', 'http:'];
+
+export const TRACKING_PARAMS = [
+	'utm_*',
+	'fbclid',
+	'gclid',
+	'gclsrc',
+	'dclid',
+	'msclkid',
+	'yclid',
+	'twclid',
+	'ttclid',
+	'igshid',
+	'mc_cid',
+	'mc_eid',
+	'_ga',
+	'_gl',
+	'_hsenc',
+	'_hsmi',
+	'mkt_tok',
+	'ref_src',
+	'spm'
+];
+
+
+
+
+function matchesParam(name: string, patterns: ReadonlyArray<string>): boolean {
+	const lower = name.toLowerCase();
+	return patterns.some((pattern) =>
+		pattern.endsWith('*')
+			? lower.startsWith(pattern.slice(0, -1).toLowerCase())
+			: lower === pattern.toLowerCase()
+	);
+}
+
+
+
+
+export function matchesHost(hostname: string, pattern: string): boolean {
+	const host = hostname.toLowerCase().replace(/\.$/, '');
+	const expected = pattern.toLowerCase();
+	if (expected.startsWith('*.')) {
+		const apex = expected.slice(2);
+		return host === apex || host.endsWith(`.${apex}`);
+	}
+	return host === expected;
+}
+
+
+
+
+export function isUrlAllowed(url: string, policy?: UrlPolicy): boolean {
+	return validateUrl(url, policy).length === 0;
+}
+
+
+
+
+export function validateUrl(url: string, policy?: UrlPolicy, path = '$.url'): ValidationIssue[] {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return [createIssue('URL_INVALID', path, `Invalid URL format: ${url}`, { value: url })];
+	}
+
+	const protocols = policy?.protocols ?? DEFAULT_URL_PROTOCOLS;
+	if (!protocols.includes(parsed.protocol)) {
+		return [
+			createIssue('URL_PROTOCOL_INVALID', path, `URL protocol not allowed: ${parsed.protocol}`, {
+				value: url,
+				protocol: parsed.protocol,
+				allowed: protocols
+			})
+		];
+	}
+	if (parsed.username || parsed.password) {
+		return [
+			createIssue('URL_INVALID', path, `URL must not contain credentials: ${parsed.hostname}`, {
+				value: parsed.hostname
+			})
+		];
+	}
+
+	if (policy?.hosts?.length && !policy.hosts.some((host) => matchesHost(parsed.hostname, host))) {
+		return [
+			createIssue('URL_HOST_NOT_ALLOWED', path, `URL host not allowed: ${parsed.hostname}`, {
+				host: parsed.hostname,
+				allowed: policy.hosts
+			})
+		];
+	}
+	if (policy?.paths?.length && !policy.paths.some((pattern) => pattern.test(parsed.pathname))) {
+		return [
+			createIssue('URL_PATH_NOT_ALLOWED', path, `URL path not allowed: ${parsed.pathname}`, {
+				path: parsed.pathname,
+				allowed: policy.paths.map(String)
+			})
+		];
+	}
+
+	return [];
+}
+
+
+
+
+export function canonicalizeUrl(url: string, policy?: UrlPolicy): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return url;
+	}
+
+	const strip = [...TRACKING_PARAMS, ...(policy?.stripParams ?? [])];
+	let changed = false;
+	for (const name of Array.from(new Set(parsed.searchParams.keys()))) {
+		const keep = policy?.keepParams
+			? matchesParam(name, policy.keepParams)
+			: !matchesParam(name, strip);
+		if (!keep) {
+			parsed.searchParams.delete(name);
+			changed = true;
+		}
+	}
+	if (parsed.hostname.endsWith('.')) {
+		parsed.hostname = parsed.hostname.slice(0, -1);
+		changed = true;
+	}
+
+	return changed ? parsed.toString() : url;
+}
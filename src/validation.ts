@@ -0,0 +1,138 @@
+import type {
+	TransactionConfig,
+	ValidationCode,
+	ValidationIssue,
+	ValidationResult,
+	ValidationSeverity
+} from './types.js';
+
+
+
+
+export function joinPath(base: string, ...segments: Array<string | number>): string {
+	return segments.reduce<string>(
+		(path, segment) =>
+			typeof segment === 'number'
+				? `${path}[${segment}]`
+				: /^[A-Za-z_$][\w$]*$/.test(segment)
+					? `${path}.${segment}`
+					: `${path}[${JSON.stringify(segment)}]`,
+		base
+	);
+}
+
+
+
+
+export function createIssue(
+	code: ValidationCode,
+	path: string,
+	message: string,
+	params: Record<string, unknown> = {},
+	severity: ValidationSeverity = 'error'
+): ValidationIssue {
+	return { code, path, severity, message, params };
+}
+
+
+
+
+export function toValidationIssues(
+	results: Array<string | ValidationIssue>,
+	path = '$'
+): ValidationIssue[] {
+	return results.map((result) =>
+		typeof result === 'string' ? createIssue('CUSTOM_RULE', path, result) : result
+	);
+}
+
+
+
+
+export function prefixIssues(issues: ValidationIssue[], prefix: string): ValidationIssue[] {
+	return issues.map((issue) => ({
+		...issue,
+		path: prefix + issue.path.replace(/^\$/, '')
+	}));
+}
+
+
+
+
+export function toValidationResult(issues: ValidationIssue[]): ValidationResult {
+	const errors = issues.filter((issue) => issue.severity === 'error');
+	return {
+		valid: errors.length === 0,
+		issues,
+		errors: errors.map((issue) => issue.message),
+		warnings: issues
+			.filter((issue) => issue.severity === 'warning')
+			.map((issue) => issue.message)
+	};
+}
+
+
+
+
+export const TRANSACTION_CONFIG_KEYS: ReadonlyArray<keyof TransactionConfig> = [
+	'type',
+	'enabled',
+	'url',
+	'label',
+	'description',
+	'priority',
+	'price',
+	'minPrice',
+	'maxPrice',
+	'suggestedPrices',
+	'currency',
+	'availability',
+	'availabilityStarts',
+	'availabilityEnds',
+	'schedule',
+	'seller',
+	'taxIncluded',
+	'buyerRegion',
+	'billingDuration',
+	'billingIncrement',
+	'trial',
+	'tiers'
+];
+
+
+
+
+function editDistance(a: string, b: string): number {
+	const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		let previous = row[0];
+		row[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const current = row[j];
+			row[j] = Math.min(
+				row[j] + 1,
+				row[j - 1] + 1,
+				previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+			previous = current;
+		}
+	}
+	return row[b.length];
+}
+
+
+
+
+export function suggestKey(key: string, known: ReadonlyArray<string>): string | undefined {
+	const lower = key.toLowerCase();
+	let best: string | undefined;
+	let bestDistance = Math.max(1, Math.floor(key.length / 3));
+	for (const candidate of known) {
+		const distance = editDistance(lower, candidate.toLowerCase());
+		if (distance <= bestDistance) {
+			best = candidate;
+			bestDistance = distance - 1;
+		}
+	}
+	return best;
+}
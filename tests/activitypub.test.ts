@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	AS_PUBLIC,
+	FEDERATION_CONTEXT,
+	configure,
+	resetConfig,
+	resolveAudience,
+	toActivityId,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const ACTOR = 'https://tinyland.dev/users/shop';
+
+const PRODUCT: ProductItem = {
+	slug: 'kit',
+	title: 'Kit',
+	frontmatter: { description: 'A kit', seller: { name: 'Tinyland', actor: ACTOR } },
+};
+
+const STRIPE: TransactionConfig = {
+	type: 'stripe',
+	enabled: true,
+	price: '29.90',
+	currency: 'EUR',
+	availabilityEnds: '2026-12-31',
+};
+
+
+
+
+
+describe('activity helpers', () => {
+	it('should resolve audience presets', () => {
+		const followers = `${ACTOR}/followers`;
+		expect(resolveAudience('public', followers)).toEqual({ to: [AS_PUBLIC], cc: [followers] });
+		expect(resolveAudience('unlisted', followers)).toEqual({ to: [followers], cc: [AS_PUBLIC] });
+		expect(resolveAudience('followers', followers)).toEqual({ to: [followers], cc: [] });
+		expect(resolveAudience({ to: ['https://a.example/u/1'] }, followers)).toEqual({
+			to: ['https://a.example/u/1'],
+			cc: [],
+		});
+	});
+
+	it('should derive stable activity ids from the object id', () => {
+		expect(toActivityId('https://x.dev/products/kit#offer-stripe', 'Create')).toBe(
+			'https://x.dev/products/kit#offer-stripe-create'
+		);
+		expect(toActivityId('https://x.dev/o/1', 'Update', '2026-01-01T00:00:00.000Z')).toBe(
+			'https://x.dev/o/1#update-1767225600000'
+		);
+	});
+});
+
+
+
+
+
+describe('offerToActivityStreams', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should keep price, currency, availability and payment methods', () => {
+		const offer = svc.buildOffer(PRODUCT, STRIPE, BASE_URL, { asOf: '2026-06-01' });
+		const object = svc.offerToActivityStreams(offer);
+
+		expect(object).toMatchObject({
+			'@context': FEDERATION_CONTEXT,
+			id: `${BASE_URL}/products/kit#offer-stripe`,
+			type: 'Offer',
+			price: '29.90',
+			priceCurrency: 'EUR',
+			availability: 'https://schema.org/InStock',
+			availabilityEnds: '2026-12-31',
+			acceptedPaymentMethod: ['CreditCard', 'PaymentService'],
+			attributedTo: ACTOR,
+			seller: { type: 'Organization', id: ACTOR, name: 'Tinyland' },
+			itemOffered: { type: 'Product', name: 'Kit', summary: 'A kit' },
+		});
+		expect(object.priceSpecification).toEqual(offer.priceSpecification);
+		expect(object.priceSpecification).not.toBe(offer.priceSpecification);
+		expect(object.attachment).toEqual([svc.offerToActivityPubAttachment(offer)]);
+	});
+
+	it('should serialize donate actions with their recipient', () => {
+		const offer = svc.buildOffer(
+			PRODUCT,
+			{ type: 'liberapay', enabled: true, url: 'https://liberapay.com/tinyland', price: 5, currency: 'EUR' },
+			BASE_URL
+		);
+		const object = svc.offerToActivityStreams(offer);
+
+		expect(object.type).toBe('DonateAction');
+		expect(object.url).toBe('https://liberapay.com/tinyland');
+		expect(object.recipient).toMatchObject({ id: ACTOR, name: 'Tinyland' });
+		expect(object.availability).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('createOfferActivity', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should wrap the offer in a public Create activity', () => {
+		const offer = svc.buildOffer(PRODUCT, STRIPE, BASE_URL);
+		const activity = svc.createOfferActivity(offer, { published: '2026-10-18T12:00:00Z' });
+
+		expect(activity).toMatchObject({
+			'@context': FEDERATION_CONTEXT,
+			id: `${BASE_URL}/products/kit#offer-stripe-create`,
+			type: 'Create',
+			actor: ACTOR,
+			published: '2026-10-18T12:00:00.000Z',
+			to: [AS_PUBLIC],
+			cc: [`${ACTOR}/followers`],
+		});
+		expect(activity.object).toMatchObject({ attributedTo: ACTOR, to: [AS_PUBLIC], published: activity.published });
+		expect(activity.object['@context']).toBeUndefined();
+	});
+
+	it('should use configured federation defaults', () => {
+		configure({ federation: { actor: 'https://tinyland.dev/users/robin', audience: 'followers' } });
+		const offer = svc.buildOffer({ slug: 'kit', title: 'Kit', frontmatter: {} }, STRIPE, BASE_URL);
+		const activity = svc.createOfferActivity(offer);
+
+		expect(activity.actor).toBe('https://tinyland.dev/users/robin');
+		expect(activity.to).toEqual(['https://tinyland.dev/users/robin/followers']);
+		expect(activity.cc).toEqual([]);
+	});
+
+	it('should require an actor', () => {
+		const offer = svc.buildOffer({ slug: 'kit', title: 'Kit', frontmatter: {} }, STRIPE, BASE_URL);
+		expect(() => svc.createOfferActivity(offer)).toThrow('without an actor');
+		expect(() => svc.createOfferActivity(offer, { actor: ACTOR, published: 'nope' })).toThrow(
+			'Invalid published date: nope'
+		);
+	});
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	configure,
+	resetConfig,
+	createExchangeRateTable,
+	convertMoney,
+	Money,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig, ValidationIssue } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeProduct(transactions: TransactionConfig[]): ProductItem {
+	return { slug: 'widget', title: 'Widget', frontmatter: { transactions } };
+}
+
+
+
+
+
+describe('exchange rate tables', () => {
+	const rates = createExchangeRateTable('EUR', { USD: '1.08', XMR: '0.006', JPY: 160 });
+
+	it('should return direct and cross rates', () => {
+		expect(rates.getRate('EUR', 'USD')).toBe('1.08');
+		expect(rates.getRate('USD', 'EUR')).toBe('0.925925925925925926');
+		expect(rates.getRate('XMR', 'USD')).toBe('180');
+		expect(rates.getRate('USD', 'GBP')).toBeUndefined();
+	});
+
+	it('should reject non-positive rates', () => {
+		expect(() => createExchangeRateTable('EUR', { USD: 0 })).toThrow('Invalid exchange rate for USD: 0');
+	});
+
+	it('should convert money into target minor units', () => {
+		expect(convertMoney(Money.parse('0.5', 'XMR'), 'USD', rates)!.toString()).toBe('90.00');
+		expect(convertMoney(Money.parse('10', 'USD'), 'JPY', rates)!.toString()).toBe('1481');
+		expect(convertMoney(Money.parse('10', 'USD'), 'USD', undefined)!.toString()).toBe('10');
+		expect(convertMoney(Money.parse('10', 'USD'), 'GBP', rates)).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('buildAggregateOffer', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should summarize single-currency offers', () => {
+		const offers = svc.buildAllOffers(
+			makeProduct([
+				{ type: 'stripe', enabled: true, price: '29.99', priority: 2 },
+				{ type: 'etsy', enabled: true, url: 'https://etsy.com/listing/1', price: 35, priority: 1 },
+				{ type: 'inquiry', enabled: true },
+			]),
+			BASE_URL
+		);
+		const aggregate = svc.buildAggregateOffer(offers)!;
+		expect(aggregate).toMatchObject({
+			'@context': 'https://schema.org',
+			'@type': 'AggregateOffer',
+			'@id': 'https://tinyland.dev/products/widget#aggregate-offer',
+			lowPrice: '29.99',
+			highPrice: 35,
+			priceCurrency: 'USD',
+			offerCount: 2,
+		});
+		expect(aggregate.offers.map((o) => o.transactionType)).toEqual(['stripe', 'etsy']);
+		expect(aggregate.offers[0]).not.toHaveProperty('@context');
+	});
+
+	it('should skip non-monetary offers', () => {
+		const offers = svc.buildAllOffers(
+			makeProduct([
+				{ type: 'inquiry', enabled: true },
+				{ type: 'repository', enabled: true, url: 'https://github.com/t' },
+			]),
+			BASE_URL
+		);
+		expect(svc.buildAggregateOffer(offers)).toBeUndefined();
+	});
+
+	it('should include priced reserve and donate actions', () => {
+		const offers = svc.buildAllOffers(
+			makeProduct([
+				{ type: 'stripe', enabled: true, price: 10, priority: 3 },
+				{ type: 'booking', enabled: true, url: 'https://cal.example/t', price: 80, priority: 2 },
+				{ type: 'kofi', enabled: true, url: 'https://ko-fi.com/t', price: 3, priority: 1 },
+			]),
+			BASE_URL
+		);
+		const aggregate = svc.buildAggregateOffer(offers)!;
+
+		expect(aggregate).toMatchObject({ lowPrice: 3, highPrice: 80, offerCount: 3 });
+		expect(aggregate.offers.map((o) => o['@type'])).toEqual(['Offer', 'ReserveAction', 'DonateAction']);
+	});
+
+	it('should use pay-what-you-want bounds', () => {
+		const offers = svc.buildAllOffers(
+			makeProduct([{ type: 'stripe', enabled: true, minPrice: 2, maxPrice: 50, suggestedPrices: [10] }]),
+			BASE_URL
+		);
+		expect(svc.buildAggregateOffer(offers)).toMatchObject({ lowPrice: 2, highPrice: 50 });
+	});
+
+	const mixed: TransactionConfig[] = [
+		{ type: 'stripe', enabled: true, price: 100, priority: 2 },
+		{ type: 'monero', enabled: true, price: '0.5', currency: 'XMR', priority: 1 },
+	];
+
+	it('should refuse to compare currencies without rates when asked to throw', () => {
+		const offers = svc.buildAllOffers(makeProduct(mixed), BASE_URL);
+		expect(() => svc.buildAggregateOffer(offers, { onMixedCurrency: 'throw' })).toThrow(
+			'Cannot aggregate XMR offer https://tinyland.dev/products/widget#offer-monero into USD without an exchange rate'
+		);
+	});
+
+	it('should skip and report unconvertible offers by default', () => {
+		const offers = svc.buildAllOffers(makeProduct(mixed), BASE_URL);
+		const excluded: ValidationIssue[] = [];
+		const aggregate = svc.buildAggregateOffer(offers, { onExclude: (issue) => excluded.push(issue) })!;
+		expect(aggregate.offerCount).toBe(1);
+		expect(aggregate.lowPrice).toBe(100);
+		expect(excluded).toEqual([
+			expect.objectContaining({
+				code: 'AGGREGATE_OFFER_EXCLUDED',
+				path: '$[1]',
+				severity: 'warning',
+				params: { id: 'https://tinyland.dev/products/widget#offer-monero', currency: 'XMR', target: 'USD' },
+			}),
+		]);
+		expect(svc.buildAggregateOffer(offers, { onMixedCurrency: 'skip' })!.offerCount).toBe(1);
+	});
+
+	it('should normalize through a rate table', () => {
+		const offers = svc.buildAllOffers(makeProduct(mixed), BASE_URL);
+		const rates = createExchangeRateTable('USD', { XMR: '0.004' });
+		const aggregate = svc.buildAggregateOffer(offers, { rates })!;
+		expect(aggregate).toMatchObject({ lowPrice: 100, highPrice: '125.00', offerCount: 2, priceCurrency: 'USD' });
+	});
+
+	it('should honor an explicit target currency and configured rates', () => {
+		configure({ exchangeRates: createExchangeRateTable('USD', { EUR: '0.9', XMR: '0.005' }) });
+		const offers = svc.buildAllOffers(makeProduct(mixed), BASE_URL);
+		const aggregate = svc.buildAggregateOffer(offers, { currency: 'eur' })!;
+		expect(aggregate).toMatchObject({ lowPrice: '90.00', highPrice: '90.00', priceCurrency: 'EUR' });
+	});
+
+	it('should return undefined for an empty list', () => {
+		expect(svc.buildAggregateOffer([])).toBeUndefined();
+	});
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	resetConfig,
+	formatBillingSuffix,
+	getTierId,
+	toQuantitativeValue,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeProduct(frontmatter: Record<string, unknown> = {}): ProductItem {
+	return { slug: 'plan', title: 'Plan', frontmatter };
+}
+
+function polar(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return {
+		type: 'polar',
+		enabled: true,
+		url: 'https://polar.sh/tinyland',
+		price: 5,
+		currency: 'USD',
+		billingDuration: 'month',
+		...overrides,
+	};
+}
+
+
+
+
+
+describe('subscription price specifications', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit a monthly UnitPriceSpecification', () => {
+		const offer = svc.buildOffer(makeProduct(), polar(), BASE_URL);
+		expect(offer.priceSpecification).toEqual({
+			'@type': 'UnitPriceSpecification',
+			price: 5,
+			priceCurrency: 'USD',
+			valueAddedTaxIncluded: false,
+			priceComponentType: 'https://schema.org/Subscription',
+			referenceQuantity: { '@type': 'QuantitativeValue', value: 1, unitCode: 'MON', unitText: 'month' },
+			billingIncrement: 1,
+			unitCode: 'MON',
+		});
+	});
+
+	it('should honor billingIncrement', () => {
+		const offer = svc.buildOffer(makeProduct(), polar({ billingDuration: 'week', billingIncrement: 2 }), BASE_URL);
+		expect(offer.priceSpecification!.referenceQuantity).toEqual(toQuantitativeValue(2, 'week'));
+		expect(offer.priceSpecification!.billingIncrement).toBe(2);
+	});
+
+	it('should leave one-time prices alone when no billing period is set', () => {
+		const offer = svc.buildOffer(makeProduct(), polar({ billingDuration: undefined }), BASE_URL);
+		expect(offer.priceSpecification!['@type']).toBe('PriceSpecification');
+		expect(offer.priceSpecification!.referenceQuantity).toBeUndefined();
+	});
+
+	it('should ignore billing periods on non-subscription mappings', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			{ type: 'stripe', enabled: true, price: 5, billingDuration: 'month' },
+			BASE_URL
+		);
+		expect(offer.priceSpecification!['@type']).toBe('PriceSpecification');
+	});
+
+	it('should wrap a trial in a CompoundPriceSpecification', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			polar({ trial: { duration: 14, unit: 'day' } }),
+			BASE_URL
+		);
+		const spec = offer.priceSpecification!;
+		expect(spec['@type']).toBe('CompoundPriceSpecification');
+		expect(spec.price).toBe(5);
+		expect(spec.priceComponent).toHaveLength(2);
+		expect(spec.priceComponent![0]).toEqual({
+			'@type': 'UnitPriceSpecification',
+			price: 0,
+			priceCurrency: 'USD',
+			valueAddedTaxIncluded: false,
+			billingDuration: { '@type': 'QuantitativeValue', value: 14, unitCode: 'DAY', unitText: 'day' },
+		});
+		expect(spec.priceComponent![1].priceComponentType).toBe('https://schema.org/Subscription');
+		expect(spec.priceComponent!.map((component) => component.priceType)).toEqual([undefined, undefined]);
+	});
+
+	it('should apply billing to recurring liberapay donations', () => {
+		const node = svc.buildOffer(
+			makeProduct(),
+			{ type: 'liberapay', enabled: true, url: 'https://liberapay.com/t', price: '1.00', currency: 'EUR', billingDuration: 'week' },
+			BASE_URL
+		);
+		expect(node['@type']).toBe('DonateAction');
+		expect(node.priceSpecification!.unitCode).toBe('WEE');
+	});
+});
+
+describe('subscription tiers', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	const tiered = polar({
+		price: undefined,
+		label: 'Membership',
+		tiers: [
+			{ name: 'Basic', price: 5 },
+			{ id: 'pro', name: 'Pro Plan', price: '15.00', billingDuration: 'year', description: 'Everything' },
+		],
+	});
+
+	it('should derive tier ids from names', () => {
+		expect(getTierId({ name: 'Pro Plan!', price: 1 })).toBe('pro-plan');
+		expect(getTierId({ id: 'x', name: 'Pro', price: 1 })).toBe('x');
+	});
+
+	it('should build one offer per tier', () => {
+		const offers = svc.buildAllOffers(makeProduct({ transactions: [tiered] }), BASE_URL);
+		expect(offers.map((o) => o['@id'])).toEqual([
+			'https://tinyland.dev/products/plan#offer-polar-basic',
+			'https://tinyland.dev/products/plan#offer-polar-pro',
+		]);
+		expect(offers.map((o) => o.name)).toEqual(['Membership (Basic)', 'Membership (Pro Plan)']);
+		expect(offers[1].price).toBe('15.00');
+		expect(offers[1].description).toBe('Everything');
+		expect(offers[1].priceSpecification!.unitCode).toBe('ANN');
+		expect(offers[0].priceSpecification!.unitCode).toBe('MON');
+	});
+
+	it('should throw for an unknown tier', () => {
+		expect(() => svc.buildOffer(makeProduct(), tiered, BASE_URL, { tier: 'gold' })).toThrow(
+			'Unknown subscription tier: gold'
+		);
+	});
+
+	it('should accept tiers in place of a base price', () => {
+		expect(svc.validateTransaction(tiered).valid).toBe(true);
+	});
+});
+
+describe('subscription validation', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should accept a valid subscription', () => {
+		expect(svc.validateTransaction(polar({ billingIncrement: 3, trial: { duration: 7, unit: 'day' } })).valid).toBe(true);
+	});
+
+	it('should reject billing on non-subscription types', () => {
+		const result = svc.validateTransaction({ type: 'stripe', enabled: true, price: 5, billingDuration: 'month' });
+		expect(result.errors).toContain('Transaction type "stripe" does not support subscription billing');
+	});
+
+	it('should reject unknown billing durations and bad increments', () => {
+		const result = svc.validateTransaction(
+			polar({ billingDuration: 'fortnight' as never, billingIncrement: 1.5 })
+		);
+		expect(result.errors).toContain('Invalid billing duration: fortnight');
+		expect(result.errors).toContain('Invalid billing increment: 1.5');
+	});
+
+	it('should reject invalid trials', () => {
+		const result = svc.validateTransaction(polar({ trial: { duration: 0, unit: 'day', price: 'free' } }));
+		expect(result.errors).toContain('Invalid trial period: 0 day');
+		expect(result.errors).toContain('Invalid trial price: free');
+	});
+
+	it('should require a billing duration for increments and trials', () => {
+		const result = svc.validateTransaction(polar({ billingDuration: undefined, billingIncrement: 2 }));
+		expect(result.errors).toContain('Billing increment and trial require a billing duration');
+	});
+
+	it('should validate tiers', () => {
+		const result = svc.validateTransaction(
+			polar({
+				tiers: [
+					{ name: 'Basic', price: 5 },
+					{ name: 'basic', price: 'x' },
+					{ name: '', price: 1 },
+				],
+			})
+		);
+		expect(result.errors).toContain('Duplicate subscription tier: basic');
+		expect(result.errors).toContain('Invalid price for tier "basic": x');
+		expect(result.errors).toContain('Subscription tier requires a name');
+	});
+
+	it('should reject empty tier lists', () => {
+		expect(svc.validateTransaction(polar({ tiers: [] })).errors).toContain(
+			'Subscription tiers must be a non-empty list'
+		);
+	});
+});
+
+describe('subscription attachments', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should append /month to the attachment value', () => {
+		const offer = svc.buildOffer(makeProduct(), polar({ label: 'Sponsor', url: undefined }), BASE_URL);
+		expect(svc.offerToActivityPubAttachment(offer).value).toBe('Sponsor - 5 USD/month');
+	});
+
+	it('should pluralize increments and mention trials', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			polar({ billingIncrement: 3, trial: { duration: 14, unit: 'day' } }),
+			BASE_URL
+		);
+		expect(formatBillingSuffix(offer.priceSpecification)).toBe('/3 months (14-day trial)');
+	});
+
+	it('should return an empty suffix for one-time prices', () => {
+		expect(formatBillingSuffix(undefined)).toBe('');
+		expect(formatBillingSuffix({ '@type': 'PriceSpecification', price: 1, priceCurrency: 'USD' })).toBe('');
+	});
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfferBuilderService, configure, createTransactionRegistry, resetConfig } from '../src/index.js';
+import type { ProductItem, Span, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeProduct(slug: string, transactions: unknown): ProductItem {
+	return { slug, title: slug, frontmatter: { transactions } };
+}
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '10.00', currency: 'USD', priority: 2 };
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 1 };
+
+const CATALOG: ProductItem[] = [
+	makeProduct('good', [STRIPE, INQUIRY]),
+	makeProduct('mixed', [STRIPE, { type: 'gumroad', enabled: true }]),
+	makeProduct('broken', { type: 'stripe' }),
+];
+
+
+
+
+
+describe('buildCatalog', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should keep good transactions in lenient mode', () => {
+		const result = svc.buildCatalog(CATALOG, BASE_URL);
+
+		expect(result.mode).toBe('lenient');
+		expect(result.products.map((p) => [p.slug, p.status, p.offers.length])).toEqual([
+			['good', 'ok', 2],
+			['mixed', 'partial', 1],
+			['broken', 'failed', 0],
+		]);
+		expect(result.summary).toEqual({
+			products: 3,
+			succeeded: 1,
+			partial: 1,
+			failed: 1,
+			offers: 3,
+			errors: 2,
+			warnings: 0,
+		});
+	});
+
+	it('should report errors per product and transaction', () => {
+		const { errors } = svc.buildCatalog(CATALOG, BASE_URL);
+
+		expect(errors).toEqual([
+			expect.objectContaining({
+				slug: 'mixed',
+				index: 1,
+				type: 'gumroad',
+				code: 'TYPE_UNKNOWN',
+				path: '$.frontmatter.transactions[1].type',
+				message: 'Unknown transaction type: gumroad',
+			}),
+			expect.objectContaining({ slug: 'broken', code: 'TRANSACTIONS_INVALID' }),
+		]);
+		expect(errors[1].index).toBeUndefined();
+	});
+
+	it('should drop a product entirely in strict mode', () => {
+		const result = svc.buildCatalog(CATALOG, BASE_URL, { mode: 'strict' });
+
+		expect(result.products.map((p) => [p.slug, p.status, p.offers.length])).toEqual([
+			['good', 'ok', 2],
+			['mixed', 'failed', 0],
+			['broken', 'failed', 0],
+		]);
+		expect(result.summary.offers).toBe(2);
+	});
+
+	it('should reject invalid transactions before building', () => {
+		const product: ProductItem = {
+			slug: 'seller',
+			title: 'Seller',
+			frontmatter: { transactions: [STRIPE, { ...INQUIRY, seller: 'ghost' }] },
+		};
+		const result = svc.buildCatalog([product], BASE_URL);
+
+		expect(result.products[0].status).toBe('partial');
+		expect(result.products[0].offers).toHaveLength(1);
+		expect(result.errors[0]).toMatchObject({ slug: 'seller', index: 1, code: 'SELLER_UNKNOWN' });
+	});
+
+	it('should catch errors thrown while building', () => {
+		const result = svc.buildCatalog([makeProduct('good', [STRIPE])], BASE_URL, { asOf: 'someday' });
+
+		expect(result.products[0].status).toBe('failed');
+		expect(result.errors).toEqual([
+			expect.objectContaining({
+				slug: 'good',
+				index: 0,
+				type: 'stripe',
+				code: 'BUILD_FAILED',
+				path: '$.frontmatter.transactions[0]',
+				message: 'Invalid asOf date: someday',
+			}),
+		]);
+	});
+
+	it('should keep warnings separate and preserve priority order', () => {
+		const result = svc.buildCatalog(
+			[makeProduct('warn', [INQUIRY, { type: 'stripe', enabled: true, price: '5.00', priority: 3 }])],
+			BASE_URL
+		);
+
+		expect(result.products[0].status).toBe('ok');
+		expect(result.products[0].warnings.map((w) => w.code)).toEqual(['CURRENCY_DEFAULTED']);
+		expect(result.products[0].offers.map((o) => o['@id'])).toEqual([
+			`${BASE_URL}/products/warn#offer-stripe`,
+			`${BASE_URL}/products/warn#offer-inquiry`,
+		]);
+	});
+
+	it('should treat issues on disabled transactions as warnings', () => {
+		const placeholder = makeProduct('placeholder', [STRIPE, { type: 'ebay', enabled: false }]);
+
+		for (const mode of ['lenient', 'strict'] as const) {
+			const result = svc.buildCatalog([placeholder], BASE_URL, { mode });
+			expect(result.products[0]).toMatchObject({ status: 'ok', errors: [] });
+			expect(result.products[0].offers).toHaveLength(1);
+			expect(result.products[0].warnings.map(({ code, index, severity }) => [code, index, severity])).toEqual([
+				['URL_REQUIRED', 1, 'warning'],
+				['PRICE_REQUIRED', 1, 'warning'],
+			]);
+		}
+		expect(svc.buildAllOffers(placeholder, BASE_URL)).toHaveLength(1);
+	});
+
+	it('should surface validator crashes instead of hiding them', () => {
+		const registry = createTransactionRegistry();
+		registry.override('etsy', {
+			validate: () => {
+				throw new Error('Etsy rule exploded');
+			},
+		});
+		const scoped = new OfferBuilderService({ registry });
+		const product = makeProduct('throws', [
+			STRIPE,
+			{ type: 'etsy', enabled: true, url: 'https://www.etsy.com/listing/1', price: 5, currency: 'USD' },
+		]);
+
+		expect(() => scoped.validateProduct(product)).toThrow('Etsy rule exploded');
+
+		const result = scoped.buildCatalog([product], BASE_URL);
+		expect(result.products[0].status).toBe('failed');
+		expect(result.errors).toEqual([
+			expect.objectContaining({ code: 'BUILD_FAILED', path: '$', message: 'Etsy rule exploded' }),
+		]);
+	});
+
+	it('should emit a span per product', () => {
+		const spans: Array<{ name: string; attributes: Record<string, unknown>; status?: number }> = [];
+		configure({
+			tracer: {
+				startActiveSpan: (name, fn) => {
+					const record = { name, attributes: {} as Record<string, unknown>, status: undefined as number | undefined };
+					spans.push(record);
+					const span: Span = {
+						setAttribute: (key, value) => {
+							record.attributes[key] = value;
+						},
+						setStatus: ({ code }) => {
+							record.status = code;
+						},
+						recordException: () => {},
+						end: () => {},
+					};
+					return fn(span);
+				},
+			},
+		});
+
+		svc.buildCatalog(CATALOG, BASE_URL);
+
+		const productSpans = spans.filter((s) => s.name === 'OfferBuilderService.buildCatalogProduct');
+		expect(productSpans.map((s) => [s.attributes['product.slug'], s.status])).toEqual([
+			['good', 1],
+			['mixed', 1],
+			['broken', 2],
+		]);
+		const root = spans.find((s) => s.name === 'OfferBuilderService.buildCatalog');
+		expect(root?.attributes).toMatchObject({ 'catalog.mode': 'lenient', 'catalog.products': 3, 'catalog.offers': 3 });
+	});
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	ISO_4217_CURRENCIES,
+	CRYPTO_ASSETS,
+	getCurrency,
+	listCurrencies,
+	isKnownCurrency,
+	isCryptoCurrency,
+	getMinorUnits,
+	formatPrice,
+	configure,
+	resetConfig,
+	Money,
+	OfferBuilderService,
+} from '../src/index.js';
+import type { TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeTransaction(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return { type: 'stripe', enabled: true, price: 10, currency: 'USD', ...overrides };
+}
+
+
+
+
+
+describe('currency registry', () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it('should ship the ISO 4217 list with unique codes', () => {
+		const codes = ISO_4217_CURRENCIES.map((c) => c.code);
+		expect(codes.length).toBeGreaterThan(150);
+		expect(new Set(codes).size).toBe(codes.length);
+		codes.forEach((code) => expect(code).toMatch(/^[A-Z]{3}$/));
+	});
+
+	it('should carry ISO minor units', () => {
+		expect(getMinorUnits('JPY')).toBe(0);
+		expect(getMinorUnits('KWD')).toBe(3);
+		expect(getMinorUnits('CLF')).toBe(4);
+		expect(getMinorUnits('CHF')).toBe(2);
+	});
+
+	it('should carry symbols where available', () => {
+		expect(getCurrency('EUR')!.symbol).toBe('€');
+		expect(getCurrency('USD')!.symbol).toBe('$');
+	});
+
+	it('should describe crypto assets with chain and decimals', () => {
+		expect(getCurrency('XMR')).toEqual(CRYPTO_ASSETS.find((c) => c.code === 'XMR'));
+		expect(getCurrency('USDC')).toMatchObject({ kind: 'crypto', chain: 'ethereum', decimals: 6 });
+		expect(getMinorUnits('ETH')).toBe(18);
+	});
+
+	it('should look up codes case-insensitively', () => {
+		expect(getCurrency('eur')!.code).toBe('EUR');
+		expect(isCryptoCurrency('btc')).toBe(true);
+	});
+
+	it('should classify fiat and crypto', () => {
+		expect(isKnownCurrency('JPY')).toBe(true);
+		expect(isKnownCurrency('ABC')).toBe(false);
+		expect(isCryptoCurrency('USD')).toBe(false);
+		expect(listCurrencies('crypto').every((c) => c.kind === 'crypto')).toBe(true);
+	});
+
+	it('should accept custom assets through configure()', () => {
+		configure({
+			currencies: [{ kind: 'crypto', code: 'KAS', name: 'Kaspa', decimals: 8, chain: 'kaspa' }],
+		});
+		expect(isCryptoCurrency('KAS')).toBe(true);
+		expect(Money.parse('0.00000001', 'KAS').toMinorUnits()).toBe(1n);
+		expect(listCurrencies().some((c) => c.code === 'KAS')).toBe(true);
+	});
+
+	it('should let configured entries override builtins', () => {
+		configure({ currencies: [{ kind: 'fiat', code: 'USD', name: 'Dollar', minorUnits: 4 }] });
+		expect(getMinorUnits('USD')).toBe(4);
+		expect(listCurrencies().filter((c) => c.code === 'USD')).toHaveLength(1);
+	});
+});
+
+describe('formatPrice', () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it('should pad fractional amounts to the minor units', () => {
+		expect(formatPrice('29.9', 'USD')).toBe('29.90 USD');
+	});
+
+	it('should leave whole amounts untouched', () => {
+		expect(formatPrice(50, 'EUR')).toBe('50 EUR');
+	});
+
+	it('should not truncate extra precision', () => {
+		expect(formatPrice('0.123456789012', 'XMR')).toBe('0.123456789012 XMR');
+	});
+
+	it('should expand numbers written in exponent notation', () => {
+		expect(formatPrice(0.0000001, 'XMR')).toBe('0.000000100000 XMR');
+		expect(formatPrice(1e21, 'USD')).toBe('1000000000000000000000 USD');
+	});
+
+	it('should render symbols on request', () => {
+		expect(formatPrice('5', 'GBP', { display: 'symbol' })).toBe('£5');
+		expect(formatPrice('0.5', 'BTC', { display: 'symbol' })).toBe('0.50000000 ₿');
+	});
+
+	it('should fall back to the code for unknown currencies', () => {
+		expect(formatPrice('5', 'ABC', { display: 'symbol' })).toBe('5 ABC');
+	});
+});
+
+
+
+
+
+describe('OfferBuilderService currency handling', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should accept JPY, CHF and stablecoins', () => {
+		expect(svc.validateTransaction(makeTransaction({ currency: 'JPY', price: 1500 })).valid).toBe(true);
+		expect(svc.validateTransaction(makeTransaction({ currency: 'CHF' })).valid).toBe(true);
+		expect(svc.validateTransaction(makeTransaction({ currency: 'USDC' })).valid).toBe(true);
+	});
+
+	it('should reject fractional JPY', () => {
+		const result = svc.validateTransaction(makeTransaction({ currency: 'JPY', price: '10.5' }));
+		expect(result.errors).toContain('Price 10.5 has more decimal places than JPY allows');
+	});
+
+	it('should accept registered crypto assets for monero-type offers', () => {
+		const result = svc.validateTransaction(makeTransaction({ type: 'monero', currency: 'DAI' }));
+		expect(result.valid).toBe(true);
+	});
+
+	it('should use UnitPriceSpecification for crypto prices on any channel', () => {
+		const offer = svc.buildOffer(
+			{ slug: 's', title: 'T', frontmatter: {} },
+			makeTransaction({ currency: 'USDC' }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!['@type']).toBe('UnitPriceSpecification');
+		expect(offer.priceSpecification!.valueAddedTaxIncluded).toBeUndefined();
+	});
+
+	it('should format attachment prices through the registry', () => {
+		const offer = svc.buildOffer(
+			{ slug: 's', title: 'T', frontmatter: {} },
+			makeTransaction({ price: '12.5', currency: 'EUR' }),
+			BASE_URL
+		);
+		expect(svc.offerToActivityPubAttachment(offer).value).toContain('12.50 EUR');
+	});
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfferBuilderService, AS_PUBLIC, diffOffers, resetConfig } from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const ACTOR = 'https://tinyland.dev/users/shop';
+const PUBLISHED = '2026-10-18T12:00:00.000Z';
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.90', currency: 'EUR', priority: 2 };
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 1 };
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'EUR',
+};
+
+function makeProduct(transactions: TransactionConfig[]): ProductItem {
+	return {
+		slug: 'kit',
+		title: 'Kit',
+		frontmatter: { seller: { name: 'Tinyland', actor: ACTOR }, transactions },
+	};
+}
+
+
+
+
+
+describe('diffOffers', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should classify added, removed, changed and unchanged offers', () => {
+		const before = svc.buildAllOffers(makeProduct([STRIPE, INQUIRY]), BASE_URL);
+		const after = svc.buildAllOffers(
+			makeProduct([{ ...STRIPE, price: '24.90' }, { ...INQUIRY, enabled: false }, KOFI]),
+			BASE_URL
+		);
+		const diff = svc.diffOffers(before, after);
+
+		expect(diff.added.map((o) => o['@id'])).toEqual([`${BASE_URL}/products/kit#action-kofi`]);
+		expect(diff.removed.map((o) => o['@id'])).toEqual([`${BASE_URL}/products/kit#offer-inquiry`]);
+		expect(diff.unchanged).toEqual([]);
+		expect(diff.changed).toHaveLength(1);
+		expect(diff.changed[0].id).toBe(`${BASE_URL}/products/kit#offer-stripe`);
+		expect(diff.changed[0].changes).toEqual([
+			{ field: 'price', before: '29.90', after: '24.90' },
+			{
+				field: 'priceSpecification',
+				before: expect.objectContaining({ price: '29.90' }),
+				after: expect.objectContaining({ price: '24.90' }),
+			},
+		]);
+	});
+
+	it('should ignore key order and report dropped fields', () => {
+		const offers = svc.buildAllOffers(makeProduct([STRIPE]), BASE_URL);
+		const reordered = offers.map((offer) => Object.fromEntries(Object.entries(offer).reverse())) as typeof offers;
+		expect(diffOffers(offers, reordered).unchanged).toHaveLength(1);
+
+		const { priceSpecification: _spec, ...rest } = offers[0];
+		const [change] = diffOffers(offers, [rest as (typeof offers)[0]]).changed;
+		expect(change.changes).toEqual([{ field: 'priceSpecification', before: offers[0].priceSpecification }]);
+	});
+
+	it('should reject duplicate offer ids', () => {
+		const offers = svc.buildAllOffers(makeProduct([STRIPE]), BASE_URL);
+		expect(() => diffOffers([...offers, ...offers], [])).toThrow('Duplicate offer id in previous offers');
+	});
+});
+
+
+
+
+
+describe('createDiffActivities', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit Create, Update and Delete activities with stable ids', () => {
+		const before = svc.buildAllOffers(makeProduct([STRIPE, INQUIRY]), BASE_URL);
+		const after = svc.buildAllOffers(makeProduct([{ ...STRIPE, price: '24.90' }, KOFI]), BASE_URL);
+		const activities = svc.createDiffActivities(svc.diffOffers(before, after), { published: PUBLISHED });
+
+		expect(activities.map((a) => [a.type, a.id])).toEqual([
+			['Create', `${BASE_URL}/products/kit#action-kofi-create`],
+			['Update', `${BASE_URL}/products/kit#offer-stripe-update-1792324800000`],
+			['Delete', `${BASE_URL}/products/kit#offer-inquiry-delete-1792324800000`],
+		]);
+		expect(activities.every((a) => a.published === PUBLISHED && a.actor === ACTOR)).toBe(true);
+		expect(activities[1].object).toMatchObject({ price: '24.90', updated: PUBLISHED, to: [AS_PUBLIC] });
+		expect(activities[2].object).toEqual({
+			id: `${BASE_URL}/products/kit#offer-inquiry`,
+			type: 'Tombstone',
+			formerType: 'Offer',
+			deleted: PUBLISHED,
+		});
+	});
+
+	it('should return nothing when offers are unchanged', () => {
+		const offers = svc.buildAllOffers(makeProduct([STRIPE]), BASE_URL);
+		expect(svc.createDiffActivities(svc.diffOffers(offers, offers))).toEqual([]);
+	});
+
+	it('should build single Update and Delete activities', () => {
+		const [offer] = svc.buildAllOffers(makeProduct([STRIPE]), BASE_URL);
+		const update = svc.updateOfferActivity(offer, { published: PUBLISHED });
+		expect(update.object.published).toBeUndefined();
+		expect(update.object.updated).toBe(PUBLISHED);
+
+		const orphan = { ...offer, seller: undefined };
+		expect(() => svc.deleteOfferActivity(orphan)).toThrow('without an actor');
+	});
+});
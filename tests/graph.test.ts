@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	SCHEMA_ORG_CONTEXT,
+	TINYLAND_TERMS,
+	resetConfig,
+	toJsonLdScript,
+} from '../src/index.js';
+import type { JsonLdNode, ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const ACTOR = 'https://tinyland.dev/users/shop';
+const PRODUCT_ID = `${BASE_URL}/products/kit#product`;
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '10.00', currency: 'USD', priority: 3 };
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'USD',
+	priority: 2,
+};
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 1 };
+
+function makeProduct(frontmatter: Record<string, unknown>): ProductItem {
+	return { slug: 'kit', title: 'Kit', frontmatter: { description: 'A kit', ...frontmatter } };
+}
+
+function byId(graph: JsonLdNode[], id: string): JsonLdNode | undefined {
+	return graph.find((node) => node['@id'] === id);
+}
+
+
+
+
+
+describe('buildProductGraph', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit one product, its seller and every offer', () => {
+		const graph = svc.buildProductGraph(
+			makeProduct({ seller: { name: 'Tinyland', actor: ACTOR }, transactions: [STRIPE, KOFI, INQUIRY] }),
+			BASE_URL
+		);
+
+		expect(graph['@context']).toEqual([SCHEMA_ORG_CONTEXT, TINYLAND_TERMS]);
+		expect(graph['@graph'].map((node) => [node['@type'], node['@id']])).toEqual([
+			['Product', PRODUCT_ID],
+			['Organization', ACTOR],
+			['Offer', `${BASE_URL}/products/kit#offer-stripe`],
+			['DonateAction', `${BASE_URL}/products/kit#action-kofi`],
+			['Offer', `${BASE_URL}/products/kit#offer-inquiry`],
+		]);
+		expect(byId(graph['@graph'], PRODUCT_ID)).toEqual({
+			'@type': 'Product',
+			'@id': PRODUCT_ID,
+			name: 'Kit',
+			description: 'A kit',
+			url: `${BASE_URL}/products/kit`,
+			offers: [{ '@id': `${BASE_URL}/products/kit#offer-stripe` }, { '@id': `${BASE_URL}/products/kit#offer-inquiry` }],
+			potentialAction: [{ '@id': `${BASE_URL}/products/kit#action-kofi` }],
+		});
+	});
+
+	it('should cross-reference nodes by @id instead of embedding them', () => {
+		const graph = svc.buildProductGraph(
+			makeProduct({ seller: { name: 'Tinyland', actor: ACTOR }, transactions: [STRIPE, KOFI] }),
+			BASE_URL
+		);
+		const offer = byId(graph['@graph'], `${BASE_URL}/products/kit#offer-stripe`)!;
+		const donate = byId(graph['@graph'], `${BASE_URL}/products/kit#action-kofi`)!;
+
+		expect(offer.itemOffered).toEqual({ '@id': PRODUCT_ID });
+		expect(offer.seller).toEqual({ '@id': ACTOR });
+		expect(offer['@context']).toBeUndefined();
+		expect(donate.recipient).toEqual({ '@id': ACTOR });
+		expect(donate.object).toEqual({ '@id': PRODUCT_ID });
+		expect(JSON.stringify(graph).match(/"name":"Kit"/g)).toHaveLength(1);
+	});
+
+	it('should give sellers without an actor a stable id and deduplicate them', () => {
+		const graph = svc.buildProductGraph(
+			makeProduct({ transactions: [STRIPE, { ...INQUIRY, seller: { name: 'Robin', type: 'Person' } }] }),
+			BASE_URL
+		);
+		const sellers = graph['@graph'].filter((node) => ['Organization', 'Person'].includes(node['@type']));
+
+		expect(sellers.map((node) => node['@id'])).toEqual([
+			`${BASE_URL}#organization`,
+			`${BASE_URL}/products/kit#seller-2`,
+		]);
+	});
+
+	it('should strip extensions in the google-safe profile', () => {
+		const graph = svc.buildProductGraph(makeProduct({ transactions: [STRIPE] }), BASE_URL, {
+			profile: 'google-safe',
+		});
+		expect(graph['@context']).toBe(SCHEMA_ORG_CONTEXT);
+		expect(JSON.stringify(graph)).not.toContain('transactionType');
+	});
+
+	it('should emit a product node when nothing is on offer', () => {
+		const graph = svc.buildProductGraph(makeProduct({}), BASE_URL);
+		expect(graph['@graph']).toHaveLength(1);
+		expect(graph['@graph'][0]).not.toHaveProperty('offers');
+	});
+});
+
+
+
+
+
+describe('toJsonLdScript', () => {
+	it('should escape sequences that end the script element', () => {
+		const script = toJsonLdScript({ name: '</script><script>alert(1)</script> & <!-- \u2028' });
+
+		expect(script.startsWith('<script type="application/ld+json">')).toBe(true);
+		expect(script.endsWith('</script>')).toBe(true);
+		expect(script.slice(0, -'</script>'.length)).not.toMatch(/<\/script/i);
+		expect(script).not.toContain('<!--');
+		expect(script).not.toContain('\u2028');
+
+		const json = script.slice('<script type="application/ld+json">'.length, -'</script>'.length);
+		expect(JSON.parse(json).name).toBe('</script><script>alert(1)</script> & <!-- \u2028');
+	});
+});
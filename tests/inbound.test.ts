@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfferBuilderService, resetConfig, toPlainText } from '../src/index.js';
+import type { ProductItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const ACTOR = 'https://tinyland.dev/users/shop';
+const SOURCE = `${BASE_URL}/products/kit`;
+
+const PRODUCT: ProductItem = {
+	slug: 'kit',
+	title: 'Kit',
+	frontmatter: { description: 'A kit', seller: { name: 'Tinyland', actor: ACTOR } },
+};
+
+const STRIPE: TransactionConfig = {
+	type: 'stripe',
+	enabled: true,
+	price: '29.90',
+	currency: 'EUR',
+};
+
+const POLAR: TransactionConfig = {
+	type: 'polar',
+	enabled: true,
+	url: 'https://polar.sh/tinyland',
+	price: '5.00',
+	currency: 'USD',
+	billingDuration: 'month',
+};
+
+
+
+
+
+describe('toPlainText', () => {
+	it('should strip markup and decode entities', () => {
+		expect(toPlainText('<p>Hand <b>made</b> &amp; <script>x</script>tested</p>')).toBe('Hand made & xtested');
+	});
+});
+
+
+
+
+
+describe('parseFederatedOffer', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should round-trip ActivityStreams objects', () => {
+		const offer = svc.buildOffer(PRODUCT, STRIPE, BASE_URL) as SchemaOffer;
+		const result = svc.parseFederatedOffer(svc.offerToActivityStreams(offer), {
+			receivedAt: '2026-10-18T12:00:00Z',
+		});
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.origin).toEqual({
+			format: 'activitystreams',
+			id: offer['@id'],
+			verified: false,
+			receivedAt: '2026-10-18T12:00:00.000Z',
+		});
+		expect(result.issues).toEqual([
+			expect.objectContaining({ code: 'ORIGIN_UNVERIFIED', path: '$.id', severity: 'warning' }),
+		]);
+		expect(result.offer).toMatchObject({
+			'@id': offer['@id'],
+			name: offer.name,
+			price: '29.90',
+			priceCurrency: 'EUR',
+			availability: 'InStock',
+			transactionType: 'stripe',
+			seller: { '@type': 'Organization', name: 'Tinyland' },
+			itemOffered: { '@type': 'Product', name: 'Kit' },
+		});
+		expect(result.offer.priceSpecification).toEqual(offer.priceSpecification);
+	});
+
+	it('should unwrap Create activities and record the actor', () => {
+		const offer = svc.buildOffer(PRODUCT, POLAR, BASE_URL) as SchemaOffer;
+		const activity = svc.createOfferActivity(offer);
+		const result = svc.parseFederatedOffer(JSON.stringify(activity));
+
+		expect(result.ok).toBe(true);
+		expect(result.origin).toMatchObject({ actor: ACTOR, verified: true });
+		if (result.ok) expect(result.offer.priceSpecification).toEqual(offer.priceSpecification);
+	});
+
+	it('should read schema.org JSON-LD', () => {
+		const offer = svc.buildOffer(PRODUCT, POLAR, BASE_URL) as SchemaOffer;
+		const result = svc.parseFederatedOffer(offer, { source: SOURCE });
+
+		expect(result).toMatchObject({
+			ok: true,
+			origin: { format: 'json-ld', source: SOURCE, verified: true },
+			offer: { '@id': offer['@id'], url: 'https://polar.sh/tinyland', transactionType: 'polar' },
+		});
+	});
+
+	it('should read PropertyValue attachments against a source', () => {
+		const offer = svc.buildOffer(PRODUCT, POLAR, BASE_URL) as SchemaOffer;
+		const attachment = svc.offerToActivityPubAttachment(offer);
+		const result = svc.parseFederatedOffer(attachment, { source: `${SOURCE}#main` });
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.offer).toMatchObject({
+			'@id': `${SOURCE}#offer-polar`,
+			transactionType: 'polar',
+			price: '5.00',
+			priceCurrency: 'USD',
+			url: 'https://polar.sh/tinyland',
+		});
+
+		expect(svc.parseFederatedOffer(attachment).issues[0].code).toBe('ORIGIN_REQUIRED');
+	});
+
+	it('should strip tracking params from inbound URLs', () => {
+		const offer = svc.buildOffer(PRODUCT, POLAR, BASE_URL) as SchemaOffer;
+		const result = svc.parseFederatedOffer({
+			...offer,
+			url: 'https://polar.sh/tinyland?utm_source=fedi',
+			externalUrl: undefined,
+		});
+
+		expect(result.ok && result.offer.url).toBe('https://polar.sh/tinyland');
+	});
+
+	it('should reject unsupported types and unknown transaction types', () => {
+		expect(svc.parseFederatedOffer({ type: 'Note', id: `${SOURCE}#n`, content: 'hi' }).issues).toEqual([
+			expect.objectContaining({ code: 'TYPE_UNSUPPORTED', path: '$.type' }),
+		]);
+		expect(
+			svc.parseFederatedOffer({ type: 'Offer', id: `${SOURCE}#offer-gumroad`, name: 'Kit' }).issues[0]
+		).toMatchObject({ code: 'TYPE_UNKNOWN', path: '$.transactionType' });
+	});
+
+	it('should bound input size and depth', () => {
+		expect(svc.parseFederatedOffer('x'.repeat(100), { maxBytes: 64 }).issues[0].code).toBe('INPUT_TOO_LARGE');
+		expect(svc.parseFederatedOffer('{"type":').issues[0]).toMatchObject({
+			code: 'INPUT_INVALID',
+			message: 'Input is not valid JSON',
+		});
+
+		let nested: Record<string, unknown> = { type: 'Offer' };
+		for (let i = 0; i < 20; i++) nested = { object: nested };
+		expect(svc.parseFederatedOffer(nested).issues[0].code).toBe('INPUT_TOO_LARGE');
+		expect(
+			svc.parseFederatedOffer({ type: 'Offer', name: 'x'.repeat(50) }, { maxStringLength: 10 }).issues[0]
+		).toMatchObject({ code: 'INPUT_TOO_LARGE', path: '$.name' });
+	});
+
+	it('should reject unsafe URLs and spoofed origins', () => {
+		const offer = svc.offerToActivityStreams(svc.buildOffer(PRODUCT, STRIPE, BASE_URL) as SchemaOffer);
+
+		const script = svc.parseFederatedOffer({ ...offer, id: 'javascript:alert(1)' });
+		expect(script.ok).toBe(false);
+		expect(script.issues[0]).toMatchObject({ code: 'URL_PROTOCOL_INVALID', path: '$.id' });
+
+		const spoofed = svc.parseFederatedOffer({
+			type: 'Create',
+			actor: 'https://evil.example/users/x',
+			object: offer,
+		});
+		expect(spoofed.issues[0]).toMatchObject({ code: 'ORIGIN_MISMATCH', path: '$.object.id' });
+	});
+
+	it('should validate inbound price specifications', () => {
+		const offer = svc.offerToActivityStreams(svc.buildOffer(PRODUCT, STRIPE, BASE_URL) as SchemaOffer);
+		const result = svc.parseFederatedOffer(
+			{
+				...offer,
+				priceCurrency: 'USD',
+				priceSpecification: { price: 'free!!', priceCurrency: 'XYZ', validFrom: 'whenever' },
+			},
+			{ source: SOURCE },
+		);
+
+		expect(result.ok).toBe(false);
+		expect(result.issues[0]).toMatchObject({
+			code: 'CURRENCY_INVALID',
+			path: '$.priceSpecification.priceCurrency',
+		});
+
+		const mismatched = svc.parseFederatedOffer(
+			{
+				...offer,
+				priceCurrency: 'USD',
+				priceSpecification: { price: '10.00', priceCurrency: 'EUR', validFrom: 'whenever' },
+			},
+			{ source: SOURCE },
+		);
+		expect(mismatched.issues[0]).toMatchObject({
+			code: 'CURRENCY_MISMATCH',
+			params: { expected: 'USD', actual: 'EUR' },
+		});
+
+		const malformed = svc.parseFederatedOffer(
+			{
+				...offer,
+				priceSpecification: {
+					price: 'free!!',
+					priceCurrency: 'EUR',
+					validFrom: 'whenever',
+					priceComponent: [{ price: '-1', name: 'Fee' }],
+				},
+			},
+			{ source: SOURCE },
+		);
+		expect(malformed.ok).toBe(false);
+		expect(malformed.issues.map(({ code, path, severity }) => ({ code, path, severity }))).toEqual([
+			{ code: 'PRICE_INVALID', path: '$.priceSpecification.price', severity: 'error' },
+		]);
+
+		const dated = svc.parseFederatedOffer(
+			{
+				...offer,
+				priceSpecification: {
+					price: '29.90',
+					priceCurrency: 'EUR',
+					validFrom: 'whenever',
+					priceComponent: [{ price: '-1', name: 'Fee' }],
+				},
+			},
+			{ source: SOURCE },
+		);
+		expect(dated.ok).toBe(false);
+		expect(dated.issues.map(({ code, path, severity }) => ({ code, path, severity }))).toEqual([
+			{ code: 'DATE_INVALID', path: '$.priceSpecification.validFrom', severity: 'error' },
+			{ code: 'PRICE_INVALID', path: '$.priceSpecification.priceComponent[0].price', severity: 'error' },
+		]);
+	});
+
+	it('should require a currency on priced offers', () => {
+		const offer = svc.offerToActivityStreams(svc.buildOffer(PRODUCT, STRIPE, BASE_URL) as SchemaOffer);
+		const result = svc.parseFederatedOffer({ ...offer, priceCurrency: undefined, priceSpecification: undefined });
+
+		expect(result.ok).toBe(false);
+		expect(result.issues[0]).toMatchObject({ code: 'CURRENCY_REQUIRED', path: '$.priceCurrency' });
+	});
+
+	it('should run the transaction validators on the parsed offer', () => {
+		const offer = svc.offerToActivityStreams(svc.buildOffer(PRODUCT, POLAR, BASE_URL) as SchemaOffer);
+		const result = svc.parseFederatedOffer({ ...offer, url: 'https://evil.example/tinyland' });
+
+		expect(result.ok).toBe(false);
+		expect(result.issues.map((issue) => issue.code)).toContain('URL_HOST_NOT_ALLOWED');
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	JSON_SCHEMA_DIALECT,
+	TRANSACTION_MAPPINGS,
+	configure,
+	createTransactionRegistry,
+	listCurrencies,
+	resetConfig,
+	toTransactionConfigSchema,
+	toYamlSchemaModeline,
+} from '../src/index.js';
+import type { JsonSchema, JsonSchemaObject } from '../src/index.js';
+
+function findCondition(schema: JsonSchemaObject, type: string): JsonSchemaObject | undefined {
+	const conditions = (schema.allOf ?? []) as JsonSchemaObject[];
+	const match = conditions.find(
+		(condition) => ((condition.if as JsonSchemaObject).properties?.type as JsonSchemaObject).const === type
+	);
+	return match?.then as JsonSchemaObject | undefined;
+}
+
+function urlPattern(schema: JsonSchemaObject, type: string): RegExp {
+	const url = findCondition(schema, type)?.properties?.url as JsonSchemaObject;
+	return new RegExp(url.pattern as string, 'u');
+}
+
+function walk(schema: JsonSchema, visit: (node: JsonSchemaObject) => void): void {
+	if (typeof schema === 'boolean') return;
+	visit(schema);
+	for (const value of Object.values(schema)) {
+		const children = Array.isArray(value) ? value : [value];
+		for (const child of children) {
+			if (child && typeof child === 'object' && !('body' in child)) walk(child as JsonSchema, visit);
+		}
+	}
+}
+
+
+
+
+
+describe('buildTransactionSchema', () => {
+	let svc: OfferBuilderService;
+	let schema: JsonSchemaObject;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		schema = svc.buildTransactionSchema({ id: 'https://tinyland.dev/schemas/transaction.json' });
+	});
+
+	it('should describe TransactionConfig in draft 2020-12', () => {
+		expect(schema).toMatchObject({
+			$schema: JSON_SCHEMA_DIALECT,
+			$id: 'https://tinyland.dev/schemas/transaction.json',
+			title: 'TransactionConfig',
+			type: 'object',
+			required: ['type', 'enabled'],
+			additionalProperties: false,
+		});
+		expect((schema.properties?.type as JsonSchemaObject).enum).toEqual(Object.keys(TRANSACTION_MAPPINGS));
+		expect((schema.properties?.type as JsonSchemaObject).enumDescriptions).toContain('Credit Card');
+		expect((schema.$defs?.currency as JsonSchemaObject).enum).toEqual(listCurrencies().map((c) => c.code));
+	});
+
+	it('should require a URL for types that need one', () => {
+		expect(findCondition(schema, 'ebay')?.required).toEqual(['url']);
+		expect(findCondition(schema, 'stripe')?.required).toBeUndefined();
+		expect(findCondition(schema, 'inquiry')?.anyOf).toBeUndefined();
+	});
+
+	it('should restrict URL hosts from the registered policy', () => {
+		const ebay = urlPattern(schema, 'ebay');
+		expect(ebay.test('https://www.ebay.co.uk/itm/1234567890')).toBe(true);
+		expect(ebay.test('https://ebay.com/itm/1')).toBe(true);
+		expect(ebay.test('https://ebay.evil.co/itm/1')).toBe(false);
+		expect(ebay.test('http://www.ebay.com/itm/1')).toBe(false);
+
+		const kofi = urlPattern(schema, 'kofi');
+		expect(kofi.test('https://ko-fi.com/tinyland')).toBe(true);
+		expect(kofi.test('https://ko-fi.com.phish.example/tinyland')).toBe(false);
+	});
+
+	it('should derive price, currency and billing rules from the mapping', () => {
+		expect(findCondition(schema, 'ebay')).toMatchObject({
+			anyOf: [{ required: ['price'] }, { required: ['schedule'] }],
+			properties: { minPrice: false, tiers: false, billingDuration: false },
+		});
+		expect(findCondition(schema, 'polar')?.anyOf).toContainEqual({ required: ['tiers'] });
+		expect(findCondition(schema, 'polar')?.properties?.tiers).toBeUndefined();
+		expect(findCondition(schema, 'kofi')?.anyOf).toContainEqual({ required: ['suggestedPrices'] });
+		expect(findCondition(schema, 'monero')?.properties?.currency).toEqual({
+			enum: listCurrencies('crypto').map((c) => c.code),
+		});
+	});
+
+	it('should offer one snippet per transaction type', () => {
+		const snippets = schema.defaultSnippets ?? [];
+		expect(snippets).toHaveLength(Object.keys(TRANSACTION_MAPPINGS).length);
+		expect(snippets.find((s) => s.description === 'ebay')).toEqual({
+			label: 'eBay',
+			description: 'ebay',
+			body: { type: 'ebay', enabled: true, url: '$1', price: '$2', currency: '$3' },
+		});
+		expect(snippets.find((s) => s.description === 'inquiry')?.body).toEqual({ type: 'inquiry', enabled: true });
+	});
+
+	it('should follow the registry it was built from', () => {
+		const registry = createTransactionRegistry();
+		registry.register({
+			mapping: { ...TRANSACTION_MAPPINGS.ebay, transactionType: 'depop' },
+			displayName: 'Depop',
+			urlPolicy: { hosts: ['*.depop.com'], protocols: ['https:'] },
+		});
+		registry.unregister('amazon');
+		const scoped = toTransactionConfigSchema(registry);
+
+		expect((scoped.properties?.type as JsonSchemaObject).enum).toContain('depop');
+		expect((scoped.properties?.type as JsonSchemaObject).enum).not.toContain('amazon');
+		expect(findCondition(scoped, 'depop')?.required).toEqual(['url']);
+		expect(urlPattern(scoped, 'depop').test('https://www.depop.com/products/kit')).toBe(true);
+		expect(findCondition(scoped, 'amazon')).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('buildFrontmatterSchema', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should validate the transactions list against the transaction schema', () => {
+		const schema = svc.buildFrontmatterSchema();
+
+		expect(schema.title).toBe('Product frontmatter');
+		expect(schema.properties?.transactions).toEqual({ type: 'array', items: { $ref: '#/$defs/transaction' } });
+		expect(schema.$defs?.transaction).toMatchObject({
+			required: ['type', 'enabled'],
+			allOf: svc.buildTransactionSchema().allOf,
+		});
+		expect(schema.additionalProperties).toBeUndefined();
+	});
+
+	it('should list configured seller profiles', () => {
+		configure({ sellers: { robin: { name: 'Robin' }, shop: { name: 'Tinyland Shop' } } });
+		const seller = svc.buildFrontmatterSchema().$defs?.seller as JsonSchemaObject;
+
+		expect(seller.anyOf?.[0]).toEqual({ type: 'string', enum: ['robin', 'shop'] });
+		expect(seller.anyOf?.[1]).toEqual({ $ref: '#/$defs/sellerProfile' });
+	});
+
+	it('should stay within the keywords the YAML language server understands', () => {
+		for (const schema of [svc.buildFrontmatterSchema(), svc.buildTransactionSchema()]) {
+			const seen = new Set<string>();
+			walk(schema, (node) => {
+				Object.keys(node).forEach((key) => seen.add(key));
+				if (node.$ref) expect(schema.$defs).toHaveProperty(node.$ref.replace('#/$defs/', ''));
+				if (node.pattern) expect(() => new RegExp(node.pattern as string, 'u')).not.toThrow();
+			});
+
+			for (const keyword of ['unevaluatedProperties', 'dependentRequired', 'prefixItems', '$dynamicRef']) {
+				expect(seen).not.toContain(keyword);
+			}
+			expect(JSON.parse(JSON.stringify(schema))).toEqual(schema);
+		}
+	});
+});
+
+
+
+
+
+describe('toYamlSchemaModeline', () => {
+	it('should point the YAML language server at the schema', () => {
+		expect(toYamlSchemaModeline('https://tinyland.dev/schemas/frontmatter.json')).toBe(
+			'# yaml-language-server: $schema=https://tinyland.dev/schemas/frontmatter.json'
+		);
+		expect(toYamlSchemaModeline('../schemas/frontmatter.json')).toBe(
+			'# yaml-language-server: $schema=../schemas/frontmatter.json'
+		);
+		expect(() => toYamlSchemaModeline('a b')).toThrow('Invalid schema location: a b');
+	});
+});
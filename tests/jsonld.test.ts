@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	SCHEMA_ORG_CONTEXT,
+	TINYLAND_CONTEXT_URL,
+	TINYLAND_TERMS,
+	TINYLAND_VOCAB,
+	compactJsonLd,
+	configure,
+	expandJsonLd,
+	resetConfig,
+	toJsonLdDocument,
+} from '../src/index.js';
+import type { ProductItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const PRODUCT: ProductItem = { slug: 'kit', title: 'Kit', frontmatter: {} };
+
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	currency: 'USD',
+	minPrice: 3,
+	suggestedPrices: [5, 10],
+};
+
+
+
+
+
+describe('toJsonLdDocument', () => {
+	let svc: OfferBuilderService;
+	let offer: SchemaOffer;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		offer = svc.buildOffer(PRODUCT, { type: 'stripe', enabled: true, price: '10.00', currency: 'USD' }, BASE_URL) as SchemaOffer;
+	});
+
+	it('should namespace extension terms by default', () => {
+		const document = toJsonLdDocument(offer);
+		expect(offer['@context']).toBe(SCHEMA_ORG_CONTEXT);
+		expect(document['@context']).toEqual([SCHEMA_ORG_CONTEXT, TINYLAND_TERMS]);
+		expect(document.transactionType).toBe('stripe');
+		expect((document['@context'] as unknown[])[1]).not.toBe(TINYLAND_TERMS);
+		expect(TINYLAND_TERMS.transactionType).toBe('tinyland:transactionType');
+	});
+
+	it('should reference the published context remotely', () => {
+		expect(toJsonLdDocument(offer, { context: 'remote' })['@context']).toEqual([
+			SCHEMA_ORG_CONTEXT,
+			TINYLAND_CONTEXT_URL,
+		]);
+	});
+
+	it('should strip extensions in the google-safe profile', () => {
+		const donation = svc.buildOffer(PRODUCT, KOFI, BASE_URL);
+		const document = toJsonLdDocument(donation, { profile: 'google-safe' });
+
+		expect(document['@context']).toBe(SCHEMA_ORG_CONTEXT);
+		expect(document).not.toHaveProperty('transactionType');
+		expect(document).not.toHaveProperty('externalUrl');
+		expect(document.priceSpecification).not.toHaveProperty('suggestedPrices');
+		expect(document.priceSpecification).toMatchObject({ minPrice: 3 });
+		expect(donation).toHaveProperty('transactionType', 'kofi');
+	});
+
+	it('should honour the configured profile', () => {
+		configure({ jsonLd: { profile: 'google-safe' } });
+		expect(toJsonLdDocument(offer)['@context']).toBe(SCHEMA_ORG_CONTEXT);
+		expect(toJsonLdDocument(offer, { profile: 'namespaced' })).toHaveProperty('transactionType');
+	});
+});
+
+
+
+
+
+describe('expandJsonLd and compactJsonLd', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should expand terms to absolute IRIs', () => {
+		const offer = svc.buildOffer(PRODUCT, { type: 'stripe', enabled: true, price: '10.00', currency: 'USD' }, BASE_URL);
+		const [node] = expandJsonLd(toJsonLdDocument(offer));
+
+		expect(node['@id']).toBe(offer['@id']);
+		expect(node['@type']).toEqual(['https://schema.org/Offer']);
+		expect(node['https://schema.org/price']).toEqual([{ '@value': '10.00' }]);
+		expect(node['https://schema.org/availability']).toEqual([{ '@id': 'https://schema.org/InStock' }]);
+		expect(node[`${TINYLAND_VOCAB}transactionType`]).toEqual([{ '@value': 'stripe' }]);
+	});
+
+	it('should expand builder output through its own context', () => {
+		configure({ jsonLd: { profile: 'namespaced', context: 'remote' } });
+		const offer = svc.buildOffer(PRODUCT, KOFI, BASE_URL);
+		const [node] = expandJsonLd(offer as unknown as Parameters<typeof expandJsonLd>[0]);
+
+		expect(node[`${TINYLAND_VOCAB}transactionType`]).toEqual([{ '@value': 'kofi' }]);
+		expect(node[`${TINYLAND_VOCAB}externalUrl`]).toEqual([{ '@id': 'https://ko-fi.com/tinyland' }]);
+		expect(node).not.toHaveProperty(['https://schema.org/transactionType']);
+	});
+
+	it('should not map extensions onto schema.org without the tinyland context', () => {
+		const offer = svc.buildOffer(PRODUCT, { type: 'stripe', enabled: true, price: '10.00', currency: 'USD' }, BASE_URL);
+		const [node] = expandJsonLd({ ...offer, '@context': SCHEMA_ORG_CONTEXT });
+
+		expect(node['https://schema.org/price']).toEqual([{ '@value': '10.00' }]);
+		expect(node).not.toHaveProperty(['https://schema.org/transactionType']);
+		expect(node).not.toHaveProperty([`${TINYLAND_VOCAB}transactionType`]);
+	});
+
+	it('should resolve prefixed terms from inline contexts', () => {
+		const [node] = expandJsonLd({
+			'@context': [SCHEMA_ORG_CONTEXT, { ex: 'https://example.com/ns#', tier: 'ex:tier' }],
+			'@type': 'Offer',
+			tier: 'gold',
+			'ex:level': 2,
+		});
+
+		expect(node).toEqual({
+			'@type': ['https://schema.org/Offer'],
+			'https://example.com/ns#tier': [{ '@value': 'gold' }],
+			'https://example.com/ns#level': [{ '@value': 2 }],
+		});
+		expect(() => expandJsonLd({ '@context': 'https://example.com/context.jsonld' })).toThrow(
+			'Unsupported JSON-LD context'
+		);
+	});
+
+	it('should round-trip namespaced documents', () => {
+		const document = toJsonLdDocument(svc.buildOffer(PRODUCT, KOFI, BASE_URL));
+		expect(compactJsonLd(expandJsonLd(document))).toEqual(document);
+	});
+
+	it('should round-trip aggregate offers and keep single-entry sets as lists', () => {
+		const offer = svc.buildOffer(PRODUCT, { type: 'stripe', enabled: true, price: '10.00', currency: 'USD' }, BASE_URL);
+		const document = toJsonLdDocument(svc.buildAggregateOffer([offer])!);
+		const compacted = compactJsonLd(expandJsonLd(document));
+
+		expect(compacted).toEqual(document);
+		expect(Array.isArray(compacted.offers)).toBe(true);
+	});
+
+	it('should drop extension terms when compacting google-safe', () => {
+		const document = toJsonLdDocument(svc.buildOffer(PRODUCT, KOFI, BASE_URL));
+		expect(compactJsonLd(expandJsonLd(document), { profile: 'google-safe' })).toEqual(
+			toJsonLdDocument(svc.buildOffer(PRODUCT, KOFI, BASE_URL), { profile: 'google-safe' })
+		);
+	});
+
+	it('should compact multiple nodes into a graph', () => {
+		const offers = svc.buildAllOffers(
+			{ ...PRODUCT, frontmatter: { transactions: [KOFI, { type: 'inquiry', enabled: true }] } },
+			BASE_URL
+		);
+		const expanded = offers.flatMap((offer) => expandJsonLd(toJsonLdDocument(offer)));
+		const graph = compactJsonLd(expanded);
+
+		expect(graph['@graph']).toHaveLength(2);
+		expect(expandJsonLd(graph)).toEqual(expanded);
+	});
+});
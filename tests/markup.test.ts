@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	escapeHtml,
+	renderOfferMarkup,
+	renderProductMarkup,
+	resetConfig,
+} from '../src/index.js';
+import type { ProductItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const PRODUCT: ProductItem = { slug: 'kit', title: 'Kit', frontmatter: { description: 'A <b>kit</b>' } };
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.90', currency: 'EUR', priority: 2 };
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 1 };
+
+
+
+
+
+describe('escapeHtml', () => {
+	it('should escape markup and quotes', () => {
+		expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+	});
+});
+
+
+
+
+
+describe('renderOfferMarkup', () => {
+	let svc: OfferBuilderService;
+	let offer: SchemaOffer;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		offer = svc.buildOffer(PRODUCT, STRIPE, BASE_URL) as SchemaOffer;
+	});
+
+	it('should render microdata with price, availability and payment methods', () => {
+		const html = renderOfferMarkup(offer);
+
+		expect(html).toMatch(
+			/^<div itemscope itemtype="https:\/\/schema.org\/Offer" itemid="https:\/\/tinyland.dev\/products\/kit#offer-stripe" data-transaction-type="stripe">/
+		);
+		expect(html).toContain('<span itemprop="price" content="29.90">29.90 EUR</span>');
+		expect(html).toContain('<meta itemprop="priceCurrency" content="EUR">');
+		expect(html).toContain('<link itemprop="availability" href="https://schema.org/InStock">');
+		expect(html).toContain('<meta itemprop="acceptedPaymentMethod" content="CreditCard">');
+		expect(html).toContain(
+			'<a itemprop="url" href="https://tinyland.dev/products/kit" data-action="buy">Buy now</a>'
+		);
+		expect(html).toContain('<div itemprop="itemOffered" itemscope itemtype="https://schema.org/Product">');
+	});
+
+	it('should render RDFa attributes', () => {
+		const html = renderOfferMarkup(offer, { format: 'rdfa' });
+
+		expect(html).toMatch(/^<div vocab="https:\/\/schema.org\/" typeof="Offer" resource="[^"]+#offer-stripe"/);
+		expect(html).toContain('<span property="price" content="29.90">29.90 EUR</span>');
+		expect(html).toContain('<link property="availability" href="https://schema.org/InStock">');
+		expect(html).toContain('<div property="itemOffered" typeof="Product">');
+		expect(html).not.toContain('itemprop');
+	});
+
+	it('should label the call to action from requiresAction', () => {
+		const inquiry = svc.buildOffer(PRODUCT, INQUIRY, BASE_URL);
+		expect(renderOfferMarkup(inquiry)).toContain('data-action="contact">Contact</a>');
+		expect(renderOfferMarkup(inquiry, { actionLabels: { contact: 'Ask us' } })).toContain('>Ask us</a>');
+
+		const donation = svc.buildOffer(
+			PRODUCT,
+			{ type: 'kofi', enabled: true, url: 'https://ko-fi.com/tinyland', price: 5, currency: 'USD' },
+			BASE_URL
+		);
+		const html = renderOfferMarkup(donation);
+		expect(html).toContain('href="https://ko-fi.com/tinyland" data-action="donate">Donate</a>');
+		expect(html).toContain('itemprop="object" itemscope');
+		expect(html).not.toContain('availability');
+	});
+
+	it('should escape text and drop unsafe links', () => {
+		const hostile: SchemaOffer = {
+			...offer,
+			name: '<img src=x onerror=alert(1)>',
+			url: 'javascript:alert(1)',
+			itemOffered: { '@type': 'Product', name: '"quoted"', url: 'javascript:alert(2)' },
+		};
+		const html = renderOfferMarkup(hostile);
+
+		expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+		expect(html).toContain('&quot;quoted&quot;');
+		expect(html).not.toContain('javascript:');
+		expect(html).not.toContain('<a ');
+		expect(renderOfferMarkup(offer)).toContain('A &lt;b&gt;kit&lt;/b&gt;');
+	});
+
+	it('should fill custom slot templates', () => {
+		const html = renderOfferMarkup(offer, {
+			includeItem: false,
+			slots: {
+				offer: '<article class="offer" {{attrs}}>{{content}}</article>',
+				name: '<h3 {{attrs}}>{{text}}</h3>',
+				action: '<a class="button" {{attrs}}>{{text}} &rarr;</a>',
+				paymentMethod: '',
+				unknown: '{{nothing}}',
+			} as never,
+		});
+
+		expect(html.startsWith('<article class="offer" itemscope')).toBe(true);
+		expect(html).toContain('<h3 itemprop="name">Kit - stripe</h3>');
+		expect(html).toContain('<a class="button" itemprop="url"');
+		expect(html).toContain('Buy now &rarr;</a>');
+		expect(html).not.toContain('acceptedPaymentMethod');
+		expect(html).not.toContain('itemOffered');
+	});
+});
+
+
+
+
+
+describe('renderProductMarkup', () => {
+	it('should nest offers under the product', () => {
+		resetConfig();
+		const svc = new OfferBuilderService();
+		const offers = svc.buildAllOffers({ ...PRODUCT, frontmatter: { ...PRODUCT.frontmatter, transactions: [STRIPE, INQUIRY] } }, BASE_URL);
+		const html = renderProductMarkup((offers[0] as SchemaOffer).itemOffered!, offers);
+
+		expect(html).toMatch(/^<div itemscope itemtype="https:\/\/schema.org\/Product">/);
+		expect(html.match(/itemprop="offers" itemscope/g)).toHaveLength(2);
+		expect(html).not.toContain('itemOffered');
+		expect(html.match(/itemprop="name">Kit</g)).toHaveLength(1);
+
+		const rdfa = renderProductMarkup((offers[0] as SchemaOffer).itemOffered!, offers, { format: 'rdfa' });
+		expect(rdfa.match(/vocab=/g)).toHaveLength(1);
+		expect(rdfa).toContain('property="offers" typeof="Offer"');
+	});
+
+	it('should resolve relative images against the product URL', () => {
+		resetConfig();
+		const svc = new OfferBuilderService();
+		const product = {
+			...PRODUCT,
+			frontmatter: { ...PRODUCT.frontmatter, image: '/img/kit.png', transactions: [STRIPE] },
+		};
+		const offers = svc.buildAllOffers(product, BASE_URL);
+		const item = (offers[0] as SchemaOffer).itemOffered!;
+
+		expect(renderProductMarkup(item, offers)).toContain(
+			'<link itemprop="image" href="https://tinyland.dev/img/kit.png">'
+		);
+		expect(renderProductMarkup({ ...item, image: 'javascript:alert(1)' }, offers)).not.toContain(
+			'itemprop="image"'
+		);
+	});
+});
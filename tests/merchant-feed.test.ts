@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	GOOGLE_AVAILABILITY,
+	getTransactionRegistry,
+	resetConfig,
+	selectPrimaryOffer,
+	toMerchantFeedTsv,
+	toMerchantFeedXml,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.9', currency: 'EUR', priority: 1 };
+const EBAY: TransactionConfig = {
+	type: 'ebay',
+	enabled: true,
+	url: 'https://www.ebay.com/itm/1',
+	price: '25.00',
+	currency: 'USD',
+	priority: 5,
+};
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'USD',
+	priority: 9,
+};
+
+function makeProduct(slug: string, frontmatter: Record<string, unknown>): ProductItem {
+	return {
+		slug,
+		title: slug,
+		frontmatter: { description: `The ${slug}`, image: `/images/${slug}.png`, ...frontmatter },
+	};
+}
+
+
+
+
+
+describe('buildMerchantFeed', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should map the primary monetary offer by priority', () => {
+		const feed = svc.buildMerchantFeed(
+			[makeProduct('kit', { name: 'Kit', brand: 'Tinyland', transactions: [STRIPE, EBAY, KOFI] })],
+			BASE_URL
+		);
+
+		expect(feed.skipped).toEqual([]);
+		expect(feed.items).toEqual([
+			{
+				id: 'kit',
+				title: 'Kit',
+				description: 'The kit',
+				link: `${BASE_URL}/products/kit`,
+				image_link: `${BASE_URL}/images/kit.png`,
+				availability: 'in_stock',
+				price: '25.00 USD',
+				brand: 'Tinyland',
+				identifier_exists: 'no',
+			},
+		]);
+	});
+
+	it('should map availability to the Google enum', () => {
+		expect(GOOGLE_AVAILABILITY.PreOrder).toBe('preorder');
+		expect(GOOGLE_AVAILABILITY.SoldOut).toBe('out_of_stock');
+
+		const feed = svc.buildMerchantFeed(
+			[
+				makeProduct('pre', {
+					sku: 'PRE-1',
+					gtin: '4006381333931',
+					transactions: [{ ...STRIPE, availability: 'PreOrder', availabilityStarts: '2027-01-15' }],
+				}),
+			],
+			BASE_URL,
+			{ asOf: '2026-10-18' }
+		);
+		expect(feed.items[0]).toMatchObject({
+			id: 'PRE-1',
+			availability: 'preorder',
+			availability_date: '2027-01-15T00:00:00.000Z',
+			price: '29.90 EUR',
+			gtin: '4006381333931',
+		});
+		expect(feed.items[0].identifier_exists).toBeUndefined();
+	});
+
+	it('should report skipped products with the missing attributes', () => {
+		const feed = svc.buildMerchantFeed(
+			[
+				makeProduct('ok', { transactions: [STRIPE] }),
+				makeProduct('bare', { description: '', image: undefined, transactions: [STRIPE] }),
+				makeProduct('free', { transactions: [{ type: 'inquiry', enabled: true }, KOFI] }),
+				makeProduct('crypto', { transactions: [{ ...STRIPE, currency: 'BTC', price: '0.001' }] }),
+				makeProduct('broken', { transactions: 'stripe' }),
+			],
+			BASE_URL
+		);
+
+		expect(feed.items.map((item) => item.id)).toEqual(['ok']);
+		expect(feed.skipped.map(({ slug, issues }) => [slug, issues.map((issue) => issue.code)])).toEqual([
+			['bare', ['FEED_ATTRIBUTE_MISSING', 'FEED_ATTRIBUTE_MISSING']],
+			['free', ['FEED_OFFER_MISSING']],
+			['crypto', ['FEED_CURRENCY_UNSUPPORTED']],
+			['broken', ['TRANSACTIONS_INVALID']],
+		]);
+		expect(feed.skipped[0].issues.map((issue) => issue.params.attribute)).toEqual(['description', 'image_link']);
+		expect(feed.skipped[0].issues[1].path).toBe('$.frontmatter.image');
+	});
+
+	it('should skip crypto offers when choosing the feed offer', () => {
+		const monero: TransactionConfig = { type: 'monero', enabled: true, price: '0.1', currency: 'XMR', priority: 10 };
+		const product = makeProduct('kit', { name: 'Kit', transactions: [monero, { ...STRIPE, currency: 'USD' }] });
+		const feed = svc.buildMerchantFeed([product], BASE_URL);
+
+		expect(feed.skipped).toEqual([]);
+		expect(feed.items[0].price).toBe('29.90 USD');
+		expect(selectPrimaryOffer(svc.buildAllOffers(product, BASE_URL), getTransactionRegistry())).toMatchObject({
+			transactionType: 'monero',
+			priceCurrency: 'XMR',
+		});
+	});
+});
+
+
+
+
+
+describe('feed serialization', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should write an RSS 2.0 feed in the g: namespace', () => {
+		const feed = svc.buildMerchantFeed(
+			[makeProduct('kit', { name: 'Kit & <Co>', transactions: [STRIPE] })],
+			BASE_URL
+		);
+		const xml = toMerchantFeedXml(feed, { title: 'Tinyland', link: BASE_URL });
+
+		expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">')).toBe(true);
+		expect(xml).toContain('<title>Tinyland</title>');
+		expect(xml).toContain('<g:title>Kit &amp; &lt;Co&gt;</g:title>');
+		expect(xml).toContain('<g:price>29.90 EUR</g:price>');
+		expect(xml).toContain('<g:availability>in_stock</g:availability>');
+		expect(xml).not.toContain('<g:gtin>');
+		expect(xml.trimEnd().endsWith('</channel>\n</rss>')).toBe(true);
+	});
+
+	it('should write a TSV with a header row', () => {
+		const feed = svc.buildMerchantFeed(
+			[makeProduct('kit', { description: 'Line one\nLine\ttwo', transactions: [STRIPE] })],
+			BASE_URL
+		);
+		const [header, row, trailing] = toMerchantFeedTsv(feed).split('\n');
+
+		expect(header.split('\t').slice(0, 3)).toEqual(['id', 'title', 'description']);
+		expect(row.split('\t')).toHaveLength(header.split('\t').length);
+		expect(row.split('\t')[2]).toBe('Line one Line two');
+		expect(trailing).toBe('');
+	});
+});
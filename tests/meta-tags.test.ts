@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfferBuilderService, renderMetaTags, resetConfig } from '../src/index.js';
+import type { MetaTag, ProductItem, SchemaItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.9', currency: 'EUR', priority: 1 };
+const EBAY: TransactionConfig = {
+	type: 'ebay',
+	enabled: true,
+	url: 'https://www.ebay.com/itm/1',
+	price: '25.00',
+	currency: 'USD',
+	availability: 'PreOrder',
+	priority: 5,
+};
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'USD',
+	priority: 9,
+};
+
+const PRODUCT: ProductItem = {
+	slug: 'kit',
+	title: 'Kit',
+	frontmatter: { description: 'A "small" kit', image: '/images/kit.png', transactions: [STRIPE, EBAY, KOFI] },
+};
+
+function tag(tags: MetaTag[], key: string): string | undefined {
+	return tags.find((t) => t.property === key || t.name === key)?.content;
+}
+
+
+
+
+
+describe('buildMetaTags', () => {
+	let svc: OfferBuilderService;
+	let offers: ReturnType<OfferBuilderService['buildAllOffers']>;
+	let item: SchemaItem;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		offers = svc.buildAllOffers(PRODUCT, BASE_URL);
+		item = (offers.find((o) => o['@type'] === 'Offer') as SchemaOffer).itemOffered!;
+	});
+
+	it('should emit Open Graph product tags from the primary offer', () => {
+		const tags = svc.buildMetaTags(item, offers, { siteName: 'Tinyland' });
+
+		expect(tags.filter((t) => t.property).map((t) => [t.property, t.content])).toEqual([
+			['og:type', 'product'],
+			['og:title', 'Kit'],
+			['og:description', 'A "small" kit'],
+			['og:url', `${BASE_URL}/products/kit`],
+			['og:image', `${BASE_URL}/images/kit.png`],
+			['og:site_name', 'Tinyland'],
+			['product:price:amount', '25.00'],
+			['product:price:currency', 'USD'],
+			['product:availability', 'preorder'],
+		]);
+	});
+
+	it('should emit Twitter card equivalents', () => {
+		const tags = svc.buildMetaTags(item, offers, { twitterSite: '@tinyland' });
+
+		expect(tag(tags, 'twitter:card')).toBe('summary_large_image');
+		expect(tag(tags, 'twitter:image')).toBe(`${BASE_URL}/images/kit.png`);
+		expect(tag(tags, 'twitter:site')).toBe('@tinyland');
+		expect(tag(tags, 'twitter:data1')).toBe('25.00 USD');
+		expect(tag(tags, 'twitter:data2')).toBe('Pre-order');
+		expect(tags.filter((t) => t.name).every((t) => t.property === undefined)).toBe(true);
+	});
+
+	it('should skip price tags without a monetary offer', () => {
+		const donations = svc.buildAllOffers({ ...PRODUCT, frontmatter: { transactions: [KOFI] } }, BASE_URL);
+		const tags = svc.buildMetaTags({ '@type': 'Product', name: 'Kit' }, donations);
+
+		expect(tag(tags, 'product:price:amount')).toBeUndefined();
+		expect(tag(tags, 'twitter:label1')).toBeUndefined();
+		expect(tag(tags, 'twitter:card')).toBe('summary');
+	});
+
+	it('should keep the primary offer for crypto-only products', () => {
+		const monero = svc.buildAllOffers(
+			{ ...PRODUCT, frontmatter: { transactions: [{ type: 'monero', enabled: true, price: '0.5', currency: 'XMR' }] } },
+			BASE_URL
+		);
+		const tags = svc.buildMetaTags(item, monero);
+
+		expect(tag(tags, 'product:price:amount')).toBe('0.5');
+		expect(tag(tags, 'product:price:currency')).toBe('XMR');
+		expect(tag(tags, 'twitter:data1')).toBe('0.500000000000 XMR');
+	});
+
+	it('should drop unsafe image URLs and truncate long Twitter descriptions', () => {
+		const tags = svc.buildMetaTags(
+			{ ...item, image: 'javascript:alert(1)', description: 'x'.repeat(300) },
+			offers
+		);
+
+		expect(tag(tags, 'og:image')).toBeUndefined();
+		expect(tag(tags, 'og:description')).toHaveLength(300);
+		expect(tag(tags, 'twitter:description')).toHaveLength(200);
+	});
+});
+
+
+
+
+
+describe('renderMetaTags', () => {
+	it('should render escaped meta elements', () => {
+		const html = renderMetaTags([
+			{ property: 'og:title', content: 'Kit "<script>"' },
+			{ name: 'twitter:card', content: 'summary' },
+		]);
+
+		expect(html).toBe(
+			'<meta property="og:title" content="Kit &quot;&lt;script&gt;&quot;">\n<meta name="twitter:card" content="summary">'
+		);
+	});
+});
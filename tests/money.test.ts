@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Money, getMinorUnits, toSchemaPrice, OfferBuilderService, resetConfig } from '../src/index.js';
+import type { TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeTransaction(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return { type: 'stripe', enabled: true, price: 10, currency: 'USD', ...overrides };
+}
+
+
+
+
+
+describe('Money.parse', () => {
+	it('should round-trip the exact decimal string', () => {
+		expect(Money.parse('12.50', 'USD').toString()).toBe('12.50');
+		expect(Money.parse('0.000000000001', 'XMR').toString()).toBe('0.000000000001');
+	});
+
+	it('should keep precision beyond float range', () => {
+		const wei = Money.parse('1.000000000000000001', 'ETH');
+		expect(wei.units).toBe(1000000000000000001n);
+		expect(wei.decimals).toBe(18);
+	});
+
+	it('should trim surrounding whitespace', () => {
+		expect(Money.parse(' 5.00 ', 'USD').toString()).toBe('5.00');
+	});
+
+	it.each(['12abc', '', '1,000', '1.', '.5', '1e3', 'NaN', '+1'])('should reject %j', (value) => {
+		expect(() => Money.parse(value, 'USD')).toThrow(`Invalid price: ${value}`);
+	});
+
+	it('should reject non-finite numbers', () => {
+		expect(() => Money.parse(Infinity, 'USD')).toThrow('Invalid price');
+	});
+
+	it('should expand exponent notation from numbers', () => {
+		expect(Money.parse(1e-7, 'BTC').toString()).toBe('0.0000001');
+		expect(Money.parse(1.5e21, 'USD').toString()).toBe('1500000000000000000000');
+	});
+
+	it('should parse negative amounts', () => {
+		expect(Money.parse('-1.5', 'USD').isNegative()).toBe(true);
+	});
+
+	it('should upper-case the currency', () => {
+		expect(Money.parse('1', 'xmr').currency).toBe('XMR');
+	});
+});
+
+describe('Money arithmetic helpers', () => {
+	it('should convert to minor units', () => {
+		expect(Money.parse('12.5', 'USD').toMinorUnits()).toBe(1250n);
+		expect(Money.parse('0.00000001', 'BTC').toMinorUnits()).toBe(1n);
+	});
+
+	it('should refuse minor unit conversion with excess precision', () => {
+		expect(() => Money.parse('1.001', 'USD').toMinorUnits()).toThrow('more than 2 decimal places');
+	});
+
+	it('should build from minor units', () => {
+		expect(Money.fromMinorUnits(1n, 'XMR').toString()).toBe('0.000000000001');
+		expect(Money.fromMinorUnits(1999n, 'USD').toString()).toBe('19.99');
+		expect(Money.fromMinorUnits(-5n, 'USD').toString()).toBe('-0.05');
+	});
+
+	it('should compare across scales', () => {
+		expect(Money.parse('1.50', 'USD').compare(Money.parse('1.5', 'USD'))).toBe(0);
+		expect(Money.parse('1.49', 'USD').compare(Money.parse('1.5', 'USD'))).toBe(-1);
+		expect(Money.parse('2', 'USD').equals(Money.parse('2.00', 'USD'))).toBe(true);
+	});
+
+	it('should refuse to compare different currencies', () => {
+		expect(() => Money.parse('1', 'USD').compare(Money.parse('1', 'EUR'))).toThrow(
+			'Cannot compare USD with EUR'
+		);
+	});
+
+	it('should serialize to its decimal string in JSON', () => {
+		expect(JSON.stringify({ price: Money.parse('0.10', 'EUR') })).toBe('{"price":"0.10"}');
+	});
+
+	it('should expose minor units per currency', () => {
+		expect(getMinorUnits('XMR')).toBe(12);
+		expect(getMinorUnits('usd')).toBe(2);
+		expect(getMinorUnits('ZZZ')).toBeUndefined();
+	});
+
+	it('should keep numbers as numbers in schema output', () => {
+		expect(toSchemaPrice(29.99, 'USD')).toBe(29.99);
+		expect(toSchemaPrice('29.990', 'USD')).toBe('29.990');
+	});
+});
+
+
+
+
+
+describe('OfferBuilderService money handling', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit the exact XMR string in offer and priceSpecification', () => {
+		const offer = svc.buildOffer(
+			{ slug: 's', title: 'T', frontmatter: {} },
+			makeTransaction({ type: 'monero', price: '0.123456789012', currency: 'XMR' }),
+			BASE_URL
+		);
+		expect(offer.price).toBe('0.123456789012');
+		expect(offer.priceSpecification!.price).toBe('0.123456789012');
+	});
+
+	it('should expand numeric prices that stringify in exponent notation', () => {
+		const offer = svc.buildOffer(
+			{ slug: 's', title: 'T', frontmatter: {} },
+			makeTransaction({ type: 'monero', price: 0.00000001, currency: 'XMR' }),
+			BASE_URL
+		);
+		expect(offer.price).toBe('0.00000001');
+		expect(offer.priceSpecification!.price).toBe('0.00000001');
+		expect(toSchemaPrice(10, 'USD')).toBe(10);
+	});
+
+	it('should throw when building with junk prices', () => {
+		expect(() =>
+			svc.buildOffer({ slug: 's', title: 'T', frontmatter: {} }, makeTransaction({ price: '12abc' }), BASE_URL)
+		).toThrow('Invalid price: 12abc');
+	});
+
+	it('should reject junk prices in validation', () => {
+		const result = svc.validateTransaction(makeTransaction({ price: '12abc' }));
+		expect(result.errors).toContain('Invalid price: 12abc');
+	});
+
+	it('should reject excess precision for the currency', () => {
+		const result = svc.validateTransaction(makeTransaction({ price: '1.005' }));
+		expect(result.valid).toBe(false);
+		expect(result.errors).toContain('Price 1.005 has more decimal places than USD allows');
+	});
+
+	it('should accept full XMR precision', () => {
+		const result = svc.validateTransaction(
+			makeTransaction({ type: 'monero', price: '0.000000000001', currency: 'XMR' })
+		);
+		expect(result.valid).toBe(true);
+	});
+});
@@ -15,11 +15,18 @@ import {
 	
 	OfferBuilderService,
 	offerBuilderService,
+	createTransactionRegistry,
+	
+	SCHEMA_ORG_CONTEXT,
+	TINYLAND_CONTEXT_URL,
+	TINYLAND_TERMS,
 } from '../src/index.js';
 import type {
 	OfferAvailability,
 	PaymentMethod,
 	SchemaOffer,
+	SchemaDonateAction,
+	SchemaReserveAction,
 	TransactionConfig,
 	ProductItem,
 	Tracer,
@@ -379,6 +386,20 @@ describe('buildOffer', () => {
 		expect(offer['@context']).toBe('https://schema.org');
 	});
 
+	it('should emit the tinyland context only when the namespaced profile is configured', () => {
+		configure({ jsonLd: { context: 'remote' } });
+		expect(svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL)['@context']).toBe('https://schema.org');
+
+		configure({ jsonLd: { profile: 'namespaced', context: 'remote' } });
+		const remote = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL);
+		expect(remote['@context']).toEqual([SCHEMA_ORG_CONTEXT, TINYLAND_CONTEXT_URL]);
+
+		configure({ jsonLd: { profile: 'namespaced', context: 'inline' } });
+		const inline = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL);
+		expect(inline['@context']).toEqual([SCHEMA_ORG_CONTEXT, TINYLAND_TERMS]);
+		expect(inline['@context'][1]).not.toBe(TINYLAND_TERMS);
+	});
+
 	it('should include @type as Offer', () => {
 		const offer = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL);
 		expect(offer['@type']).toBe('Offer');
@@ -603,7 +624,7 @@ describe('buildOffer', () => {
 			makeTransaction({ price: '19.99' }),
 			BASE_URL
 		);
-		expect(offer.priceSpecification!.price).toBe(19.99);
+		expect(offer.priceSpecification!.price).toBe('19.99');
 	});
 
 	it('should set offer url to transaction url when provided', () => {
@@ -638,6 +659,95 @@ describe('buildOffer', () => {
 
 
 
+describe('buildOffer schema actions', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit a DonateAction for liberapay', () => {
+		const node = svc.buildOffer(
+			makeProduct({ slug: 'zine' }),
+			makeTransaction({ type: 'liberapay', url: 'https://liberapay.com/tinyland', price: 5, currency: 'EUR' }),
+			BASE_URL
+		) as SchemaDonateAction;
+		expect(node['@type']).toBe('DonateAction');
+		expect(node['@id']).toBe('https://tinyland.dev/products/zine#action-liberapay');
+		expect(node.actionStatus).toBe('PotentialActionStatus');
+		expect(node.recipient).toEqual({ '@type': 'Organization', name: 'Tinyland', url: BASE_URL });
+		expect(node.target).toEqual({ '@type': 'EntryPoint', urlTemplate: 'https://liberapay.com/tinyland' });
+		expect(node.object!.name).toBe('Test Product');
+		expect(node.price).toBe(5);
+		expect(node.priceCurrency).toBe('EUR');
+		expect(node.externalUrl).toBe('https://liberapay.com/tinyland');
+		expect(node.transactionType).toBe('liberapay');
+	});
+
+	it('should emit a DonateAction for kofi without offer-only fields', () => {
+		const node = svc.buildOffer(
+			makeProduct(),
+			makeTransaction({ type: 'kofi', url: 'https://ko-fi.com/tinyland', price: 3 }),
+			BASE_URL
+		);
+		expect(node['@type']).toBe('DonateAction');
+		expect(node).not.toHaveProperty('availability');
+		expect(node).not.toHaveProperty('seller');
+		expect(node).not.toHaveProperty('itemOffered');
+	});
+
+	it('should emit a ReserveAction for booking with a Service object', () => {
+		const node = svc.buildOffer(
+			makeProduct({ title: 'Consultation' }),
+			makeTransaction({ type: 'booking', url: 'https://cal.example.com/tinyland', price: 80 }),
+			BASE_URL
+		) as SchemaReserveAction;
+		expect(node['@type']).toBe('ReserveAction');
+		expect(node.target.urlTemplate).toBe('https://cal.example.com/tinyland');
+		expect(node.object['@type']).toBe('Service');
+		expect(node.object.name).toBe('Consultation');
+		expect(node.object.provider).toEqual({ '@type': 'Organization', name: 'Tinyland', url: BASE_URL });
+	});
+
+	it('should wire a BuyAction as potentialAction on the offer', () => {
+		const registry = createTransactionRegistry();
+		registry.override('stripe', { mapping: { schemaType: 'BuyAction' } });
+		const scoped = new OfferBuilderService({ registry });
+		const node = scoped.buildOffer(
+			makeProduct({ slug: 'kit' }),
+			makeTransaction({ url: 'https://buy.stripe.com/abc' }),
+			BASE_URL
+		) as SchemaOffer;
+		expect(node['@type']).toBe('Offer');
+		expect(node.potentialAction).toEqual({
+			'@type': 'BuyAction',
+			target: { '@type': 'EntryPoint', urlTemplate: 'https://buy.stripe.com/abc' },
+			seller: { '@type': 'Organization', name: 'Tinyland', url: BASE_URL },
+		});
+	});
+
+	it('should leave plain Offer mappings untouched', () => {
+		const node = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL) as SchemaOffer;
+		expect(node['@type']).toBe('Offer');
+		expect(node.potentialAction).toBeUndefined();
+	});
+
+	it('should target the product page when an action has no external url', () => {
+		const node = svc.buildOffer(
+			makeProduct({ slug: 'mug' }),
+			makeTransaction({ type: 'kofi', url: undefined, price: 3 }),
+			BASE_URL
+		) as SchemaDonateAction;
+		expect(node.target.urlTemplate).toBe('https://tinyland.dev/products/mug');
+		expect(node.externalUrl).toBeUndefined();
+	});
+});
+
+
+
+
+
 describe('buildAllOffers', () => {
 	let svc: OfferBuilderService;
 
@@ -959,10 +1069,10 @@ describe('validateTransaction', () => {
 
 	it('should fail for invalid currency', () => {
 		const result = svc.validateTransaction(
-			makeTransaction({ currency: 'JPY' })
+			makeTransaction({ currency: 'ABC' })
 		);
 		expect(result.valid).toBe(false);
-		expect(result.errors.some((e) => e.includes('Invalid currency: JPY'))).toBe(true);
+		expect(result.errors.some((e) => e.includes('Invalid currency: ABC'))).toBe(true);
 	});
 
 	it('should pass for valid currencies', () => {
@@ -1019,7 +1129,7 @@ describe('validateTransaction', () => {
 
 	it('should pass for ebay with url and price', () => {
 		const result = svc.validateTransaction(
-			makeTransaction({ type: 'ebay', url: 'https://ebay.com/item/1', price: 25 })
+			makeTransaction({ type: 'ebay', url: 'https://www.ebay.com/itm/1', price: 25 })
 		);
 		expect(result.valid).toBe(true);
 	});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfferBuilderService, countPostLength, resetConfig } from '../src/index.js';
+import type { ProductItem, SchemaItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const EBAY: TransactionConfig = {
+	type: 'ebay',
+	enabled: true,
+	url: 'https://www.ebay.com/itm/1234567890?hash=item1&var=42',
+	price: '25.00',
+	currency: 'USD',
+	priority: 5,
+};
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.9', currency: 'EUR', priority: 3 };
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'USD',
+	priority: 2,
+};
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 1 };
+
+const PRODUCT: ProductItem = {
+	slug: 'kit',
+	title: 'Kit',
+	frontmatter: { transactions: [EBAY, STRIPE, KOFI, INQUIRY] },
+};
+
+
+
+
+
+describe('countPostLength', () => {
+	it('should count every URL as 23 characters', () => {
+		expect(countPostLength('see https://example.com/a/very/long/path?with=query')).toBe(4 + 23);
+		expect(countPostLength('a https://x.dev b http://y.dev')).toBe(5 + 46);
+	});
+
+	it('should count code points rather than UTF-16 units', () => {
+		expect(countPostLength('🎁 kit')).toBe(5);
+	});
+});
+
+
+
+
+
+describe('renderOfferPost', () => {
+	let svc: OfferBuilderService;
+	let offers: ReturnType<OfferBuilderService['buildAllOffers']>;
+	let item: SchemaItem;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		offers = svc.buildAllOffers(PRODUCT, BASE_URL);
+		item = (offers[0] as SchemaOffer).itemOffered!;
+	});
+
+	it('should list every offer in priority order when it fits', () => {
+		const post = svc.renderOfferPost(item, offers, { hashtags: ['tinyland', 'hand-made'] });
+
+		expect(post.body).toBe(
+			[
+				'Kit',
+				'',
+				'• eBay: 25.00 USD https://www.ebay.com/itm/1234567890?var=42',
+				'• Credit Card: 29.90 EUR https://tinyland.dev/products/kit',
+				'• Ko-fi: 5 USD https://ko-fi.com/tinyland',
+				'• Contact: https://tinyland.dev/products/kit',
+				'',
+				'#tinyland #handmade',
+			].join('\n')
+		);
+		expect(post.omitted).toEqual([]);
+		expect(post.length).toBe(countPostLength(post.body));
+	});
+
+	it('should drop lower-priority offers and link to the rest', () => {
+		const post = svc.renderOfferPost(item, offers, { limit: 140 });
+
+		expect(post.included).toEqual([offers[0]['@id'], offers[1]['@id']]);
+		expect(post.omitted).toEqual([offers[2]['@id'], offers[3]['@id']]);
+		expect(post.body.endsWith('2 more options: https://tinyland.dev/products/kit')).toBe(true);
+		expect(post.length).toBeLessThanOrEqual(140);
+	});
+
+	it('should render Markdown and sanitized HTML', () => {
+		const markdown = svc.renderOfferPost(item, offers.slice(0, 2), { format: 'markdown', intro: 'New *drop*' });
+		expect(markdown.body).toBe(
+			[
+				'**Kit**',
+				'',
+				'New \\*drop\\*',
+				'',
+				'- [eBay](https://www.ebay.com/itm/1234567890?var=42): 25.00 USD',
+				'- [Credit Card](https://tinyland.dev/products/kit): 29.90 EUR',
+			].join('\n')
+		);
+
+		const html = svc.renderOfferPost(item, offers.slice(0, 1), {
+			format: 'html',
+			title: '<script>alert(1)</script>Kit',
+		});
+		expect(html.body).toBe(
+			'<p><strong>alert(1)Kit</strong></p><ul><li><a href="https://www.ebay.com/itm/1234567890?var=42" ' +
+				'rel="nofollow noopener noreferrer" target="_blank">eBay</a>: 25.00 USD</li></ul>'
+		);
+	});
+
+	it('should count HTML posts by their visible text', () => {
+		const text = svc.renderOfferPost(item, offers, { limit: 150 });
+		const html = svc.renderOfferPost(item, offers, { limit: 150, format: 'html' });
+
+		expect(html.included).toEqual(text.included);
+		expect(html.length).toBe(text.length);
+	});
+
+	it('should drop hashtags and truncate the title and intro when nothing else fits', () => {
+		const post = svc.renderOfferPost(item, offers, {
+			limit: 80,
+			intro: 'Restocked this week with the full colour range and a new carrying case',
+			hashtags: ['tinyland', 'handmade'],
+		});
+
+		expect(post.included).toEqual([]);
+		expect(post.omitted).toHaveLength(4);
+		expect(post.body).toBe(
+			['Kit', '', 'Restocked this week with the full…', '', '4 more options: https://tinyland.dev/products/kit'].join('\n')
+		);
+		expect(post.length).toBe(80);
+
+		const tiny = svc.renderOfferPost(item, offers, { limit: 10, title: 'A very long announcement' });
+		expect(tiny.body).toBe('A very lo…');
+		expect(tiny.length).toBe(10);
+	});
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	TRANSACTION_MAPPINGS,
+	resetConfig,
+	isPayWhatYouWant,
+	resolveListedPrice,
+	formatPriceRange,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeProduct(): ProductItem {
+	return { slug: 'zine', title: 'Zine', frontmatter: {} };
+}
+
+function pwyw(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return { type: 'stripe', enabled: true, currency: 'USD', ...overrides };
+}
+
+
+
+
+
+describe('pay-what-you-want helpers', () => {
+	it('should detect pay-what-you-want configs', () => {
+		expect(isPayWhatYouWant(pwyw({ minPrice: 1 }))).toBe(true);
+		expect(isPayWhatYouWant(pwyw({ suggestedPrices: [5] }))).toBe(true);
+		expect(isPayWhatYouWant(pwyw({ price: 5 }))).toBe(false);
+	});
+
+	it('should resolve the listed price', () => {
+		expect(resolveListedPrice(pwyw({ price: 7, minPrice: 1 }))).toBe(7);
+		expect(resolveListedPrice(pwyw({ minPrice: 1, suggestedPrices: [5, 10] }))).toBe(5);
+		expect(resolveListedPrice(pwyw({ minPrice: '2.50' }))).toBe('2.50');
+		expect(resolveListedPrice(pwyw({ maxPrice: 50 }))).toBeUndefined();
+		expect(resolveListedPrice(pwyw())).toBeUndefined();
+	});
+
+	it('should format ranges', () => {
+		const base = { '@type': 'PriceSpecification' as const, price: 1, priceCurrency: 'USD' };
+		expect(formatPriceRange({ ...base, minPrice: 1, maxPrice: 20 })).toBe('1 USD to 20 USD');
+		expect(formatPriceRange({ ...base, minPrice: '1.5' })).toBe('from 1.50 USD');
+		expect(formatPriceRange({ ...base, maxPrice: 20 })).toBe('up to 20 USD');
+		expect(formatPriceRange({ ...base, suggestedPrices: [5] })).toBe('5 USD suggested');
+		expect(formatPriceRange(base)).toBeUndefined();
+	});
+
+	it('should flag the mappings that accept custom amounts', () => {
+		const allowed = Object.values(TRANSACTION_MAPPINGS)
+			.filter((m) => m.allowsCustomAmount)
+			.map((m) => m.transactionType);
+		expect(allowed.sort()).toEqual(['kofi', 'liberapay', 'stripe', 'talar']);
+	});
+});
+
+
+
+
+
+describe('buildOffer pay-what-you-want', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit min, max and suggested prices', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			pwyw({ minPrice: '1.00', maxPrice: 50, suggestedPrices: [5, '10.00'] }),
+			BASE_URL
+		);
+		expect(offer.price).toBe(5);
+		expect(offer.priceSpecification).toMatchObject({
+			price: 5,
+			minPrice: '1.00',
+			maxPrice: 50,
+			suggestedPrices: [5, '10.00'],
+		});
+	});
+
+	it('should price a minimum-only offer at its minimum', () => {
+		const offer = svc.buildOffer(makeProduct(), pwyw({ minPrice: 3 }), BASE_URL);
+		expect(offer.price).toBe(3);
+		expect(offer.priceSpecification!.maxPrice).toBeUndefined();
+	});
+
+	it('should emit a free-with-tips offer for minPrice 0', () => {
+		const offer = svc.buildOffer(makeProduct(), pwyw({ minPrice: 0 }), BASE_URL);
+		expect(offer.price).toBe(0);
+		expect(offer.priceSpecification!.minPrice).toBe(0);
+	});
+
+	it('should carry the range on donation actions', () => {
+		const node = svc.buildOffer(
+			makeProduct(),
+			pwyw({ type: 'kofi', url: 'https://ko-fi.com/t', suggestedPrices: [3, 5, 10] }),
+			BASE_URL
+		);
+		expect(node['@type']).toBe('DonateAction');
+		expect(node.priceSpecification!.suggestedPrices).toEqual([3, 5, 10]);
+	});
+
+	it('should keep the range on the recurring component of a subscription', () => {
+		const node = svc.buildOffer(
+			makeProduct(),
+			pwyw({ type: 'liberapay', url: 'https://liberapay.com/t', minPrice: '0.01', billingDuration: 'week' }),
+			BASE_URL
+		);
+		expect(node.priceSpecification).toMatchObject({ minPrice: '0.01', unitCode: 'WEE' });
+	});
+
+	it('should render ranges in attachments', () => {
+		const offer = svc.buildOffer(makeProduct(), pwyw({ label: 'Zine', minPrice: 2, maxPrice: 20 }), BASE_URL);
+		expect(svc.offerToActivityPubAttachment(offer).value).toBe('Zine - 2 USD to 20 USD');
+	});
+});
+
+
+
+
+
+describe('validateTransaction pay-what-you-want', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should accept a consistent range without a fixed price', () => {
+		const result = svc.validateTransaction(pwyw({ minPrice: 1, maxPrice: 20, suggestedPrices: [5, 10] }));
+		expect(result).toEqual({ valid: true, issues: [], errors: [], warnings: [] });
+	});
+
+	it('should reject min above max', () => {
+		const result = svc.validateTransaction(pwyw({ minPrice: 20, maxPrice: 10 }));
+		expect(result.errors).toContain('minPrice 20 must not exceed maxPrice 10');
+	});
+
+	it('should reject suggestions outside the range', () => {
+		const result = svc.validateTransaction(pwyw({ minPrice: 5, maxPrice: 10, suggestedPrices: [1, 15] }));
+		expect(result.errors).toContain('Suggested price 1 is below minPrice 5');
+		expect(result.errors).toContain('Suggested price 15 is above maxPrice 10');
+	});
+
+	it('should reject a fixed price outside the range', () => {
+		const result = svc.validateTransaction(pwyw({ price: 1, minPrice: 5 }));
+		expect(result.errors).toContain('Price 1 is below minPrice 5');
+	});
+
+	it('should reject invalid amounts', () => {
+		const result = svc.validateTransaction(pwyw({ minPrice: 'abc', suggestedPrices: [-1] }));
+		expect(result.errors).toContain('Invalid minPrice: abc');
+		expect(result.errors).toContain('Invalid suggested price: -1');
+	});
+
+	it('should reject excess precision', () => {
+		const result = svc.validateTransaction(pwyw({ minPrice: '0.001' }));
+		expect(result.errors).toContain('minPrice 0.001 has more decimal places than USD allows');
+	});
+
+	it('should require a floor or suggestion when only maxPrice is set', () => {
+		const result = svc.validateTransaction(pwyw({ maxPrice: 50 }));
+		expect(result.valid).toBe(false);
+		expect(result.issues).toEqual([
+			expect.objectContaining({
+				code: 'PRICE_REQUIRED',
+				path: '$.minPrice',
+				message: 'Pay-what-you-want transaction type "stripe" requires minPrice or suggestedPrices',
+			}),
+		]);
+
+		const offer = svc.buildOffer(makeProduct(), pwyw({ maxPrice: 50 }), BASE_URL);
+		expect(offer.price).toBeUndefined();
+		expect(offer.priceSpecification).toBeUndefined();
+	});
+
+	it('should reject empty suggestion lists', () => {
+		expect(svc.validateTransaction(pwyw({ suggestedPrices: [] })).errors).toContain(
+			'suggestedPrices must be a non-empty list'
+		);
+	});
+
+	it('should reject pay-what-you-want on fixed-price channels', () => {
+		const result = svc.validateTransaction(
+			pwyw({ type: 'ebay', url: 'https://ebay.com/itm/1', minPrice: 1 })
+		);
+		expect(result.errors).toContain('Transaction type "ebay" does not support pay-what-you-want pricing');
+	});
+});
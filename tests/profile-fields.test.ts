@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	MASTODON_FIELD_VALUE_LENGTH,
+	resetConfig,
+	shortenAttachmentParts,
+	toMastodonLink,
+} from '../src/index.js';
+import type { ProductItem, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const INQUIRY: TransactionConfig = { type: 'inquiry', enabled: true, priority: 9 };
+const EBAY: TransactionConfig = {
+	type: 'ebay',
+	enabled: true,
+	url: 'https://www.ebay.com/itm/1',
+	price: '25.00',
+	currency: 'USD',
+	priority: 8,
+};
+const STRIPE: TransactionConfig = { type: 'stripe', enabled: true, price: '29.90', currency: 'EUR', priority: 7 };
+const POLAR: TransactionConfig = {
+	type: 'polar',
+	enabled: true,
+	url: 'https://polar.sh/tinyland',
+	currency: 'USD',
+	billingDuration: 'month',
+	tiers: [
+		{ name: 'Basic', price: '5.00' },
+		{ name: 'Pro', price: '15.00' },
+	],
+	priority: 6,
+};
+const KOFI: TransactionConfig = {
+	type: 'kofi',
+	enabled: true,
+	url: 'https://ko-fi.com/tinyland',
+	price: 5,
+	currency: 'USD',
+	priority: 5,
+};
+const MAIL: TransactionConfig = { type: 'snail-mail', enabled: true, price: '30.00', currency: 'USD', priority: 4 };
+const MONERO: TransactionConfig = { type: 'monero', enabled: true, price: '0.5', currency: 'XMR', priority: 3 };
+
+function makeProduct(transactions: TransactionConfig[]): ProductItem {
+	return { slug: 'kit', title: 'Kit', frontmatter: { transactions } };
+}
+
+function types(ids: string[]): string[] {
+	return ids.map((id) => id.split('#')[1]);
+}
+
+
+
+
+
+describe('selectProfileFields', () => {
+	let svc: OfferBuilderService;
+	let offers: ReturnType<OfferBuilderService['buildAllOffers']>;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+		offers = svc.buildAllOffers(makeProduct([INQUIRY, EBAY, STRIPE, POLAR, KOFI, MAIL, MONERO]), BASE_URL);
+	});
+
+	it('should keep the four highest-priority offers and skip duplicates', () => {
+		const selection = svc.selectProfileFields(offers);
+
+		expect(types(selection.selected)).toEqual(['offer-inquiry', 'offer-ebay', 'offer-stripe', 'offer-polar-basic']);
+		expect(selection.skipped.map(({ id, reason }) => [id.split('#')[1], reason])).toEqual([
+			['offer-polar-pro', 'duplicate'],
+			['action-kofi', 'limit'],
+			['offer-snail-mail', 'limit'],
+			['offer-monero', 'limit'],
+		]);
+		expect(selection.fields.map((field) => field.name)).toEqual(['Contact', 'eBay', 'Credit Card', 'Polar Subscription']);
+	});
+
+	it('should put monetary offers first', () => {
+		const selection = svc.selectProfileFields(offers, { strategy: 'monetary-first' });
+		expect(types(selection.selected)).toEqual(['offer-ebay', 'offer-stripe', 'offer-polar-basic', 'action-kofi']);
+	});
+
+	it('should put private payment methods first', () => {
+		const selection = svc.selectProfileFields(offers, { strategy: 'privacy-first', limit: 5 });
+		expect(types(selection.selected)).toEqual([
+			'offer-snail-mail',
+			'offer-monero',
+			'offer-inquiry',
+			'offer-stripe',
+			'offer-ebay',
+		]);
+	});
+
+	it('should render external URLs as Mastodon-style anchors', () => {
+		const [, ebay] = svc.selectProfileFields(offers).fields;
+		expect(ebay.value).toBe(
+			'Kit - ebay - 25.00 USD (<a href="https://www.ebay.com/itm/1" target="_blank" ' +
+				'rel="nofollow noopener noreferrer me" translate="no"><span class="invisible">https://www.</span>' +
+				'<span class="">ebay.com/itm/1</span><span class="invisible"></span></a>)'
+		);
+
+		const text = svc.selectProfileFields(offers, { format: 'text' }).fields[1];
+		expect(text).toEqual(svc.offerToActivityPubAttachment(offers[1]));
+	});
+
+	it('should shorten long values while keeping the link intact', () => {
+		const long = svc.buildAllOffers(makeProduct([{ ...EBAY, label: `Kit ${'x'.repeat(400)}` }]), BASE_URL);
+		const [field] = svc.selectProfileFields(long, { format: 'text' }).fields;
+
+		expect([...field.value]).toHaveLength(MASTODON_FIELD_VALUE_LENGTH);
+		expect(field.value).toMatch(/^Kit x+… - 25\.00 USD \(https:\/\/www\.ebay\.com\/itm\/1\)$/);
+	});
+
+	it('should measure the emitted HTML against the field limit', () => {
+		const long = svc.buildAllOffers(
+			{
+				slug: 'kit',
+				title: `Kit ${'y'.repeat(200)}`,
+				frontmatter: {
+					transactions: [
+						{ ...EBAY, url: `https://www.ebay.com/itm/${'1'.repeat(80)}` },
+						KOFI,
+						STRIPE,
+					],
+				},
+			},
+			BASE_URL
+		);
+		const { fields } = svc.selectProfileFields(long);
+
+		expect(fields).toHaveLength(3);
+		for (const field of fields) expect(field.value.length).toBeLessThanOrEqual(MASTODON_FIELD_VALUE_LENGTH);
+		expect(fields[1].value).toMatch(/^Kit y+ - stripe - 29\.90 EUR$/);
+		expect(fields[0].value).toMatch(/^Kit y+ - ebay - 25\.00 USD$/);
+		expect(fields[2].value).toMatch(/^Kit y+… - 5 USD \(<a href="https:\/\/ko-fi\.com\/tinyland" /);
+	});
+});
+
+
+
+
+
+describe('shortenAttachmentParts', () => {
+	it('should fall back to price and link, then the link alone', () => {
+		const parts = { label: 'Kit', price: '25.00 USD', url: 'https://ko-fi.com/tinyland' };
+
+		expect(shortenAttachmentParts(parts, 40)).toEqual({ ...parts, label: '' });
+		expect(shortenAttachmentParts(parts, 28)).toEqual({ label: '', url: parts.url });
+		expect(shortenAttachmentParts(parts, 16)).toEqual({ label: 'Kit', price: '25.00 USD', url: undefined });
+		expect(shortenAttachmentParts(parts, 10)).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('toMastodonLink', () => {
+	it('should hide the scheme and elide long paths', () => {
+		const link = toMastodonLink('https://example.com/a/really/long/path/that/keeps/going');
+
+		expect(link).toContain('<span class="invisible">https://</span>');
+		expect(link).toContain('<span class="ellipsis">example.com/a/really/long/path</span>');
+		expect(link).toContain('<span class="invisible">/that/keeps/going</span>');
+	});
+});
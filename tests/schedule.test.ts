@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	resetConfig,
+	resolveScheduledPrice,
+	resolveScheduledAvailability,
+	isActiveAt,
+	parseScheduleEnd,
+} from '../src/index.js';
+import type { ProductItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const SCHEDULED: TransactionConfig = {
+	type: 'stripe',
+	enabled: true,
+	price: '40.00',
+	currency: 'USD',
+	schedule: [
+		{ kind: 'launch', price: '25.00', validFrom: '2026-10-01', validThrough: '2026-10-14T23:59:59Z' },
+		{ kind: 'regular', price: '35.00', validFrom: '2026-10-15' },
+		{ kind: 'sale', price: '20.00', validFrom: '2026-11-27', validThrough: '2026-11-30T23:59:59Z' },
+	],
+};
+
+function makeProduct(transactions: TransactionConfig[] = []): ProductItem {
+	return { slug: 'kit', title: 'Kit', frontmatter: { transactions } };
+}
+
+
+
+
+
+describe('schedule helpers', () => {
+	it('should check windows inclusively', () => {
+		const entry = { price: 1, validFrom: '2026-01-01T00:00:00Z', validThrough: '2026-01-31T00:00:00Z' };
+		expect(isActiveAt(entry, new Date('2026-01-01T00:00:00Z'))).toBe(true);
+		expect(isActiveAt(entry, new Date('2026-01-31T00:00:00Z'))).toBe(true);
+		expect(isActiveAt(entry, new Date('2026-02-01T00:00:00Z'))).toBe(false);
+		expect(isActiveAt({ price: 1 }, new Date())).toBe(true);
+	});
+
+	it('should keep date-only end dates active through the whole day', () => {
+		const entry = { price: 1, validFrom: '2026-11-27', validThrough: '2026-11-30' };
+		expect(isActiveAt(entry, new Date('2026-11-30T23:59:59Z'))).toBe(true);
+		expect(isActiveAt(entry, new Date('2026-12-01T00:00:00Z'))).toBe(false);
+		expect(parseScheduleEnd('2026-11-30')).toBe(Date.parse('2026-12-01T00:00:00Z'));
+	});
+
+	it('should pick the most recently started active entry', () => {
+		expect(resolveScheduledPrice(SCHEDULED, new Date('2026-10-05'))!.kind).toBe('launch');
+		expect(resolveScheduledPrice(SCHEDULED, new Date('2026-11-01'))!.kind).toBe('regular');
+		expect(resolveScheduledPrice(SCHEDULED, new Date('2026-11-28'))!.kind).toBe('sale');
+		expect(resolveScheduledPrice(SCHEDULED, new Date('2026-09-01'))).toBeUndefined();
+	});
+
+	it('should prefer the narrower window when starts tie', () => {
+		const t: TransactionConfig = {
+			type: 'stripe',
+			enabled: true,
+			schedule: [
+				{ price: 10, validFrom: '2026-01-01' },
+				{ price: 5, validFrom: '2026-01-01', validThrough: '2026-01-10' },
+			],
+		};
+		expect(resolveScheduledPrice(t, new Date('2026-01-05'))!.price).toBe(5);
+	});
+
+	it('should derive availability from the availability window', () => {
+		const t: TransactionConfig = {
+			type: 'stripe',
+			enabled: true,
+			availabilityStarts: '2026-12-01',
+			availabilityEnds: '2027-01-01',
+		};
+		expect(resolveScheduledAvailability(t, 'InStock', new Date('2026-11-01'))).toBe('PreOrder');
+		expect(resolveScheduledAvailability(t, 'InStock', new Date('2026-12-15'))).toBe('InStock');
+		expect(resolveScheduledAvailability(t, 'InStock', new Date('2027-02-01'))).toBe('Discontinued');
+		expect(resolveScheduledAvailability({ ...t, availability: 'SoldOut' }, 'InStock', new Date('2026-11-01'))).toBe('SoldOut');
+	});
+});
+
+
+
+
+
+describe('buildOffer with schedules', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should emit the launch price and its window', () => {
+		const offer = svc.buildOffer(makeProduct(), SCHEDULED, BASE_URL, { asOf: '2026-10-05' }) as SchemaOffer;
+		expect(offer.price).toBe('25.00');
+		expect(offer.priceSpecification).toMatchObject({
+			validFrom: '2026-10-01',
+			validThrough: '2026-10-14T23:59:59Z',
+			priceType: 'https://schema.org/SalePrice',
+		});
+		expect(offer.priceValidUntil).toBe('2026-10-14T23:59:59Z');
+	});
+
+	it('should flip to the sale price inside the sale window', () => {
+		const offer = svc.buildOffer(makeProduct(), SCHEDULED, BASE_URL, { asOf: new Date('2026-11-28T12:00:00Z') });
+		expect(offer.price).toBe('20.00');
+	});
+
+	it('should use the open-ended regular price after the sale', () => {
+		const offer = svc.buildOffer(makeProduct(), SCHEDULED, BASE_URL, { asOf: '2026-12-05' }) as SchemaOffer;
+		expect(offer.price).toBe('35.00');
+		expect(offer.priceSpecification!.priceType).toBe('https://schema.org/ListPrice');
+		expect(offer.priceValidUntil).toBeUndefined();
+	});
+
+	it('should fall back to the base price when no entry is active', () => {
+		const offer = svc.buildOffer(makeProduct(), SCHEDULED, BASE_URL, { asOf: '2026-09-01' });
+		expect(offer.price).toBe('40.00');
+		expect(offer.priceSpecification!.validFrom).toBeUndefined();
+	});
+
+	it('should emit the availability window', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			{ ...SCHEDULED, availabilityStarts: '2026-10-01', availabilityEnds: '2027-01-01' },
+			BASE_URL,
+			{ asOf: '2026-09-15' }
+		) as SchemaOffer;
+		expect(offer.availability).toBe('PreOrder');
+		expect(offer.availabilityStarts).toBe('2026-10-01');
+		expect(offer.availabilityEnds).toBe('2027-01-01');
+	});
+
+	it('should keep the sale price on the last day of a date-only window', () => {
+		const sale: TransactionConfig = {
+			...SCHEDULED,
+			schedule: [
+				{ kind: 'regular', price: '30.00', validFrom: '2026-10-15' },
+				{ kind: 'sale', price: '20.00', validFrom: '2026-11-27', validThrough: '2026-11-30' },
+			],
+		};
+		expect(svc.buildOffer(makeProduct(), sale, BASE_URL, { asOf: '2026-11-30T15:00:00Z' }).price).toBe('20.00');
+		expect(svc.buildOffer(makeProduct(), sale, BASE_URL, { asOf: '2026-12-01T00:00:00Z' }).price).toBe('30.00');
+	});
+
+	it('should pass asOf through buildAllOffers', () => {
+		const offers = svc.buildAllOffers(makeProduct([SCHEDULED]), BASE_URL, { asOf: '2026-11-29' });
+		expect(offers[0].price).toBe('20.00');
+	});
+
+	it('should reject invalid asOf values', () => {
+		expect(() => svc.buildOffer(makeProduct(), SCHEDULED, BASE_URL, { asOf: 'soon' })).toThrow(
+			'Invalid asOf date: soon'
+		);
+	});
+});
+
+
+
+
+
+describe('validateTransaction schedules', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should accept a valid schedule without a base price', () => {
+		expect(svc.validateTransaction({ ...SCHEDULED, price: undefined }).valid).toBe(true);
+	});
+
+	it('should reject bad entries', () => {
+		const result = svc.validateTransaction({
+			...SCHEDULED,
+			schedule: [
+				{ price: 'cheap', validFrom: 'tomorrow' },
+				{ price: 5, kind: 'clearance' as never, validFrom: '2026-02-01', validThrough: '2026-01-01' },
+			],
+		});
+		expect(result.errors).toContain('Invalid price for Scheduled price #1: cheap');
+		expect(result.errors).toContain('Invalid Scheduled price #1 start date: tomorrow');
+		expect(result.errors).toContain('Invalid kind for Scheduled price #2: clearance');
+		expect(result.errors).toContain('Scheduled price #2 starts after it ends: 2026-02-01 > 2026-01-01');
+	});
+
+	it('should reject inverted availability windows and empty schedules', () => {
+		const result = svc.validateTransaction({
+			...SCHEDULED,
+			schedule: [],
+			availabilityStarts: '2027-01-01',
+			availabilityEnds: '2026-01-01',
+		});
+		expect(result.errors).toContain('Price schedule must be a non-empty list');
+		expect(result.errors).toContain('Availability starts after it ends: 2027-01-01 > 2026-01-01');
+	});
+});
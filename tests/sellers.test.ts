@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	configure,
+	resetConfig,
+	resolveSellerProfile,
+	toSchemaSeller,
+	OfferBuilderService,
+} from '../src/index.js';
+import type { ProductItem, SchemaOffer, SellerProfile, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const SHOP: SellerProfile = {
+	name: 'Tinyland Shop',
+	url: 'https://shop.tinyland.dev',
+	logo: 'https://shop.tinyland.dev/logo.png',
+	email: 'shop@tinyland.dev',
+	sameAs: ['https://github.com/tinyland-inc'],
+	actor: 'https://tinyland.dev/users/shop',
+};
+
+const MAKER: SellerProfile = {
+	type: 'Person',
+	name: 'Robin Maker',
+	url: 'https://robin.example',
+	logo: 'https://robin.example/avatar.png',
+};
+
+function makeProduct(frontmatter: Record<string, unknown> = {}): ProductItem {
+	return { slug: 'p', title: 'P', frontmatter };
+}
+
+function makeTransaction(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return { type: 'stripe', enabled: true, price: 10, ...overrides };
+}
+
+
+
+
+
+describe('resolveSellerProfile', () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it('should fall back to Tinyland at the base url', () => {
+		expect(resolveSellerProfile([], BASE_URL)).toEqual({
+			type: 'Organization',
+			name: 'Tinyland',
+			url: BASE_URL,
+		});
+	});
+
+	it('should use the configured default seller', () => {
+		configure({ sellers: { shop: SHOP }, defaultSeller: 'shop' });
+		expect(resolveSellerProfile([], BASE_URL)).toBe(SHOP);
+	});
+
+	it('should prefer earlier references in the chain', () => {
+		configure({ sellers: { shop: SHOP, maker: MAKER }, defaultSeller: 'shop' });
+		expect(resolveSellerProfile([undefined, 'maker'], BASE_URL)).toBe(MAKER);
+		expect(resolveSellerProfile([MAKER, 'shop'], BASE_URL)).toBe(MAKER);
+	});
+
+	it('should throw for unknown profile ids', () => {
+		expect(() => resolveSellerProfile(['ghost'], BASE_URL)).toThrow('Unknown seller profile: ghost');
+	});
+
+	it('should ignore names inherited from Object.prototype', () => {
+		configure({ sellers: { shop: SHOP } });
+		expect(() => resolveSellerProfile(['toString'], BASE_URL)).toThrow('Unknown seller profile: toString');
+		expect(() => resolveSellerProfile(['constructor'], BASE_URL)).toThrow(
+			'Unknown seller profile: constructor'
+		);
+	});
+
+	it('should throw for inline profiles without a name', () => {
+		expect(() => resolveSellerProfile([{ url: 'https://x.example' }], BASE_URL)).toThrow(
+			'Invalid seller profile: name is required'
+		);
+	});
+});
+
+
+
+
+
+describe('toSchemaSeller', () => {
+	it('should map an organization profile', () => {
+		expect(toSchemaSeller(SHOP)).toEqual({
+			'@type': 'Organization',
+			'@id': 'https://tinyland.dev/users/shop',
+			name: 'Tinyland Shop',
+			url: 'https://shop.tinyland.dev',
+			logo: 'https://shop.tinyland.dev/logo.png',
+			email: 'shop@tinyland.dev',
+			sameAs: ['https://github.com/tinyland-inc', 'https://tinyland.dev/users/shop'],
+		});
+	});
+
+	it('should wrap a single sameAs URL in a list', () => {
+		expect(toSchemaSeller({ name: 'Solo', sameAs: 'https://solo.example' }).sameAs).toEqual(['https://solo.example']);
+	});
+
+	it('should map a person logo to image', () => {
+		const seller = toSchemaSeller(MAKER);
+		expect(seller['@type']).toBe('Person');
+		expect(seller.image).toBe('https://robin.example/avatar.png');
+		expect(seller.logo).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('OfferBuilderService seller selection', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		configure({ sellers: { shop: SHOP, maker: MAKER }, defaultSeller: 'shop' });
+		svc = new OfferBuilderService();
+	});
+
+	it('should use the config default seller', () => {
+		const offer = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL) as SchemaOffer;
+		expect(offer.seller!.name).toBe('Tinyland Shop');
+	});
+
+	it('should let frontmatter override the default', () => {
+		const offer = svc.buildOffer(makeProduct({ seller: 'maker' }), makeTransaction(), BASE_URL) as SchemaOffer;
+		expect(offer.seller!['@type']).toBe('Person');
+		expect(offer.seller!.name).toBe('Robin Maker');
+	});
+
+	it('should let the transaction override frontmatter', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'maker' }),
+			makeTransaction({ seller: { name: 'Guest Seller' } }),
+			BASE_URL
+		) as SchemaOffer;
+		expect(offer.seller).toEqual({ '@type': 'Organization', name: 'Guest Seller' });
+	});
+
+	it('should use the seller as DonateAction recipient', () => {
+		const node = svc.buildOffer(
+			makeProduct({ seller: 'maker' }),
+			makeTransaction({ type: 'kofi', url: 'https://ko-fi.com/robin' }),
+			BASE_URL
+		);
+		expect(node['@type'] === 'DonateAction' && node.recipient.name).toBe('Robin Maker');
+	});
+
+	it('should throw when building with an unknown seller', () => {
+		expect(() =>
+			svc.buildOffer(makeProduct({ seller: 'ghost' }), makeTransaction(), BASE_URL)
+		).toThrow('Unknown seller profile: ghost');
+	});
+
+	it('should report unknown transaction sellers in validation', () => {
+		const result = svc.validateTransaction(makeTransaction({ seller: 'ghost' }));
+		expect(result.valid).toBe(false);
+		expect(result.errors).toContain('Unknown seller profile: ghost');
+
+		const inherited = svc.validateTransaction(makeTransaction({ seller: 'toString' }));
+		expect(inherited.issues).toContainEqual(
+			expect.objectContaining({ code: 'SELLER_UNKNOWN', path: '$.seller' })
+		);
+	});
+
+	it('should report malformed seller profiles as SELLER_INVALID', () => {
+		const result = svc.validateTransaction(
+			makeTransaction({
+				seller: { name: 'Guest', type: 'Robot' as never, url: 'javascript:alert(1)', sameAs: ['https://ok.example', 'nope'] },
+			})
+		);
+		expect(result.issues.filter((issue) => issue.code === 'SELLER_INVALID').map((issue) => issue.message)).toEqual([
+			'Invalid seller profile: type must be Person or Organization: Robot',
+			'Invalid seller profile: url must be an http(s) URL: javascript:alert(1)',
+			'Invalid seller profile: sameAs must list http(s) URLs: nope',
+		]);
+		expect(() =>
+			svc.buildOffer(makeProduct(), makeTransaction({ seller: { name: 'Guest', sameAs: 'nope' } }), BASE_URL)
+		).toThrow('Invalid seller profile: sameAs must list http(s) URLs: nope');
+
+		configure({ sellers: { broken: { name: 'Broken', url: 'not a url' } } });
+		expect(svc.validateTransaction(makeTransaction({ seller: 'broken' })).issues).toContainEqual(
+			expect.objectContaining({ code: 'SELLER_INVALID', path: '$.seller' })
+		);
+	});
+
+	it('should accept known transaction sellers in validation', () => {
+		expect(svc.validateTransaction(makeTransaction({ seller: 'maker' })).valid).toBe(true);
+	});
+});
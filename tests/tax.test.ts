@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	configure,
+	resetConfig,
+	findTaxRule,
+	computeTax,
+	applyTax,
+} from '../src/index.js';
+import type { ProductItem, TaxRule, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+const DE_VAT: TaxRule = { name: 'VAT', rate: 19, sellerRegion: 'DE', buyerRegion: 'DE', inclusive: true };
+const EU_VAT: TaxRule = { name: 'VAT', rate: '21', buyerRegion: 'EU', inclusive: true };
+const US_SALES: TaxRule = { name: 'Sales tax', rate: '7.25', sellerRegion: 'US', buyerRegion: 'US' };
+
+function makeProduct(frontmatter: Record<string, unknown> = {}): ProductItem {
+	return { slug: 'print', title: 'Print', frontmatter };
+}
+
+function makeTransaction(overrides: Partial<TransactionConfig> = {}): TransactionConfig {
+	return { type: 'stripe', enabled: true, price: '119.00', currency: 'EUR', ...overrides };
+}
+
+
+
+
+
+describe('findTaxRule', () => {
+	const rules = [EU_VAT, DE_VAT, US_SALES];
+
+	it('should prefer exact buyer and seller matches', () => {
+		expect(findTaxRule('DE', 'DE', rules)).toBe(DE_VAT);
+	});
+
+	it('should match region groups', () => {
+		expect(findTaxRule('DE', 'NL', rules)).toBe(EU_VAT);
+	});
+
+	it('should return undefined when nothing matches', () => {
+		expect(findTaxRule('JP', 'JP', rules)).toBeUndefined();
+		expect(findTaxRule(undefined, undefined, rules)).toBeUndefined();
+	});
+
+	it('should treat missing rule regions as wildcards', () => {
+		const fallback: TaxRule = { name: 'Flat', rate: 5 };
+		expect(findTaxRule('JP', 'JP', [...rules, fallback])).toBe(fallback);
+		expect(findTaxRule('US', 'US', [...rules, fallback])).toBe(US_SALES);
+	});
+
+	it('should read rules from config by default', () => {
+		resetConfig();
+		configure({ taxRules: [DE_VAT] });
+		expect(findTaxRule('de', 'de')).toBe(DE_VAT);
+		resetConfig();
+	});
+});
+
+describe('computeTax', () => {
+	it('should split an inclusive price into net and tax', () => {
+		expect(computeTax('119.00', 'EUR', DE_VAT, true)).toMatchObject({
+			net: '100.00',
+			tax: '19.00',
+			gross: '119.00',
+			rate: '19',
+		});
+	});
+
+	it('should add tax to an exclusive price', () => {
+		expect(computeTax('10', 'USD', US_SALES, false)).toMatchObject({
+			net: '10.00',
+			tax: '0.73',
+			gross: '10.73',
+		});
+	});
+
+	it('should round half up while keeping components summing to gross', () => {
+		const result = computeTax('9.99', 'EUR', DE_VAT, true);
+		expect(result.net).toBe('8.39');
+		expect(result.tax).toBe('1.60');
+		expect(result.gross).toBe('9.99');
+	});
+
+	it('should respect zero-decimal currencies', () => {
+		expect(computeTax(1100, 'JPY', { name: 'Consumption tax', rate: 10 }, true)).toMatchObject({
+			net: '1000',
+			tax: '100',
+		});
+	});
+
+	it('should reject negative amounts', () => {
+		expect(() => computeTax('-1', 'EUR', DE_VAT, true)).toThrow('Cannot compute tax');
+	});
+});
+
+describe('applyTax', () => {
+	it('should add tax components to existing compound specs', () => {
+		const spec = applyTax(
+			{
+				'@type': 'CompoundPriceSpecification',
+				price: 5,
+				priceCurrency: 'EUR',
+				priceComponent: [{ '@type': 'UnitPriceSpecification', price: 0, priceCurrency: 'EUR' }],
+			},
+			computeTax(5, 'EUR', DE_VAT, true)
+		);
+		expect(spec.valueAddedTaxIncluded).toBe(true);
+		expect(spec.priceComponent).toEqual([
+			{
+				'@type': 'UnitPriceSpecification',
+				name: 'Net price',
+				price: '0.00',
+				priceCurrency: 'EUR',
+				valueAddedTaxIncluded: false,
+			},
+			{ '@type': 'UnitPriceSpecification', name: 'VAT 19%', price: '0.00', priceCurrency: 'EUR' },
+		]);
+	});
+});
+
+
+
+
+
+describe('OfferBuilderService tax handling', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		configure({
+			taxRules: [DE_VAT, EU_VAT, US_SALES],
+			sellers: { berlin: { name: 'Berlin Studio', region: 'DE' }, ny: { name: 'NY Shop', region: 'US' } },
+		});
+		svc = new OfferBuilderService();
+	});
+
+	it('should keep the old behavior without a matching rule', () => {
+		const offer = svc.buildOffer(makeProduct(), makeTransaction(), BASE_URL);
+		expect(offer.priceSpecification).toEqual({
+			'@type': 'PriceSpecification',
+			price: '119.00',
+			priceCurrency: 'EUR',
+			valueAddedTaxIncluded: false,
+		});
+	});
+
+	it('should emit tax-inclusive compound specs for EU sellers', () => {
+		const offer = svc.buildOffer(makeProduct({ seller: 'berlin' }), makeTransaction(), BASE_URL);
+		expect(offer.price).toBe('119.00');
+		expect(offer.priceSpecification).toEqual({
+			'@type': 'CompoundPriceSpecification',
+			price: '119.00',
+			priceCurrency: 'EUR',
+			valueAddedTaxIncluded: true,
+			priceComponent: [
+				{
+					'@type': 'UnitPriceSpecification',
+					name: 'Net price',
+					price: '100.00',
+					priceCurrency: 'EUR',
+					valueAddedTaxIncluded: false,
+				},
+				{ '@type': 'UnitPriceSpecification', name: 'VAT 19%', price: '19.00', priceCurrency: 'EUR' },
+			],
+		});
+	});
+
+	it('should use the buyer region when given', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'berlin' }),
+			makeTransaction({ price: '121.00', buyerRegion: 'NL' }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!.priceComponent![1].name).toBe('VAT 21%');
+		expect(offer.priceSpecification!.priceComponent![0].price).toBe('100.00');
+	});
+
+	it('should honor the per-transaction exclusive flag', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'berlin' }),
+			makeTransaction({ price: '100.00', taxIncluded: false }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!.valueAddedTaxIncluded).toBe(false);
+		expect(offer.priceSpecification!.priceComponent![1].price).toBe('19.00');
+	});
+
+	it('should default to the rule display mode for US sales tax', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'ny' }),
+			makeTransaction({ price: 10, currency: 'USD' }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!.valueAddedTaxIncluded).toBe(false);
+		expect(offer.priceSpecification!.priceComponent![1].price).toBe('0.73');
+	});
+
+	it('should not tax crypto prices', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'berlin' }),
+			makeTransaction({ type: 'monero', price: '0.5', currency: 'XMR' }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!['@type']).toBe('UnitPriceSpecification');
+		expect(offer.priceSpecification!.valueAddedTaxIncluded).toBeUndefined();
+	});
+
+	it('should keep billing on the net component of taxed subscriptions', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'berlin' }),
+			makeTransaction({ type: 'polar', url: 'https://polar.sh/x', price: '5.95', billingDuration: 'month' }),
+			BASE_URL
+		);
+		expect(offer.priceSpecification!['@type']).toBe('CompoundPriceSpecification');
+		expect(offer.priceSpecification!.priceComponent![0].unitCode).toBe('MON');
+		expect(svc.offerToActivityPubAttachment(offer).value).toContain('5.95 EUR/month');
+	});
+
+	it('should tax each component of subscriptions with a trial', () => {
+		const offer = svc.buildOffer(
+			makeProduct({ seller: 'berlin' }),
+			makeTransaction({
+				type: 'polar',
+				url: 'https://polar.sh/x',
+				price: '11.90',
+				billingDuration: 'month',
+				trial: { duration: 14, unit: 'day', price: '1.19' },
+			}),
+			BASE_URL
+		);
+		const components = offer.priceSpecification!.priceComponent!;
+
+		expect(offer.priceSpecification).toMatchObject({ price: '11.90', valueAddedTaxIncluded: true });
+		expect(components.map((c) => [c.name, c.priceComponentType, c.price])).toEqual([
+			['Net price', undefined, '1.00'],
+			['VAT 19%', undefined, '0.19'],
+			['Net price', 'https://schema.org/Subscription', '10.00'],
+			['VAT 19%', 'https://schema.org/Subscription', '1.90'],
+		]);
+		expect(components[2]).toMatchObject({ unitCode: 'MON', valueAddedTaxIncluded: false });
+		expect(components[3].referenceQuantity).toEqual(components[2].referenceQuantity);
+		expect(svc.offerToActivityPubAttachment(offer).value).toContain('11.90 EUR/month (14-day trial)');
+	});
+
+	it('should validate tax fields', () => {
+		const result = svc.validateTransaction(
+			makeTransaction({ taxIncluded: 'yes' as never, buyerRegion: 'Germany' })
+		);
+		expect(result.errors).toContain('Invalid taxIncluded flag: yes');
+		expect(result.errors).toContain('Invalid buyer region: Germany');
+		expect(svc.validateTransaction(makeTransaction({ buyerRegion: 'eu' })).valid).toBe(true);
+	});
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	TRANSACTION_MAPPINGS,
+	BUILTIN_TRANSACTION_TYPES,
+	TransactionRegistry,
+	createTransactionRegistry,
+	defaultTransactionRegistry,
+	getTransactionRegistry,
+	getTransactionMapping,
+	getSupportedTransactionTypes,
+	requiresExternalUrl,
+	isMonetary,
+	configure,
+	resetConfig,
+	OfferBuilderService,
+} from '../src/index.js';
+import type { TransactionTypeRegistration, ProductItem } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+
+function makeProduct(overrides: Partial<ProductItem> = {}): ProductItem {
+	return {
+		slug: 'test-product',
+		title: 'Test Product',
+		frontmatter: {},
+		...overrides,
+	};
+}
+
+function patreon(overrides: Partial<TransactionTypeRegistration> = {}): TransactionTypeRegistration {
+	return {
+		mapping: {
+			transactionType: 'patreon',
+			schemaType: 'DonateAction',
+			paymentMethods: ['Donation', 'PaymentService'],
+			defaultAvailability: 'OnlineOnly',
+			requiresExternalUrl: true,
+			isMonetary: true,
+			isCryptocurrency: false,
+			isSubscription: true,
+			isDonation: true,
+		},
+		displayName: 'Patreon',
+		...overrides,
+	};
+}
+
+
+
+
+
+describe('TransactionRegistry', () => {
+	let registry: TransactionRegistry;
+
+	beforeEach(() => {
+		registry = createTransactionRegistry();
+	});
+
+	it('should be seeded with the built-in types', () => {
+		expect(registry.types()).toEqual(Object.keys(TRANSACTION_MAPPINGS));
+		expect(BUILTIN_TRANSACTION_TYPES).toHaveLength(15);
+	});
+
+	it('should create an empty registry without builtins', () => {
+		expect(createTransactionRegistry({ builtins: false }).list()).toEqual([]);
+	});
+
+	it('should register a new type', () => {
+		registry.register(patreon());
+		expect(registry.has('patreon')).toBe(true);
+		expect(registry.get('patreon')!.displayName).toBe('Patreon');
+		expect(registry.getMapping('patreon')!.isDonation).toBe(true);
+	});
+
+	it('should reject duplicate registrations', () => {
+		registry.register(patreon());
+		expect(() => registry.register(patreon())).toThrow('Transaction type already registered: patreon');
+	});
+
+	it('should reject registrations without a transactionType', () => {
+		const invalid = patreon();
+		invalid.mapping.transactionType = '';
+		expect(() => registry.register(invalid)).toThrow('requires mapping.transactionType');
+	});
+
+	it('should unregister a type', () => {
+		expect(registry.unregister('ebay')).toBe(true);
+		expect(registry.has('ebay')).toBe(false);
+		expect(registry.unregister('ebay')).toBe(false);
+	});
+
+	it('should override display name and merge mapping fields', () => {
+		registry.override('stripe', { displayName: 'Card', mapping: { defaultAvailability: 'PreOrder' } });
+		const stripe = registry.get('stripe')!;
+		expect(stripe.displayName).toBe('Card');
+		expect(stripe.mapping.defaultAvailability).toBe('PreOrder');
+		expect(stripe.mapping.isMonetary).toBe(true);
+		expect(stripe.mapping.transactionType).toBe('stripe');
+	});
+
+	it('should throw when overriding an unknown type', () => {
+		expect(() => registry.override('nope', { displayName: 'x' })).toThrow('Unknown transaction type: nope');
+	});
+
+	it('should not share state between registries', () => {
+		registry.register(patreon());
+		registry.override('ebay', { displayName: 'Auction' });
+		const other = createTransactionRegistry();
+		expect(other.has('patreon')).toBe(false);
+		expect(other.get('ebay')!.displayName).toBe('eBay');
+		expect(TRANSACTION_MAPPINGS['patreon']).toBeUndefined();
+	});
+
+	it('should not be affected by mutating the registration passed in', () => {
+		const registration = patreon();
+		registry.register(registration);
+		registration.mapping.paymentMethods.push('Cash');
+		expect(registry.getMapping('patreon')!.paymentMethods).toEqual(['Donation', 'PaymentService']);
+	});
+
+	it('should clone into an independent registry', () => {
+		registry.register(patreon());
+		const copy = registry.clone();
+		copy.unregister('patreon');
+		expect(registry.has('patreon')).toBe(true);
+		expect(copy.has('patreon')).toBe(false);
+	});
+
+	it('should reset back to its seed', () => {
+		registry.register(patreon());
+		registry.unregister('stripe');
+		registry.reset();
+		expect(registry.has('patreon')).toBe(false);
+		expect(registry.has('stripe')).toBe(true);
+	});
+});
+
+
+
+
+
+describe('registry scoping', () => {
+	afterEach(() => {
+		resetConfig();
+	});
+
+	it('should resolve the default registry when none is configured', () => {
+		expect(getTransactionRegistry()).toBe(defaultTransactionRegistry);
+	});
+
+	it('should route helpers through a configured registry', () => {
+		const scoped = createTransactionRegistry();
+		scoped.register(patreon());
+		configure({ transactionRegistry: scoped });
+
+		expect(getTransactionMapping('patreon')).toBeDefined();
+		expect(requiresExternalUrl('patreon')).toBe(true);
+		expect(isMonetary('patreon')).toBe(true);
+		expect(getSupportedTransactionTypes()).toContain('patreon');
+	});
+
+	it('should drop the configured registry on resetConfig', () => {
+		const scoped = createTransactionRegistry();
+		scoped.register(patreon());
+		configure({ transactionRegistry: scoped });
+		resetConfig();
+		expect(getTransactionMapping('patreon')).toBeUndefined();
+	});
+});
+
+
+
+
+
+describe('OfferBuilderService with a registry', () => {
+	let registry: TransactionRegistry;
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		registry = createTransactionRegistry();
+		registry.register(patreon({ requiredAction: 'pledge' }));
+		svc = new OfferBuilderService({ registry });
+	});
+
+	it('should build offers for registered types', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			{ type: 'patreon', enabled: true, url: 'https://patreon.com/tinyland', price: 5 },
+			BASE_URL
+		);
+		expect(offer.transactionType).toBe('patreon');
+		expect(offer.acceptedPaymentMethod).toEqual(['Donation', 'PaymentService']);
+	});
+
+	it('should use registered requiredAction for non-monetary types', () => {
+		registry.override('patreon', { mapping: { isMonetary: false, schemaType: 'Offer' } });
+		const offer = svc.buildOffer(
+			makeProduct(),
+			{ type: 'patreon', enabled: true, url: 'https://patreon.com/tinyland' },
+			BASE_URL
+		);
+		expect(offer.requiresAction).toBe('pledge');
+	});
+
+	it('should not see types registered in another scope', () => {
+		const plain = new OfferBuilderService();
+		expect(() =>
+			plain.buildOffer(makeProduct(), { type: 'patreon', enabled: true }, BASE_URL)
+		).toThrow('Unknown transaction type: patreon');
+	});
+
+	it('should run registered validation rules', () => {
+		registry.override('patreon', {
+			validate: (t) => (t.url?.includes('patreon.com') ? [] : ['Patreon URL must point to patreon.com']),
+		});
+		const result = svc.validateTransaction({
+			type: 'patreon',
+			enabled: true,
+			url: 'https://example.com',
+			price: 5,
+		});
+		expect(result.valid).toBe(false);
+		expect(result.errors).toContain('Patreon URL must point to patreon.com');
+	});
+
+	it('should list registered types with display names', () => {
+		const entry = svc.getAllTransactionTypes().find((t) => t.type === 'patreon');
+		expect(entry).toEqual({
+			type: 'patreon',
+			displayName: 'Patreon',
+			isMonetary: true,
+			isDonation: true,
+			isSubscription: true,
+			requiresExternalUrl: true,
+		});
+	});
+
+	it('should use registered display names for attachments', () => {
+		const offer = svc.buildOffer(
+			makeProduct(),
+			{ type: 'patreon', enabled: true, url: 'https://patreon.com/tinyland', price: 5 },
+			BASE_URL
+		);
+		expect(svc.offerToActivityPubAttachment(offer).name).toBe('Patreon');
+	});
+
+	it('should reflect unregistered types immediately', () => {
+		registry.unregister('stripe');
+		expect(svc.getPaymentMethods('stripe')).toEqual([]);
+		expect(svc.validateTransaction({ type: 'stripe', enabled: true, price: 1 }).valid).toBe(false);
+	});
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	BUILTIN_URL_POLICIES,
+	createTransactionRegistry,
+	canonicalizeUrl,
+	matchesHost,
+	isUrlAllowed,
+	validateUrl,
+	resetConfig,
+} from '../src/index.js';
+import type { ProductItem, SchemaOffer, TransactionConfig } from '../src/index.js';
+
+const BASE_URL = 'https://tinyland.dev';
+const PRODUCT: ProductItem = { slug: 'kit', title: 'Kit', frontmatter: {} };
+
+
+
+
+
+describe('host matching', () => {
+	it('should match apex and subdomains for wildcard patterns', () => {
+		expect(matchesHost('ko-fi.com', '*.ko-fi.com')).toBe(true);
+		expect(matchesHost('www.ko-fi.com', '*.ko-fi.com')).toBe(true);
+		expect(matchesHost('evil-ko-fi.com', '*.ko-fi.com')).toBe(false);
+		expect(matchesHost('ko-fi.com.evil.net', '*.ko-fi.com')).toBe(false);
+	});
+
+	it('should match exact hosts only without a wildcard', () => {
+		expect(matchesHost('Buy.Stripe.com', 'buy.stripe.com')).toBe(true);
+		expect(matchesHost('stripe.com', 'buy.stripe.com')).toBe(false);
+	});
+});
+
+
+
+
+
+describe('validateUrl', () => {
+	it('should accept marketplace item URLs', () => {
+		expect(isUrlAllowed('https://www.ebay.co.uk/itm/1234567890', BUILTIN_URL_POLICIES.ebay)).toBe(true);
+		expect(isUrlAllowed('https://www.ebay.com/itm/some-title/1234567890', BUILTIN_URL_POLICIES.ebay)).toBe(true);
+		expect(isUrlAllowed('https://www.etsy.com/listing/123/handmade-kit', BUILTIN_URL_POLICIES.etsy)).toBe(true);
+		expect(isUrlAllowed('https://www.etsy.com/de/listing/123', BUILTIN_URL_POLICIES.etsy)).toBe(true);
+		expect(isUrlAllowed('https://www.amazon.de/Kit/dp/B0ABCDEF12/ref=sr_1_1', BUILTIN_URL_POLICIES.amazon)).toBe(true);
+		expect(isUrlAllowed('https://ko-fi.com/tinyland', BUILTIN_URL_POLICIES.kofi)).toBe(true);
+	});
+
+	it('should reject hosts outside the allowlist', () => {
+		expect(validateUrl('https://www.etsy.com/listing/1', BUILTIN_URL_POLICIES.ebay)).toEqual([
+			expect.objectContaining({
+				code: 'URL_HOST_NOT_ALLOWED',
+				path: '$.url',
+				message: 'URL host not allowed: www.etsy.com',
+			}),
+		]);
+		expect(isUrlAllowed('https://ko-fi.com.phish.example/tinyland', BUILTIN_URL_POLICIES.kofi)).toBe(false);
+		expect(isUrlAllowed('https://ebay.evil.co/itm/1', BUILTIN_URL_POLICIES.ebay)).toBe(false);
+	});
+
+	it('should reject paths that are not item pages', () => {
+		expect(validateUrl('https://www.ebay.com/usr/seller', BUILTIN_URL_POLICIES.ebay)[0].code).toBe('URL_PATH_NOT_ALLOWED');
+		expect(isUrlAllowed('https://www.etsy.com/shop/tinyland', BUILTIN_URL_POLICIES.etsy)).toBe(false);
+	});
+
+	it('should reject other protocols and credentials', () => {
+		expect(validateUrl('http://ko-fi.com/t', BUILTIN_URL_POLICIES.kofi)[0].code).toBe('URL_PROTOCOL_INVALID');
+		expect(validateUrl('javascript:alert(1)')[0].code).toBe('URL_PROTOCOL_INVALID');
+		expect(validateUrl('https://user:pw@ko-fi.com/t', BUILTIN_URL_POLICIES.kofi)[0].code).toBe('URL_INVALID');
+		expect(validateUrl('not-a-url')[0].message).toBe('Invalid URL format: not-a-url');
+	});
+});
+
+
+
+
+
+describe('canonicalizeUrl', () => {
+	it('should strip tracking params', () => {
+		expect(canonicalizeUrl('https://ko-fi.com/t?utm_source=x&utm_medium=y&fbclid=z&tier=2')).toBe(
+			'https://ko-fi.com/t?tier=2'
+		);
+	});
+
+	it('should keep only allowed params when the policy lists them', () => {
+		expect(
+			canonicalizeUrl('https://www.ebay.com/itm/123?hash=item1&_trkparms=a&var=42&mkcid=1', BUILTIN_URL_POLICIES.ebay)
+		).toBe('https://www.ebay.com/itm/123?var=42');
+		expect(canonicalizeUrl('https://www.amazon.com/dp/B0ABCDEF12?tag=x&psc=1', BUILTIN_URL_POLICIES.amazon)).toBe(
+			'https://www.amazon.com/dp/B0ABCDEF12'
+		);
+	});
+
+	it('should strip ref only where the policy treats it as tracking', () => {
+		expect(canonicalizeUrl('https://github.com/tinyland-inc/kit/tree/main?ref=v1.2')).toBe(
+			'https://github.com/tinyland-inc/kit/tree/main?ref=v1.2'
+		);
+		expect(canonicalizeUrl('https://ko-fi.com/t?ref=newsletter&tier=2', BUILTIN_URL_POLICIES.kofi)).toBe(
+			'https://ko-fi.com/t?tier=2'
+		);
+	});
+
+	it('should return the input untouched when nothing changes', () => {
+		expect(canonicalizeUrl('https://shop.example.com')).toBe('https://shop.example.com');
+		expect(canonicalizeUrl('not a url')).toBe('not a url');
+	});
+});
+
+
+
+
+
+describe('transaction URL policies', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should enforce the policy in validateTransaction', () => {
+		const result = svc.validateTransaction({
+			type: 'ebay',
+			enabled: true,
+			url: 'https://www.etsy.com/listing/1',
+			price: 10,
+			currency: 'USD',
+		});
+		expect(result.valid).toBe(false);
+		expect(result.issues[0]).toMatchObject({ code: 'URL_HOST_NOT_ALLOWED', path: '$.url' });
+	});
+
+	it('should write the canonical URL to externalUrl', () => {
+		const transaction: TransactionConfig = {
+			type: 'etsy',
+			enabled: true,
+			url: 'https://www.etsy.com/listing/123/kit?ref=shop_home&click_key=abc&variation0=7',
+			price: 10,
+			currency: 'USD',
+		};
+		const offer = svc.buildOffer(PRODUCT, transaction, BASE_URL) as SchemaOffer;
+		expect(offer.externalUrl).toBe('https://www.etsy.com/listing/123/kit?variation0=7');
+		expect(offer.url).toBe(offer.externalUrl);
+	});
+
+	it('should keep git refs on documentation and repository links', () => {
+		const offer = svc.buildOffer(
+			PRODUCT,
+			{ type: 'documentation', enabled: true, url: 'https://docs.example.com/kit?ref=v1.2' },
+			BASE_URL
+		);
+		expect(offer.externalUrl).toBe('https://docs.example.com/kit?ref=v1.2');
+	});
+
+	it('should let registrations declare their own policy', () => {
+		const registry = createTransactionRegistry();
+		registry.override('stripe', { urlPolicy: { hosts: ['buy.stripe.com'], protocols: ['https:'] } });
+		const scoped = new OfferBuilderService({ registry });
+		const stripe = (url: string): TransactionConfig => ({ type: 'stripe', enabled: true, url, price: 5, currency: 'USD' });
+
+		expect(scoped.validateTransaction(stripe('https://buy.stripe.com/abc')).valid).toBe(true);
+		expect(scoped.validateTransaction(stripe('https://stripe.example/abc')).valid).toBe(false);
+		expect(svc.validateTransaction(stripe('https://stripe.example/abc')).valid).toBe(true);
+	});
+});
@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+	OfferBuilderService,
+	createTransactionRegistry,
+	createIssue,
+	joinPath,
+	prefixIssues,
+	toValidationResult,
+	resetConfig,
+} from '../src/index.js';
+import type { TransactionConfig, ValidationIssue } from '../src/index.js';
+
+function codes(issues: ValidationIssue[]): string[] {
+	return issues.map((issue) => issue.code);
+}
+
+
+
+
+
+describe('validation helpers', () => {
+	it('should build JSON paths', () => {
+		expect(joinPath('$', 'tiers', 1, 'price')).toBe('$.tiers[1].price');
+		expect(joinPath('$.transactions', 0)).toBe('$.transactions[0]');
+		expect(joinPath('$', 'odd key')).toBe('$["odd key"]');
+	});
+
+	it('should prefix issue paths', () => {
+		const [issue] = prefixIssues([createIssue('PRICE_INVALID', '$.price', 'Invalid price: x')], '$.transactions[2]');
+		expect(issue.path).toBe('$.transactions[2].price');
+	});
+
+	it('should derive the string views from issues', () => {
+		const result = toValidationResult([
+			createIssue('PRICE_INVALID', '$.price', 'Invalid price: x'),
+			createIssue('CURRENCY_DEFAULTED', '$.currency', 'No currency given, defaulting to USD', {}, 'warning'),
+		]);
+		expect(result.valid).toBe(false);
+		expect(result.errors).toEqual(['Invalid price: x']);
+		expect(result.warnings).toEqual(['No currency given, defaulting to USD']);
+	});
+
+	it('should stay valid with only warnings', () => {
+		const result = toValidationResult([createIssue('CUSTOM_RULE', '$', 'Heads up', {}, 'warning')]);
+		expect(result.valid).toBe(true);
+		expect(result.errors).toEqual([]);
+	});
+});
+
+
+
+
+
+describe('validateTransaction issues', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should report unknown types with the allowed list', () => {
+		const result = svc.validateTransaction({ type: 'nope', enabled: true });
+		expect(result.issues).toHaveLength(1);
+		expect(result.issues[0]).toMatchObject({
+			code: 'TYPE_UNKNOWN',
+			path: '$.type',
+			severity: 'error',
+			params: { type: 'nope' },
+		});
+		expect(result.issues[0].params.allowed).toContain('stripe');
+	});
+
+	it('should point at the offending fields', () => {
+		const result = svc.validateTransaction({
+			type: 'ebay',
+			enabled: true,
+			price: 'abc',
+			currency: 'USD',
+		});
+		expect(result.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+			{ code: 'URL_REQUIRED', path: '$.url' },
+			{ code: 'PRICE_INVALID', path: '$.price' },
+		]);
+		expect(result.errors).toEqual([
+			'Transaction type "ebay" requires an external URL',
+			'Invalid price: abc',
+		]);
+	});
+
+	it('should warn when a monetary price has no currency', () => {
+		const result = svc.validateTransaction({ type: 'stripe', enabled: true, price: '5.00' });
+		expect(result.valid).toBe(true);
+		expect(result.issues).toEqual([
+			expect.objectContaining({ code: 'CURRENCY_DEFAULTED', path: '$.currency', severity: 'warning' }),
+		]);
+	});
+
+	it('should index into tiers, schedules and suggested prices', () => {
+		const tiers = svc.validateTransaction({
+			type: 'polar',
+			enabled: true,
+			url: 'https://polar.sh/tinyland',
+			currency: 'USD',
+			billingDuration: 'month',
+			tiers: [
+				{ name: 'Basic', price: '5.00' },
+				{ name: 'Pro', price: '0', billingIncrement: 0 },
+			],
+		});
+		expect(tiers.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+			{ code: 'TIER_PRICE_INVALID', path: '$.tiers[1].price' },
+			{ code: 'BILLING_INCREMENT_INVALID', path: '$.tiers[1].billingIncrement' },
+		]);
+
+		const unnamed = svc.validateTransaction({
+			type: 'polar',
+			enabled: true,
+			url: 'https://polar.sh/tinyland',
+			currency: 'USD',
+			billingDuration: 'month',
+			tiers: [{ name: 5 as never, price: '5.00' }],
+		});
+		expect(unnamed.issues).toEqual([
+			expect.objectContaining({
+				code: 'TIER_NAME_REQUIRED',
+				path: '$.tiers[0].name',
+				params: { received: 'number' },
+			}),
+		]);
+
+		const schedule = svc.validateTransaction({
+			type: 'stripe',
+			enabled: true,
+			price: '10.00',
+			currency: 'USD',
+			schedule: [{ price: '8.00', kind: 'flash' as never, validFrom: 'soon' }],
+		});
+		expect(codes(schedule.issues)).toEqual(['SCHEDULE_KIND_INVALID', 'DATE_INVALID']);
+		expect(schedule.issues[1].path).toBe('$.schedule[0].validFrom');
+
+		const pwyw = svc.validateTransaction({
+			type: 'kofi',
+			enabled: true,
+			url: 'https://ko-fi.com/tinyland',
+			currency: 'USD',
+			minPrice: 3,
+			suggestedPrices: [5, 1],
+		});
+		expect(pwyw.issues).toEqual([
+			expect.objectContaining({
+				code: 'PRICE_OUT_OF_RANGE',
+				path: '$.suggestedPrices[1]',
+				params: { value: '1', min: '3' },
+			}),
+		]);
+	});
+
+	it('should prefix paths with a caller-supplied root', () => {
+		const result = svc.validateTransaction(
+			{ type: 'stripe', enabled: true, price: '-1', currency: 'USD' },
+			'$.transactions[3]'
+		);
+		expect(result.issues[0].path).toBe('$.transactions[3].price');
+	});
+
+	it('should distinguish unknown and invalid sellers', () => {
+		const unknown = svc.validateTransaction({ type: 'inquiry', enabled: true, seller: 'ghost' });
+		expect(unknown.issues[0]).toMatchObject({ code: 'SELLER_UNKNOWN', path: '$.seller' });
+
+		const invalid = svc.validateTransaction({ type: 'inquiry', enabled: true, seller: { name: '' } });
+		expect(invalid.issues[0]).toMatchObject({ code: 'SELLER_INVALID', path: '$.seller' });
+	});
+
+	it('should wrap custom rule strings and pass issues through', () => {
+		const registry = createTransactionRegistry();
+		registry.override('stripe', {
+			validate: (transaction: TransactionConfig) => [
+				'Stripe needs a label',
+				createIssue('STRIPE_LIMIT', '$.price', 'Too expensive', { max: 999 }, 'warning'),
+			],
+		});
+		const result = new OfferBuilderService({ registry }).validateTransaction({
+			type: 'stripe',
+			enabled: true,
+			price: '1000.00',
+			currency: 'USD',
+		});
+		expect(result.issues).toEqual([
+			{ code: 'CUSTOM_RULE', path: '$', severity: 'error', message: 'Stripe needs a label', params: {} },
+			{ code: 'STRIPE_LIMIT', path: '$.price', severity: 'warning', message: 'Too expensive', params: { max: 999 } },
+		]);
+		expect(result.errors).toEqual(['Stripe needs a label']);
+		expect(result.warnings).toEqual(['Too expensive']);
+	});
+});
+
+
+
+
+
+describe('validateProduct', () => {
+	let svc: OfferBuilderService;
+
+	beforeEach(() => {
+		resetConfig();
+		svc = new OfferBuilderService();
+	});
+
+	it('should accept a well-formed product', () => {
+		const result = svc.validateProduct({
+			slug: 'kit',
+			title: 'Kit',
+			frontmatter: {
+				transactions: [
+					{ type: 'stripe', enabled: true, price: '10.00', currency: 'USD', priority: 2 },
+					{ type: 'inquiry', enabled: true, priority: 1 },
+				],
+			},
+		});
+		expect(result).toEqual({ valid: true, issues: [], errors: [], warnings: [] });
+	});
+
+	it('should reject non-list transactions', () => {
+		const result = svc.validateProduct({ slug: 'kit', title: 'Kit', frontmatter: { transactions: { type: 'stripe' } } });
+		expect(result.issues).toEqual([
+			expect.objectContaining({ code: 'TRANSACTIONS_INVALID', path: '$.frontmatter.transactions' }),
+		]);
+	});
+
+	it('should require a name or title', () => {
+		const result = svc.validateProduct({ slug: 'kit', title: '', frontmatter: {} });
+		expect(codes(result.issues)).toEqual(['NAME_REQUIRED']);
+
+		expect(svc.validateProduct({ slug: 'kit', title: '', frontmatter: { name: 'Kit' } }).valid).toBe(true);
+	});
+
+	it('should report every issue with its transaction index', () => {
+		const result = svc.validateProduct({
+			slug: 'kit',
+			title: 'Kit',
+			frontmatter: {
+				transactions: [
+					{ type: 'stripe', enabeld: true, price: '10.00', currency: 'USD' },
+					'stripe',
+					{ type: 'stripe', enabled: true, price: 'abc', currency: 'USD', priority: 5 },
+					{ enabled: true, priority: 5 },
+					{ type: 'inquiry', enabled: true, priority: 5 },
+				],
+			},
+		});
+
+		expect(result.valid).toBe(false);
+		expect(result.issues.map(({ code, path, index }) => ({ code, path, index }))).toEqual([
+			{ code: 'UNKNOWN_KEY', path: '$.frontmatter.transactions[0].enabeld', index: 0 },
+			{ code: 'ENABLED_INVALID', path: '$.frontmatter.transactions[0].enabled', index: 0 },
+			{ code: 'TRANSACTION_INVALID', path: '$.frontmatter.transactions[1]', index: 1 },
+			{ code: 'TYPE_DUPLICATE', path: '$.frontmatter.transactions[2].type', index: 2 },
+			{ code: 'PRICE_INVALID', path: '$.frontmatter.transactions[2].price', index: 2 },
+			{ code: 'PRIORITY_CONFLICT', path: '$.frontmatter.transactions[3].priority', index: 3 },
+			{ code: 'TYPE_REQUIRED', path: '$.frontmatter.transactions[3].type', index: 3 },
+			{ code: 'PRIORITY_CONFLICT', path: '$.frontmatter.transactions[4].priority', index: 4 },
+		]);
+		expect(result.issues[0].params).toEqual({ key: 'enabeld', suggestion: 'enabled' });
+		expect(result.issues[0].message).toBe('Unknown transaction key "enabeld" (did you mean "enabled"?)');
+	});
+
+	it('should report malformed field types instead of throwing', () => {
+		const base = { enabled: true, price: '10.00', currency: 'USD' };
+		const result = svc.validateProduct({
+			slug: 'kit',
+			title: 'Kit',
+			frontmatter: {
+				transactions: [
+					{ ...base, type: 'stripe', buyerRegion: 12, priority: 1 },
+					{ ...base, type: 'etsy', url: 'https://www.etsy.com/listing/1', currency: 5, priority: 2 },
+					{ ...base, type: 'amazon', url: 'https://www.amazon.com/dp/B0ABCDEF12', schedule: [null], priority: 3 },
+					{
+						type: 'polar',
+						enabled: true,
+						url: 'https://polar.sh/tinyland',
+						currency: 'USD',
+						billingDuration: 'month',
+						tiers: [null, { name: 'Pro', price: '15.00' }],
+						priority: 4,
+					},
+				],
+			},
+		});
+
+		expect(result.issues.map(({ code, path, index }) => ({ code, path, index }))).toEqual([
+			{ code: 'REGION_INVALID', path: '$.frontmatter.transactions[0].buyerRegion', index: 0 },
+			{ code: 'CURRENCY_INVALID', path: '$.frontmatter.transactions[1].currency', index: 1 },
+			{ code: 'SCHEDULE_ENTRY_INVALID', path: '$.frontmatter.transactions[2].schedule[0]', index: 2 },
+			{ code: 'TIER_INVALID', path: '$.frontmatter.transactions[3].tiers[0]', index: 3 },
+		]);
+		expect(result.issues[1].message).toBe('Invalid currency: 5');
+		expect(result.issues[2].params).toEqual({ received: 'null' });
+	});
+
+	it('should check the frontmatter seller', () => {
+		const result = svc.validateProduct({ slug: 'kit', title: 'Kit', frontmatter: { seller: 'ghost' } });
+		expect(result.issues[0]).toMatchObject({ code: 'SELLER_UNKNOWN', path: '$.frontmatter.seller' });
+	});
+
+	it('should make buildAllOffers fail loudly on non-list transactions', () => {
+		expect(() =>
+			svc.buildAllOffers({ slug: 'kit', title: 'Kit', frontmatter: { transactions: 'stripe' } }, 'https://tinyland.dev')
+		).toThrow('Product transactions must be a list: kit');
+	});
+});